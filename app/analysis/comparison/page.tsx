@@ -7,6 +7,7 @@ import { ArrowLeft, MapPin, TrendingUp, Loader2 } from 'lucide-react'
 import { Card, CardContent } from '../../components/ui/card'
 import dynamic from 'next/dynamic'
 import type { LatLngExpression } from 'leaflet'
+import type { ComparisonArea, ComparisonFootprint, FieldComparison, RejectionReason, SamplingStrategy } from '../../types/comparison'
 
 // Dynamically import map component
 const MapDisplay = dynamic(() => import('../../components/AnalysisMap'), {
@@ -18,19 +19,40 @@ const MapDisplay = dynamic(() => import('../../components/AnalysisMap'), {
   ),
 })
 
-interface ComparisonArea {
-  polyid: string | null
-  center: [number, number]
-  coordinates: LatLngExpression[]
-  score: number
-  fertilityLevel: string
-  area: string // e.g., "3 hectares"
-  distance: number // km from original area
-  summary?: string
+// Neighbours the backend samples around the field
+const SAMPLE_COUNT = 4
+
+const FOOTPRINTS: { value: ComparisonFootprint; label: string; description: string }[] = [
+  { value: 'area', label: 'Same area', description: 'A square as large as your field' },
+  { value: 'shape', label: 'Same shape', description: "Your field's outline moved to each location" },
+  { value: 'square', label: '3 ha square', description: 'A fixed 3 hectare square, whatever your field size' },
+]
+
+const STRATEGIES: { value: SamplingStrategy; label: string; description: string }[] = [
+  { value: 'random', label: 'Random', description: 'Spread at random over the search radius' },
+  { value: 'grid', label: 'Grid', description: 'A regular grid over the search radius' },
+  { value: 'rings', label: 'Rings', description: 'Evenly spaced at 1/3, 2/3 and the full radius' },
+]
+
+const REJECTION_LABELS: Record<RejectionReason, string> = {
+  landcover: 'Not cropland (land cover)',
+  ndvi_low: 'Low NDVI',
+  ndvi_flat: 'No crop season in NDVI',
+}
+
+type ScoredArea = ComparisonArea & { score: number }
+
+// A location that has no score, with why
+interface UnscoredLocation {
+  index: number
+  distance_km: number
+  reason: string
+  message: string
 }
 
 interface CurrentAnalysis {
   polyid: string
+  fieldId?: string | null
   score: number
   coordinates: LatLngExpression[]
   center: [number, number]
@@ -39,222 +61,86 @@ interface CurrentAnalysis {
 export default function ComparisonPage() {
   const router = useRouter()
   const [currentAnalysis, setCurrentAnalysis] = useState<CurrentAnalysis | null>(null)
-  const [comparisonAreas, setComparisonAreas] = useState<ComparisonArea[]>([])
+  const [comparison, setComparison] = useState<FieldComparison | null>(null)
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const [loadedCount, setLoadedCount] = useState(0)
   const [radiusKm, setRadiusKm] = useState<number>(100) // Default 100 km
+  const [seed, setSeed] = useState('')
+  const [strategy, setStrategy] = useState<SamplingStrategy>('random')
+  const [croplandOnly, setCroplandOnly] = useState(false)
+  // Statistics over the same amount of ground as the field are the comparable ones
+  const [footprint, setFootprint] = useState<ComparisonFootprint>('area')
+
+  // Areas that were analyzed, best first (the backend already sorts them)
+  const comparisonAreas = (comparison?.areas ?? []).filter(
+    (area): area is ScoredArea => area.status === 'done' && area.score !== null
+  )
 
-  // Generate random point within radius (in km)
-  // center is [lat, lng] format
-  const generateRandomPoint = useCallback((center: [number, number], radiusKm: number): [number, number] => {
-    const [centerLat, centerLng] = center
-    
-    // Validate center coordinates
-    if (isNaN(centerLat) || isNaN(centerLng) || centerLat < -90 || centerLat > 90 || centerLng < -180 || centerLng > 180) {
-      console.error('Invalid center coordinates:', center)
-      return center
-    }
-    
-    // Convert km to degrees
-    // 1 degree of latitude ≈ 111 km
-    // 1 degree of longitude ≈ 111 km * cos(latitude)
-    const latRadiusDeg = radiusKm / 111.0
-    const lngRadiusDeg = radiusKm / (111.0 * Math.cos((centerLat * Math.PI) / 180))
-    
-    // Generate random angle (0 to 2π)
-    const angle = Math.random() * 2 * Math.PI
-    
-    // Generate random distance from center (0 to radius)
-    // Use square root for uniform distribution in area
-    const distanceRatio = Math.sqrt(Math.random())
-    
-    // Calculate offset in degrees
-    const latOffset = distanceRatio * latRadiusDeg * Math.cos(angle)
-    const lngOffset = distanceRatio * lngRadiusDeg * Math.sin(angle)
-    
-    // Calculate new point
-    const newLat = centerLat + latOffset
-    const newLng = centerLng + lngOffset
-    
-    // Validate resulting coordinates
-    if (newLat < -90 || newLat > 90 || newLng < -180 || newLng > 180) {
-      console.warn('Generated point outside valid range, clamping:', [newLat, newLng])
-      return [
-        Math.max(-90, Math.min(90, newLat)),
-        Math.max(-180, Math.min(180, newLng))
-      ]
-    }
-    
-    return [newLat, newLng]
-  }, [])
-
-  // Create 3-hectare rectangle coordinates (3 hectares ≈ 173m x 173m)
-  const create3HectareRectangle = useCallback((center: [number, number]): LatLngExpression[] => {
-    // 3 hectares = 30,000 m²
-    // Square: √30000 ≈ 173.2 meters
-    // Convert to degrees: 173.2m / 111,000m per degree ≈ 0.00156 degrees
-    const sizeDeg = 173.2 / 111000
-    
-    const latOffset = sizeDeg / 2
-    const lngOffset = sizeDeg / (2 * Math.cos((center[0] * Math.PI) / 180))
-    
-    return [
-      [center[0] - latOffset, center[1] - lngOffset],
-      [center[0] + latOffset, center[1] - lngOffset],
-      [center[0] + latOffset, center[1] + lngOffset],
-      [center[0] - latOffset, center[1] + lngOffset],
-      [center[0] - latOffset, center[1] - lngOffset], // Close the polygon
-    ]
-  }, [])
-
-  // Calculate distance between two points (Haversine formula)
-  const calculateDistance = useCallback((point1: [number, number], point2: [number, number]): number => {
-    const R = 6371 // Earth's radius in km
-    const dLat = ((point2[0] - point1[0]) * Math.PI) / 180
-    const dLon = ((point2[1] - point1[1]) * Math.PI) / 180
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos((point1[0] * Math.PI) / 180) *
-        Math.cos((point2[0] * Math.PI) / 180) *
-        Math.sin(dLon / 2) *
-        Math.sin(dLon / 2)
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
-    return R * c
-  }, [])
-
-  // Load comparison areas
+  // Areas whose analysis failed and locations the cropland checks turned down, in sample order
+  const unscoredLocations: UnscoredLocation[] = comparison
+    ? [
+        ...comparison.areas
+          .filter((area) => area.status !== 'done' || area.score === null)
+          .map((area) => ({
+            index: area.index,
+            distance_km: area.distance_km,
+            reason: 'Analysis failed',
+            message: area.error?.message || 'No score was returned',
+          })),
+        ...comparison.rejected.map((candidate) => ({
+          index: candidate.index,
+          distance_km: candidate.distance_km,
+          reason: REJECTION_LABELS[candidate.reason] ?? candidate.reason,
+          message: candidate.message,
+        })),
+      ].sort((a, b) => a.index - b.index)
+    : []
+
+  // The field's own score: the one /compare answers with once it has run, the analysis page's until then
+  const fieldScore = comparison ? comparison.field.score : currentAnalysis?.score ?? null
+
+  // Load comparison areas: the backend samples them from the seed, so the same seed gives the same areas
   const loadComparisonAreas = useCallback(async () => {
     if (!currentAnalysis) {
       setError('No analysis data available')
       return
     }
+    if (!currentAnalysis.fieldId) {
+      setError('This area is not saved as a field yet. Re-open it on the analysis page and try again.')
+      return
+    }
 
     setIsLoading(true)
     setError(null)
-    setComparisonAreas([])
-    setLoadedCount(0)
+    setComparison(null)
 
     try {
-      // Validate center coordinates
-      const center = currentAnalysis.center
-      console.log('Generating comparison areas near center:', center)
-      console.log('Center coordinates format: [lat, lng] =', center)
-      
-      if (!center || center.length !== 2 || isNaN(center[0]) || isNaN(center[1])) {
-        throw new Error('Invalid center coordinates')
-      }
-      
-      // Generate 4 random locations within selected radius
-      const numLocations = 4
-      const randomPoints: [number, number][] = []
-
-      // Generate unique random points
-      for (let i = 0; i < numLocations; i++) {
-        let attempts = 0
-        let point: [number, number]
-        do {
-          point = generateRandomPoint(center, radiusKm)
-          const distance = calculateDistance(center, point)
-          console.log(`Generated point ${i + 1}:`, point, `Distance: ${distance.toFixed(2)} km`)
-          
-          attempts++
-          // Ensure minimum distance between points (at least 5km apart, or 10% of radius, whichever is smaller)
-          const minDistance = Math.min(5, radiusKm * 0.1)
-          const tooClose = randomPoints.some(p => calculateDistance(p, point) < minDistance)
-          if (!tooClose || attempts > 50) break
-        } while (attempts < 50)
-        randomPoints.push(point)
-        
-        // Verify distance
-        const distance = calculateDistance(center, point)
-        if (distance > radiusKm * 1.1) {
-          console.warn(`Point ${i + 1} is ${distance.toFixed(2)}km away (expected < ${radiusKm}km)`)
-        }
-      }
-
-      console.log(`Generated ${randomPoints.length} random locations within ${radiusKm}km radius`)
-      console.log('All points:', randomPoints)
-
-      // Create and analyze each location
-      const areaPromises = randomPoints.map(async (center, index) => {
-        try {
-          const coordinates = create3HectareRectangle(center)
-          
-          // Try to create polygon
-          const createRes = await fetch('http://localhost:5000/api/soil/polygon', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ coordinates }),
-          })
-
-          let polyid: string | null = null
-          
-          if (!createRes.ok) {
-            const errorData = await createRes.json().catch(() => ({}))
-            
-            // Check if polygon creation limit reached
-            if (errorData.message && errorData.message.includes('can not create polygons')) {
-              console.warn(`⚠️  Polygon creation limit reached for location ${index + 1}`)
-              return null // Skip this location
-            }
-            
-            // If existing polygon, use it
-            if (errorData.existingPolyid) {
-              polyid = errorData.existingPolyid
-            } else {
-              console.warn(`Failed to create polygon for location ${index + 1}:`, errorData.message || errorData.error)
-              return null
-            }
-          } else {
-            const polygonData = await createRes.json()
-            polyid = polygonData.polyid
-          }
-
-          if (!polyid) return null
-
-          // Analyze the polygon
-          const analysisRes = await fetch(`http://localhost:5000/api/ai-analysis/${polyid}`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-          })
-
-          if (!analysisRes.ok) {
-            console.warn(`Failed to analyze polygon ${polyid}`)
-            return null
-          }
-
-          const analysis = await analysisRes.json()
-          const distance = calculateDistance(currentAnalysis.center, center)
-          const score = typeof analysis.Soil_Quality_Index === 'number' ? analysis.Soil_Quality_Index : 0
-
-          setLoadedCount(prev => prev + 1)
-
-          return {
-            polyid,
-            center,
-            coordinates,
-            score,
-            fertilityLevel: analysis.Fertility_Level || analysis.Soil_Quality_Level || 'Unknown',
-            area: '3 hectares',
-            distance,
-            summary: analysis.Field_Summary || analysis.Summary,
-          } as ComparisonArea
-        } catch (err: any) {
-          console.error(`Error processing location ${index + 1}:`, err.message || err)
-          return null
-        }
+      const res = await fetch(`http://localhost:5000/api/fields/${currentAnalysis.fieldId}/compare`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          radiusKm,
+          samples: SAMPLE_COUNT,
+          strategy,
+          croplandOnly,
+          footprint,
+          // Empty means the field's own default seed
+          ...(seed.trim() ? { seed: seed.trim() } : {}),
+        }),
       })
+      const body = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        throw new Error(body.message || body.error || 'Failed to compare nearby areas')
+      }
+      const result = body as FieldComparison
 
-      const areas = (await Promise.all(areaPromises)).filter(Boolean) as ComparisonArea[]
-      
-      if (areas.length === 0) {
+      setComparison(result)
+      if (result.croplandOnly && result.areas.length === 0) {
+        setError(`None of the ${result.candidatesTried} candidate locations passed the cropland checks. Try a larger radius or another seed.`)
+      } else if (!result.areas.some((area) => area.status === 'done')) {
         setError('Unable to create or analyze comparison areas. Your AgroMonitoring API key may have reached its polygon creation limit. Please check your account limits or try again later.')
       } else {
-        // Sort by score (highest first)
-        areas.sort((a, b) => b.score - a.score)
-        setComparisonAreas(areas)
-        console.log(`Loaded ${areas.length} comparison areas`)
+        console.log(`Loaded ${result.areas.length} comparison areas (seed ${result.seed})`)
       }
     } catch (err: any) {
       console.error('Error loading comparison areas:', err)
@@ -262,7 +148,7 @@ export default function ComparisonPage() {
     } finally {
       setIsLoading(false)
     }
-  }, [currentAnalysis, radiusKm, generateRandomPoint, create3HectareRectangle, calculateDistance])
+  }, [currentAnalysis, radiusKm, seed, strategy, croplandOnly, footprint])
 
   // Load current analysis on mount
   useEffect(() => {
@@ -359,7 +245,7 @@ export default function ComparisonPage() {
           </Link>
           <h1 className="text-3xl font-bold text-success mb-2">Nearby Area Comparison</h1>
           <p className="text-muted-foreground mb-4">
-            Compare your area with 3-4 randomly selected nearby locations (3 hectares each)
+            Compare your area with {SAMPLE_COUNT} nearby locations
           </p>
           
           {/* Radius Selector */}
@@ -387,12 +273,86 @@ export default function ComparisonPage() {
                     </div>
                   </div>
                   
+                  <div>
+                    <span className="block text-sm font-medium text-foreground mb-2">Sampling</span>
+                    <div className="grid grid-cols-3 gap-2">
+                      {STRATEGIES.map((option) => (
+                        <button
+                          key={option.value}
+                          type="button"
+                          onClick={() => setStrategy(option.value)}
+                          title={option.description}
+                          className={`px-3 py-2 rounded-lg border-2 text-sm font-semibold transition-colors ${
+                            strategy === option.value
+                              ? 'bg-blue-600 text-white border-blue-600'
+                              : 'bg-white/90 text-blue-700 border-blue-200 hover:border-blue-400'
+                          }`}
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {STRATEGIES.find((option) => option.value === strategy)?.description}
+                    </p>
+                  </div>
+
+                  <div>
+                    <span className="block text-sm font-medium text-foreground mb-2">Comparison area size</span>
+                    <div className="grid grid-cols-3 gap-2">
+                      {FOOTPRINTS.map((option) => (
+                        <button
+                          key={option.value}
+                          type="button"
+                          onClick={() => setFootprint(option.value)}
+                          title={option.description}
+                          className={`px-3 py-2 rounded-lg border-2 text-sm font-semibold transition-colors ${
+                            footprint === option.value
+                              ? 'bg-blue-600 text-white border-blue-600'
+                              : 'bg-white/90 text-blue-700 border-blue-200 hover:border-blue-400'
+                          }`}
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {FOOTPRINTS.find((option) => option.value === footprint)?.description}
+                    </p>
+                  </div>
+
+                  <label className="flex items-start gap-2 text-sm text-foreground cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={croplandOnly}
+                      onChange={(e) => setCroplandOnly(e.target.checked)}
+                      className="mt-0.5 accent-blue-600"
+                    />
+                    <span>
+                      <span className="font-medium">Cropland only</span>
+                      <span className="block text-xs text-muted-foreground">
+                        Skip locations that look like water, towns or forest (the cropland map when one is configured, plus NDVI over the last year where the location has any - new locations usually do not)
+                      </span>
+                    </span>
+                  </label>
+
+                  <div>
+                    <label htmlFor="seed" className="block text-sm font-medium text-foreground mb-2">
+                      Seed <span className="text-muted-foreground font-normal">(optional - the same seed always picks the same areas)</span>
+                    </label>
+                    <input
+                      type="text"
+                      id="seed"
+                      maxLength={100}
+                      value={seed}
+                      onChange={(e) => setSeed(e.target.value)}
+                      placeholder="Default: this field's own seed"
+                      className="w-full px-3 py-2 rounded-lg border-2 border-blue-200 bg-white/90 text-sm focus:outline-none focus:border-blue-400"
+                    />
+                  </div>
+
                   <button
-                    onClick={() => {
-                      setComparisonAreas([])
-                      setError(null)
-                      loadComparisonAreas()
-                    }}
+                    onClick={loadComparisonAreas}
                     disabled={isLoading}
                     className="w-full bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 disabled:from-gray-400 disabled:to-gray-500 text-white font-semibold py-3 px-6 rounded-lg shadow-md border-2 border-blue-400/50 transition-all duration-200 hover:shadow-lg hover:scale-105 disabled:hover:scale-100 disabled:cursor-not-allowed flex items-center justify-center gap-2"
                   >
@@ -421,7 +381,7 @@ export default function ComparisonPage() {
               <div className="text-center space-y-3">
                 <Loader2 className="size-8 animate-spin text-blue-600 mx-auto" />
                 <p className="text-blue-700 font-semibold">
-                  Loading comparison areas... ({loadedCount}/4)
+                  Loading comparison areas... ({croplandOnly ? 'checking for cropland and analyzing' : 'analyzing'} {SAMPLE_COUNT} locations)
                 </p>
                 <p className="text-sm text-muted-foreground">
                   Searching within {radiusKm}km radius. Creating and analyzing polygons. This may take a moment.
@@ -446,12 +406,21 @@ export default function ComparisonPage() {
             <CardContent className="p-6">
               <h2 className="text-xl font-bold text-purple-700 mb-4">Your Selected Area</h2>
               <div className="flex items-center gap-4">
-                <div className={`px-6 py-4 rounded-xl font-bold text-3xl bg-gradient-to-br ${getScoreBgColor(currentAnalysis.score)} text-white border-4`}>
-                  {currentAnalysis.score.toFixed(1)}
-                </div>
+                {fieldScore !== null ? (
+                  <div className={`px-6 py-4 rounded-xl font-bold text-3xl bg-gradient-to-br ${getScoreBgColor(fieldScore)} text-white border-4`}>
+                    {fieldScore.toFixed(1)}
+                  </div>
+                ) : (
+                  <div className="px-6 py-4 rounded-xl font-bold text-3xl bg-gray-400 text-white border-4">N/A</div>
+                )}
                 <div>
-                  <p className="text-lg font-semibold text-foreground">Score: {currentAnalysis.score.toFixed(1)}</p>
-                  <p className="text-sm text-muted-foreground">Original analyzed area</p>
+                  <p className="text-lg font-semibold text-foreground">
+                    Score: {fieldScore !== null ? fieldScore.toFixed(1) : 'not analyzed yet'}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {comparison ? 'Latest stored analysis of the field' : 'Original analyzed area'}
+                    {comparison && ` · ${comparison.field.area_ha.toFixed(2)} ha`}
+                  </p>
                 </div>
               </div>
             </CardContent>
@@ -461,20 +430,30 @@ export default function ComparisonPage() {
         {/* Comparison Areas */}
         {comparisonAreas.length > 0 && (
           <div className="mb-6">
-            <h2 className="text-2xl font-bold text-foreground mb-4">
-              Nearby Comparison Areas ({comparisonAreas.length} found)
-            </h2>
+            <div className="flex flex-wrap items-baseline justify-between gap-2 mb-4">
+              <h2 className="text-2xl font-bold text-foreground">
+                Nearby Comparison Areas ({comparisonAreas.length} found)
+              </h2>
+              {comparison && (
+                <p className="text-sm text-muted-foreground">
+                  {STRATEGIES.find((option) => option.value === comparison.strategy)?.label} sampling
+                  {comparison.croplandOnly && ', cropland only'} ·{' '}
+                  {FOOTPRINTS.find((option) => option.value === comparison.footprint)?.label.toLowerCase()} · Seed{' '}
+                  <span className="font-mono font-semibold text-foreground">{comparison.seed}</span> · within {comparison.radiusKm} km
+                </p>
+              )}
+            </div>
             <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
               {comparisonAreas.map((area, index) => (
                 <Card
-                  key={index}
+                  key={area.index}
                   className="border-2 border-blue-400/50 bg-gradient-to-br from-blue-50 to-blue-100/50 hover:shadow-lg transition-shadow"
                 >
                   <CardContent className="p-4">
                     <div className="space-y-3">
                       <div className="flex items-center justify-between">
                         <span className="text-xs font-medium text-muted-foreground">Area #{index + 1}</span>
-                        <span className="text-xs text-muted-foreground">{area.distance.toFixed(1)} km away</span>
+                        <span className="text-xs text-muted-foreground">{area.distance_km.toFixed(1)} km away</span>
                       </div>
                       
                       <div className="text-center">
@@ -483,19 +462,25 @@ export default function ComparisonPage() {
                         </div>
                         <p className="text-xs text-muted-foreground mb-1">Soil Quality Score</p>
                         <p className={`text-sm font-semibold px-2 py-1 rounded border-2 ${getScoreColor(area.score)}`}>
-                          {area.fertilityLevel}
+                          {area.fertility_level}
                         </p>
                       </div>
 
                       <div className="space-y-2 pt-2 border-t border-blue-200">
                         <div className="flex items-center justify-between text-xs">
-                          <span className="text-muted-foreground">Area:</span>
-                          <span className="font-semibold text-foreground">{area.area}</span>
+                          <span className="text-muted-foreground">Area analyzed:</span>
+                          <span className="font-semibold text-foreground">{area.area_ha.toFixed(2)} ha</span>
                         </div>
                         <div className="flex items-center justify-between text-xs">
                           <span className="text-muted-foreground">Distance:</span>
-                          <span className="font-semibold text-foreground">{area.distance.toFixed(1)} km</span>
+                          <span className="font-semibold text-foreground">{area.distance_km.toFixed(1)} km</span>
                         </div>
+                        {area.ring !== undefined && (
+                          <div className="flex items-center justify-between text-xs">
+                            <span className="text-muted-foreground">Ring:</span>
+                            <span className="font-semibold text-foreground">#{area.ring} ({area.ring_km} km)</span>
+                          </div>
+                        )}
                       </div>
 
                       {area.summary && (
@@ -509,6 +494,35 @@ export default function ComparisonPage() {
           </div>
         )}
 
+        {/* Failed and Rejected Locations */}
+        {comparison && unscoredLocations.length > 0 && (
+          <Card className="border-2 border-gray-300/70 bg-gradient-to-br from-gray-50 to-gray-100/50 mb-6">
+            <CardContent className="p-6">
+              <h2 className="text-xl font-bold text-gray-700 mb-1">
+                Locations Without a Score ({unscoredLocations.length})
+              </h2>
+              <p className="text-sm text-muted-foreground mb-4">
+                {comparisonAreas.length} of {comparison.candidatesTried} candidate locations were analyzed
+                {comparison.croplandOnly && ` · ${comparison.areas.length} passed the cropland checks`}
+                {comparisonAreas.length < comparison.samples && ` - fewer than the ${comparison.samples} asked for`}
+              </p>
+              <div className="bg-white/90 backdrop-blur-sm border-2 border-gray-200/50 rounded-lg divide-y divide-gray-200">
+                {unscoredLocations.map((location) => (
+                  <div key={location.index} className="flex flex-wrap items-center justify-between gap-2 px-4 py-2 text-sm">
+                    <span className="font-medium text-foreground">
+                      Location #{location.index + 1}
+                      <span className="text-xs text-muted-foreground font-normal ml-2">{location.distance_km.toFixed(1)} km away</span>
+                    </span>
+                    <span className="text-muted-foreground">
+                      <span className="font-semibold text-gray-700">{location.reason}:</span> {location.message}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Map Display */}
         {currentAnalysis && (
           <Card className="border-2 border-amber-400/50 bg-gradient-to-br from-amber-50 to-amber-100/50 mb-6">
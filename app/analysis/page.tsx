@@ -3,11 +3,16 @@
 import { useEffect, useState, useCallback, useRef } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
-import { Sprout, ArrowLeft, MapPin, Ruler, Droplets, TrendingUp, Brain, CheckCircle, Info } from 'lucide-react'
+import { Sprout, ArrowLeft, MapPin, Ruler, Droplets, TrendingUp, Brain, CheckCircle, Info, CloudRain, Download } from 'lucide-react'
 import { Card, CardContent } from '../components/ui/card'
 import dynamic from 'next/dynamic'
 import type { LatLngExpression } from 'leaflet'
 import L from 'leaflet'
+import type { AIAnalysisData, VegetationIndex } from '../types/analysis'
+import AccumulatedCard from '../components/AccumulatedCard'
+import CropSuitabilityCard from '../components/CropSuitabilityCard'
+import IrrigationCard from '../components/IrrigationCard'
+import AlertsCard from '../components/AlertsCard'
 
 // Dynamically import map component to avoid SSR issues
 const MapDisplay = dynamic(() => import('../components/AnalysisMap'), {
@@ -32,8 +37,24 @@ interface PolygonData {
   area: number
 }
 
+// Saved field as returned by GET /api/fields/:id
+interface FieldRecord {
+  id: string
+  name: string
+  geometry: {
+    type: 'Polygon'
+    coordinates: [number, number][][] // [lon, lat]
+  }
+  polyid: string | null
+  area: number | null
+  areaInSquareMeters: number | null
+  shapeType: string
+  locationName: string | null
+}
+
 interface SoilData {
-  // API returns flat structure: { dt: number, t0: number, t10: number, moisture: number }
+  // AgroMonitoring returns a flat structure: { dt: number, t0: number, t10: number, moisture: number }
+  // Deeper readings are kept as well - the backend parses every depth (backend/services/soil.js)
   dt?: number
   t0?: number | {
     depth?: number
@@ -65,43 +86,49 @@ interface PolygonHistoryData {
   [key: string]: any
 }
 
-interface AIAnalysisData {
-  Soil_Quality_Index: number
-  Fertility_Level: string
-  Summary: string
-  Field_Summary?: string
-  Current_Conditions: {
-    temperature: {
-      surface: string
-      depth_10cm: string
-      status: string
-    }
-    moisture: {
-      value: string
-      status: string
-    }
-    vegetation: {
-      ndvi_mean: string
-      ndvi_median: string
-      ndvi_min: string
-      ndvi_max: string
-      ndvi_std: string
-      status: string
-    }
+const INDEX_DESCRIPTIONS: { key: VegetationIndex; label: string; description: string }[] = [
+  { key: 'evi', label: 'EVI', description: 'Canopy vigour, stays sensitive in dense crops' },
+  { key: 'savi', label: 'SAVI', description: 'Vegetation corrected for bare soil' },
+  { key: 'ndwi', label: 'NDWI', description: 'Canopy water content, below 0 suggests stress' },
+]
+
+const formatArea = (areaInSquareMeters: number): string => {
+  if (areaInSquareMeters < 10000) {
+    return `${areaInSquareMeters.toFixed(2)} m²`
+  } else if (areaInSquareMeters < 1000000) {
+    return `${(areaInSquareMeters / 10000).toFixed(2)} hectares`
   }
-  Predicted_Yield_Quality: string
-  Predicted_Yield?: string
-  Predicted_Crops: string[]
-  Recommendations: string[]
-  AI_Confidence_Score: number
-  Predictions: {
-    ndvi_with_moisture_increase_10pct: string
-    current_ndvi: string
+  return `${(areaInSquareMeters / 1000000).toFixed(2)} km²`
+}
+
+// Rebuild the shape the map page would have stored from a saved field
+const shapeDataFromField = (field: FieldRecord): ShapeData => {
+  const ring = field.geometry.coordinates[0] || []
+  // Drop the closing point and convert [lon, lat] to LatLng-like objects
+  const points = ring.length > 1 && ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1]
+    ? ring.slice(0, -1)
+    : ring
+  const areaInSquareMeters = field.areaInSquareMeters || (field.area ? field.area * 10000 : 0)
+
+  return {
+    type: field.shapeType || 'Polygon',
+    coordinates: points.map(([lon, lat]) => ({ lat, lng: lon }) as L.LatLng),
+    area: formatArea(areaInSquareMeters),
+    areaInSquareMeters,
   }
-  Data_Timestamp: string
-  Analysis_Source?: string
 }
 
+// Convert shape coordinates (arrays or LatLng objects) to [lat, lon] pairs
+const toLatLonArray = (coords: LatLngExpression[]): [number, number][] =>
+  coords.map(coord => {
+    if (Array.isArray(coord)) {
+      return [coord[0], coord[1]] as [number, number]
+    } else if (coord && typeof coord === 'object' && 'lat' in coord && 'lng' in coord) {
+      return [(coord as L.LatLng).lat, (coord as L.LatLng).lng] as [number, number]
+    }
+    return null
+  }).filter(Boolean) as [number, number][]
+
 export default function AnalysisPage() {
   const router = useRouter()
   const [shapeData, setShapeData] = useState<ShapeData | null>(null)
@@ -115,8 +142,10 @@ export default function AnalysisPage() {
   const [apiError, setApiError] = useState<string | null>(null)
   const [isCreatingPolygon, setIsCreatingPolygon] = useState(false)
   const [locationName, setLocationName] = useState<string | null>(null)
+  const [fieldId, setFieldId] = useState<string | null>(null)
   const hasInitializedRef = useRef(false)
   const currentPolyidRef = useRef<string | null>(null)
+  const savedLocationNameRef = useRef<string | null>(null)
 
   // Fetch location name from coordinates using reverse geocoding
   const fetchLocationName = useCallback(async (coordinates: [number, number] | number[]) => {
@@ -296,8 +325,8 @@ export default function AnalysisPage() {
     }
   }, [])
 
-  // Create polygon and fetch API data
-  const createPolygonAndFetchData = useCallback(async (coords: LatLngExpression[]) => {
+  // Create polygon (registering it as a saved field) and fetch API data
+  const createPolygonAndFetchData = useCallback(async (shape: ShapeData, existingFieldId?: string) => {
     // Prevent duplicate calls
     if (isCreatingPolygon) {
       console.log('Polygon creation already in progress, skipping duplicate request')
@@ -310,7 +339,7 @@ export default function AnalysisPage() {
 
     try {
       // Convert coordinates to format expected by API
-      const coordsArray = coords.map((coord) => {
+      const coordsArray = shape.coordinates.map((coord) => {
         if (Array.isArray(coord)) {
           // Ensure it's [lat, lon] format
           return [coord[0], coord[1]]
@@ -329,14 +358,21 @@ export default function AnalysisPage() {
         throw new Error('Polygon must have at least 3 points')
       }
 
-      // Create polygon
+      // Create polygon - the backend also saves it as a field
       const createRes = await fetch('http://localhost:5000/api/soil/polygon', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ coordinates: coordsArray }),
+        body: JSON.stringify({
+          coordinates: coordsArray,
+          shapeType: shape.type,
+          areaInSquareMeters: shape.areaInSquareMeters,
+          fieldId: existingFieldId,
+        }),
       })
 
       let polygonId: string | null = null
+      let savedFieldId: string | null = null
+      let polygonCenter: [number, number] | null = null
 
       if (!createRes.ok) {
         const errorData = await createRes.json().catch(() => ({ error: 'Unknown error' }))
@@ -346,25 +382,28 @@ export default function AnalysisPage() {
         if (errorData.existingPolyid) {
           console.log('Using existing polygon ID:', errorData.existingPolyid)
           polygonId = errorData.existingPolyid
+          savedFieldId = errorData.fieldId || null
           const polygonResult: PolygonData = {
             polyid: errorData.existingPolyid,
             center: [0, 0],
             area: 0
           }
           setPolygonData(polygonResult)
-          localStorage.setItem('polyid', errorData.existingPolyid)
-          // Store coordinates hash for this polygon
-          const coordsHash = JSON.stringify(coordsArray.map(([lat, lon]) => 
-            [Math.round(lat * 1000000) / 1000000, Math.round(lon * 1000000) / 1000000]
-          ))
-          localStorage.setItem('coordsHash', coordsHash)
         } else {
           // Check for polygon creation limit error
           const errorMessage = errorData.message || errorData.error || ''
           if (errorMessage.includes('can not create polygons') || errorMessage.includes('polygon creation limit')) {
+            // Show how the quota is used so it is clear whether cleaning up would help
+            let usage = ''
+            const quotaRes = await fetch('http://localhost:5000/api/polygons/quota').catch(() => null)
+            if (quotaRes && quotaRes.ok) {
+              const quota = await quotaRes.json()
+              usage = `\nQuota used: ${quota.used.areaHectares} of ${quota.limits.areaHectares} ha across ${quota.used.count} polygons.\n`
+            }
             const limitError = `Your AgroMonitoring API key has reached its polygon creation limit. 
-
+${usage}
 Solutions:
+• Delete polygons you no longer use (GET /api/polygons lists them, POST /api/polygons/cleanup removes stale ones)
 • Check your account limits at agromonitoring.com
 • Wait for your daily/monthly limit to reset
 • Consider upgrading your AgroMonitoring plan
@@ -382,18 +421,19 @@ Note: The system will automatically reuse existing polygons when possible.`
         }
       } else {
         // Success - get the new polygon ID
-        const polygonResult: PolygonData = await createRes.json()
+        const polygonResult: PolygonData & { fieldId?: string | null; reused?: boolean } = await createRes.json()
         polygonId = polygonResult.polyid
+        savedFieldId = polygonResult.fieldId || null
+        polygonCenter = polygonResult.center
         setPolygonData(polygonResult)
         currentPolyidRef.current = polygonResult.polyid
-        // Store the new polyid for this polygon
-        localStorage.setItem('polyid', polygonResult.polyid)
-        // Store coordinates hash to detect if polygon changes in future
-        const coordsHash = JSON.stringify(coordsArray.map(([lat, lon]) => 
-          [Math.round(lat * 1000000) / 1000000, Math.round(lon * 1000000) / 1000000]
-        ))
-        localStorage.setItem('coordsHash', coordsHash)
-        console.log('New polygon created:', polygonResult.polyid, 'for coordinates:', coordsHash.substring(0, 50) + '...')
+        console.log(polygonResult.reused ? 'Reusing existing polygon:' : 'New polygon created:', polygonResult.polyid, 'saved as field:', savedFieldId)
+      }
+
+      // Put the field id in the URL so a refresh (or another machine) reloads it from the server
+      if (savedFieldId) {
+        setFieldId(savedFieldId)
+        router.replace(`/analysis?field=${savedFieldId}`, { scroll: false })
       }
 
       // Fetch soil and history data if we have a polygon ID
@@ -402,8 +442,8 @@ Note: The system will automatically reuse existing polygons when possible.`
       }
       
       // Fetch location name from coordinates if we have center coordinates
-      if (polygonData && polygonData.center && Array.isArray(polygonData.center) && polygonData.center.length === 2) {
-        fetchLocationName(polygonData.center)
+      if (polygonCenter && Array.isArray(polygonCenter) && polygonCenter.length === 2) {
+        fetchLocationName(polygonCenter)
       }
     } catch (error: any) {
       console.error('Error creating polygon or fetching data:', error)
@@ -418,7 +458,57 @@ Note: The system will automatically reuse existing polygons when possible.`
       setIsLoadingApi(false)
       setIsCreatingPolygon(false)
     }
-  }, [fetchSoilAndHistoryData, isCreatingPolygon, fetchLocationName])
+  }, [fetchSoilAndHistoryData, isCreatingPolygon, fetchLocationName, router])
+
+  // Load a saved field from the backend and fetch its data
+  const loadFieldAndFetchData = useCallback(async (id: string) => {
+    const fieldRes = await fetch(`http://localhost:5000/api/fields/${id}`)
+    if (!fieldRes.ok) {
+      const errorData = await fieldRes.json().catch(() => ({}))
+      throw new Error(errorData.message || `Failed to load field: ${fieldRes.status}`)
+    }
+
+    const field: FieldRecord = await fieldRes.json()
+    console.log('Loaded saved field:', field.id, field.name, 'polyid:', field.polyid)
+
+    const shape = shapeDataFromField(field)
+    setShapeData(shape)
+    setFieldId(field.id)
+    savedLocationNameRef.current = field.locationName
+    if (field.locationName) {
+      setLocationName(field.locationName)
+    }
+
+    // Field saved without a polygon yet - create one and attach it
+    if (!field.polyid) {
+      await createPolygonAndFetchData(shape, field.id)
+      return
+    }
+
+    // Calculate center from shape coordinates
+    const coordsArray = toLatLonArray(shape.coordinates)
+    const center: [number, number] = coordsArray.length > 0
+      ? [
+          coordsArray.reduce((sum, c) => sum + c[0], 0) / coordsArray.length,
+          coordsArray.reduce((sum, c) => sum + c[1], 0) / coordsArray.length,
+        ]
+      : [0, 0]
+
+    setPolygonData({ polyid: field.polyid, center, area: shape.areaInSquareMeters || 0 })
+    currentPolyidRef.current = field.polyid
+
+    if (!field.locationName && coordsArray.length > 0) {
+      fetchLocationName(center)
+    }
+
+    setIsLoadingApi(true)
+    setApiError(null)
+    try {
+      await fetchSoilAndHistoryData(field.polyid)
+    } finally {
+      setIsLoadingApi(false)
+    }
+  }, [createPolygonAndFetchData, fetchSoilAndHistoryData, fetchLocationName])
 
   useEffect(() => {
     // Prevent duplicate calls in React StrictMode
@@ -426,182 +516,34 @@ Note: The system will automatically reuse existing polygons when possible.`
       console.log('Skipping duplicate initialization (React StrictMode)')
       return
     }
-    
-    // Retrieve shape data from localStorage
+    hasInitializedRef.current = true
+
+    // A saved field in the URL takes precedence over a freshly drawn shape
+    const urlFieldId = new URLSearchParams(window.location.search).get('field')
+    if (urlFieldId) {
+      console.log('Initializing analysis page - saved field:', urlFieldId)
+      loadFieldAndFetchData(urlFieldId)
+        .catch((error) => {
+          console.error('Error loading saved field:', error)
+          router.push('/map')
+        })
+        .finally(() => setIsLoading(false))
+      return
+    }
+
+    // Otherwise use the shape handed over by the map page
     try {
       const storedData = localStorage.getItem('shapeData')
-      const storedPolyid = localStorage.getItem('polyid')
-      
-      console.log('Initializing analysis page - stored polyid:', storedPolyid)
 
       if (storedData) {
         const parsedData: ShapeData = JSON.parse(storedData)
         setShapeData(parsedData)
 
-        // Generate a hash/fingerprint of the coordinates to detect if polygon changed
-        const coordsHash = JSON.stringify(parsedData.coordinates.map(coord => {
-          if (Array.isArray(coord)) {
-            return [Math.round(coord[0] * 1000000) / 1000000, Math.round(coord[1] * 1000000) / 1000000]
-          } else if (coord && typeof coord === 'object' && 'lat' in coord && 'lng' in coord) {
-            return [Math.round((coord as L.LatLng).lat * 1000000) / 1000000, Math.round((coord as L.LatLng).lng * 1000000) / 1000000]
-          }
-          return coord
-        }))
-        
-        const storedCoordsHash = localStorage.getItem('coordsHash')
-        
-        // Only reuse polyid if coordinates haven't changed
-        if (storedPolyid && storedCoordsHash === coordsHash) {
-          console.log('Reusing existing polygon ID:', storedPolyid, 'for coordinates:', coordsHash.substring(0, 50) + '...')
-          setIsLoadingApi(true)
-          setApiError(null)
-          
-          // Clear any old data to show we're loading new data
-          setSoilData(null)
-          setPolygonHistoryData(null)
-
-          // Fetch soil data
-          fetch(`http://localhost:5000/api/soil/${storedPolyid}`)
-            .then((res) => {
-              if (res.ok) {
-                return res.json()
-              } else {
-                return res.json().then(err => {
-                  console.error('Error fetching soil data:', err)
-                  setApiError(prev => prev ? `${prev}; Soil: ${err.error || 'Failed'}` : `Soil: ${err.error || 'Failed'}`)
-                  return null
-                })
-              }
-            })
-            .then((data) => {
-              if (data) {
-                console.log('Soil data received for polygon', storedPolyid, ':', data)
-                setSoilData(data)
-              }
-            })
-            .catch((err) => {
-              console.error('Error fetching soil data:', err)
-              if (err.message?.includes('fetch') || err.message?.includes('network')) {
-                setApiError('Cannot connect to backend server. Make sure the backend is running on http://localhost:5000')
-              }
-            })
-
-          // Fetch polygon history data
-          fetch(`http://localhost:5000/api/soil/polygon/${storedPolyid}`)
-            .then((res) => {
-              if (res.ok) {
-                return res.json()
-              } else {
-                return res.json().then(err => {
-                  console.error('Error fetching NDVI history data:', err)
-                  return null
-                })
-              }
-            })
-            .then((data) => {
-              if (data) {
-                console.log('NDVI history data received for polygon', storedPolyid, ':', Array.isArray(data) ? data.length : 1, 'entries')
-                setPolygonHistoryData(Array.isArray(data) ? data : [data])
-              }
-            })
-            .catch((err) => {
-              console.error('Error fetching polygon history data:', err)
-              if (err.message?.includes('fetch') || err.message?.includes('network')) {
-                setApiError(prev => prev || 'Cannot connect to backend server. Make sure the backend is running on http://localhost:5000')
-              }
-            })
-            .finally(() => setIsLoadingApi(false))
-
-          // Fetch AI Analysis
-          setIsLoadingAI(true)
-          
-          // Prepare request body with NDVI data if we have it
-          const requestBody: any = {}
-          // Note: polygonHistoryData might not be available yet in this useEffect
-          // It will be fetched separately, and AI analysis will try to fetch NDVI itself
-          
-          const fetchOptions: RequestInit = Object.keys(requestBody).length > 0
-            ? {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify(requestBody)
-              }
-            : {}
-          
-          fetch(`http://localhost:5000/api/ai-analysis/${storedPolyid}`, fetchOptions)
-            .then((res) => {
-              if (res.ok) {
-                return res.json()
-              } else {
-                return res.json().then(err => {
-                  console.error('Error fetching AI analysis:', err)
-                  return null
-                })
-              }
-            })
-            .then((data) => {
-              if (data) {
-                console.log('✅ AI Analysis received for polygon', storedPolyid, ':', data)
-                console.log('NDVI in response:', data.Current_Conditions?.vegetation)
-                setAiAnalysisData(data)
-              }
-            })
-            .catch((err) => {
-              console.error('Error fetching AI analysis:', err)
-            })
-            .finally(() => setIsLoadingAI(false))
-
-          // Set polygon data from stored info if available
-          // Calculate center from shape coordinates
-          const coords = parsedData.coordinates as LatLngExpression[]
-          const coordsArray = coords.map(coord => {
-            if (Array.isArray(coord)) {
-              return [coord[0], coord[1]] as [number, number]
-            } else if (coord && typeof coord === 'object' && 'lat' in coord && 'lng' in coord) {
-              return [(coord as L.LatLng).lat, (coord as L.LatLng).lng] as [number, number]
-            }
-            return null
-          }).filter(Boolean) as [number, number][]
-          
-          if (coordsArray.length > 0) {
-            const center: [number, number] = [
-              coordsArray.reduce((sum, c) => sum + c[0], 0) / coordsArray.length,
-              coordsArray.reduce((sum, c) => sum + c[1], 0) / coordsArray.length,
-            ]
-            
-            setPolygonData({ 
-              polyid: storedPolyid, 
-              center: center, 
-              area: parsedData.areaInSquareMeters || 0 
-            })
-            
-            // Fetch location name from center coordinates
-            fetchLocationName(center)
-          } else {
-            setPolygonData({ polyid: storedPolyid, center: [0, 0], area: 0 })
-          }
-          
-          currentPolyidRef.current = storedPolyid
-          // Update coordinates hash to match current coordinates (in case it wasn't set before)
-          localStorage.setItem('coordsHash', coordsHash)
-          hasInitializedRef.current = true
-        } else {
-          // Coordinates changed or no polyid - create new polygon
-          console.log('Creating new polygon - coordinates changed or no existing polyid')
-          console.log('Current coordinates hash:', coordsHash.substring(0, 50) + '...')
-          console.log('Stored coordinates hash:', storedCoordsHash ? storedCoordsHash.substring(0, 50) + '...' : 'none')
-          
-          // Clear old data and polyid to ensure we create a new one
-          setSoilData(null)
-          setPolygonHistoryData(null)
-          currentPolyidRef.current = null
-          localStorage.removeItem('polyid')
-          // Store new coordinates hash for future comparison
-          localStorage.setItem('coordsHash', coordsHash)
-          // Create polygon and fetch data
-          hasInitializedRef.current = true
-          createPolygonAndFetchData(parsedData.coordinates)
-        }
+        // Clear old data and create a polygon (and field) for the new shape
+        setSoilData(null)
+        setPolygonHistoryData(null)
+        currentPolyidRef.current = null
+        createPolygonAndFetchData(parsedData)
       } else {
         // No data found, redirect back to map
         router.push('/map')
@@ -612,7 +554,21 @@ Note: The system will automatically reuse existing polygons when possible.`
     } finally {
       setIsLoading(false)
     }
-  }, [router, createPolygonAndFetchData, fetchLocationName])
+  }, [router, createPolygonAndFetchData, loadFieldAndFetchData])
+
+  // Remember the resolved location name on the saved field
+  useEffect(() => {
+    if (!fieldId || !locationName || savedLocationNameRef.current === locationName) return
+    savedLocationNameRef.current = locationName
+
+    fetch(`http://localhost:5000/api/fields/${fieldId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ locationName }),
+    }).catch((err) => {
+      console.error('Error saving location name:', err)
+    })
+  }, [fieldId, locationName])
 
   // Calculate dimensions for rectangle
   const calculateDimensions = () => {
@@ -883,31 +839,45 @@ Note: The system will automatically reuse existing polygons when possible.`
                       </p>
                     </div>
                   </div>
-                  {/* Button to view comparison areas */}
-                  {shapeData && polygonData && aiAnalysisData && (
-                    <button
-                      onClick={() => {
-                        // Store current analysis data for comparison page
-                        // AgroMonitoring API returns center as [lon, lat], but we need [lat, lng]
-                        const center = polygonData.center
-                        const centerLatLng: [number, number] = Array.isArray(center) && center.length === 2
-                          ? [center[1], center[0]] // Swap to [lat, lng] format
-                          : polygonData.center as [number, number] // Fallback if already correct
-                        
-                        localStorage.setItem('currentAnalysis', JSON.stringify({
-                          polyid: polygonData.polyid,
-                          score: aiAnalysisData.Soil_Quality_Index || 0,
-                          coordinates: shapeData.coordinates,
-                          center: centerLatLng
-                        }))
-                        router.push('/analysis/comparison')
-                      }}
-                      className="bg-gradient-to-r from-purple-500 to-purple-600 hover:from-purple-600 hover:to-purple-700 text-white font-semibold py-2 px-4 rounded-lg shadow-md border-2 border-purple-400/50 transition-all duration-200 hover:shadow-lg hover:scale-105 flex items-center gap-2"
-                    >
-                      <TrendingUp className="size-4" />
-                      Compare with Nearby Areas
-                    </button>
-                  )}
+                  <div className="flex items-center gap-2">
+                    {/* Button to view comparison areas */}
+                    {shapeData && polygonData && aiAnalysisData && (
+                      <button
+                        onClick={() => {
+                          // Store current analysis data for comparison page
+                          // AgroMonitoring API returns center as [lon, lat], but we need [lat, lng]
+                          const center = polygonData.center
+                          const centerLatLng: [number, number] = Array.isArray(center) && center.length === 2
+                            ? [center[1], center[0]] // Swap to [lat, lng] format
+                            : polygonData.center as [number, number] // Fallback if already correct
+                          
+                          localStorage.setItem('currentAnalysis', JSON.stringify({
+                            polyid: polygonData.polyid,
+                            fieldId,
+                            score: aiAnalysisData.Soil_Quality_Index || 0,
+                            coordinates: shapeData.coordinates,
+                            center: centerLatLng
+                          }))
+                          router.push('/analysis/comparison')
+                        }}
+                        className="bg-gradient-to-r from-purple-500 to-purple-600 hover:from-purple-600 hover:to-purple-700 text-white font-semibold py-2 px-4 rounded-lg shadow-md border-2 border-purple-400/50 transition-all duration-200 hover:shadow-lg hover:scale-105 flex items-center gap-2"
+                      >
+                        <TrendingUp className="size-4" />
+                        Compare with Nearby Areas
+                      </button>
+                    )}
+                    {/* Every stored analysis of the field, for spreadsheets */}
+                    {fieldId && (
+                      <a
+                        href={`http://localhost:5000/api/fields/${fieldId}/analyses/export`}
+                        download
+                        className="text-purple-700 hover:text-purple-900 font-semibold py-2 px-4 rounded-lg border-2 border-purple-300/50 bg-white/80 transition-colors flex items-center gap-2"
+                      >
+                        <Download className="size-4" />
+                        History CSV
+                      </a>
+                    )}
+                  </div>
                 </div>
 
                 {/* Score Display - Large and Prominent */}
@@ -1049,8 +1019,16 @@ Note: The system will automatically reuse existing polygons when possible.`
                   {/* Temperature */}
                   <div className="bg-white/90 backdrop-blur-sm border-2 border-blue-200/50 rounded-lg p-4">
                     <h4 className="text-sm font-medium text-muted-foreground mb-2">Temperature</h4>
-                    <p className="text-sm text-foreground">Surface: {aiAnalysisData.Current_Conditions.temperature.surface}</p>
-                    <p className="text-sm text-foreground">10cm: {aiAnalysisData.Current_Conditions.temperature.depth_10cm}</p>
+                    {aiAnalysisData.Current_Conditions.temperature.profile && aiAnalysisData.Current_Conditions.temperature.profile.length > 0 ? (
+                      aiAnalysisData.Current_Conditions.temperature.profile.map((reading) => (
+                        <p key={reading.label} className="text-sm text-foreground">{reading.label}: {reading.value}</p>
+                      ))
+                    ) : (
+                      <>
+                        <p className="text-sm text-foreground">Surface: {aiAnalysisData.Current_Conditions.temperature.surface}</p>
+                        <p className="text-sm text-foreground">10cm: {aiAnalysisData.Current_Conditions.temperature.depth_10cm}</p>
+                      </>
+                    )}
                     <p className={`text-xs font-medium mt-2 ${
                       aiAnalysisData.Current_Conditions.temperature.status === 'optimal' ? 'text-green-600' :
                       aiAnalysisData.Current_Conditions.temperature.status === 'cold' ? 'text-blue-600' : 'text-orange-600'
@@ -1063,6 +1041,16 @@ Note: The system will automatically reuse existing polygons when possible.`
                   <div className="bg-white/90 backdrop-blur-sm border-2 border-blue-200/50 rounded-lg p-4">
                     <h4 className="text-sm font-medium text-muted-foreground mb-2">Moisture</h4>
                     <p className="text-lg font-semibold text-foreground">{aiAnalysisData.Current_Conditions.moisture.value}</p>
+                    {/* Per-depth readings, when there is more than the one value above */}
+                    {aiAnalysisData.Current_Conditions.moisture.profile && aiAnalysisData.Current_Conditions.moisture.profile.length > 1 &&
+                      aiAnalysisData.Current_Conditions.moisture.profile.map((reading) => (
+                        <p key={reading.label} className="text-sm text-foreground">
+                          {reading.label}: {reading.value}{' '}
+                          <span className={`text-xs ${reading.status === 'sufficient' ? 'text-green-600' : reading.status === 'low' ? 'text-red-600' : 'text-yellow-600'}`}>
+                            ({reading.status})
+                          </span>
+                        </p>
+                      ))}
                     <p className={`text-xs font-medium mt-2 ${
                       aiAnalysisData.Current_Conditions.moisture.status === 'sufficient' ? 'text-green-600' :
                       aiAnalysisData.Current_Conditions.moisture.status === 'low' ? 'text-red-600' : 'text-yellow-600'
@@ -1085,17 +1073,108 @@ Note: The system will automatically reuse existing polygons when possible.`
                   </div>
                 </div>
 
+                {/* Other indices */}
+                {aiAnalysisData.Current_Conditions.indices && (
+                  <div className="bg-white/90 backdrop-blur-sm border-2 border-blue-200/50 rounded-lg p-4 mt-4">
+                    <h4 className="text-sm font-medium text-muted-foreground mb-3">Vegetation &amp; Water Indices</h4>
+                    <div className="grid gap-4 md:grid-cols-3">
+                      {INDEX_DESCRIPTIONS.map(({ key, label, description }) => {
+                        const summary = aiAnalysisData.Current_Conditions.indices![key]
+                        return (
+                          <div key={key}>
+                            <p className="text-sm font-semibold text-foreground">{label}</p>
+                            <p className="text-xs text-muted-foreground mb-1">{description}</p>
+                            <p className="text-sm text-foreground">Mean: {summary.mean}</p>
+                            <p className="text-sm text-foreground">Range: {summary.min} - {summary.max}</p>
+                            <p className="text-xs text-muted-foreground mt-1">
+                              {summary.scenes > 0 ? `${summary.scenes} scene${summary.scenes === 1 ? '' : 's'}` : 'Not available'}
+                            </p>
+                          </div>
+                        )
+                      })}
+                    </div>
+                  </div>
+                )}
+
+                {/* Weather */}
+                {aiAnalysisData.Current_Conditions.weather && (
+                  <div className="bg-white/90 backdrop-blur-sm border-2 border-blue-200/50 rounded-lg p-4 mt-4">
+                    <div className="flex items-center gap-2 mb-3">
+                      <CloudRain className="size-5 text-blue-600" />
+                      <h4 className="text-sm font-medium text-muted-foreground">Weather</h4>
+                    </div>
+                    <div className="grid gap-4 md:grid-cols-3">
+                      {aiAnalysisData.Current_Conditions.weather.current && (
+                        <div>
+                          <p className="text-lg font-semibold text-foreground">
+                            {aiAnalysisData.Current_Conditions.weather.current.temperature !== null
+                              ? `${aiAnalysisData.Current_Conditions.weather.current.temperature.toFixed(1)}°C`
+                              : 'N/A'}
+                          </p>
+                          <p className="text-sm text-foreground capitalize">
+                            {aiAnalysisData.Current_Conditions.weather.current.description || 'N/A'}
+                          </p>
+                          <p className="text-xs text-muted-foreground mt-1">
+                            Humidity {aiAnalysisData.Current_Conditions.weather.current.humidity ?? 'N/A'}% · Wind {aiAnalysisData.Current_Conditions.weather.current.wind_speed ?? 'N/A'} m/s
+                          </p>
+                        </div>
+                      )}
+                      {aiAnalysisData.Current_Conditions.weather.forecast && (
+                        <>
+                          <div>
+                            <p className="text-sm text-foreground">Rain next 24h: {aiAnalysisData.Current_Conditions.weather.forecast.rain_next_24h} mm</p>
+                            <p className="text-sm text-foreground">Rain next 48h: {aiAnalysisData.Current_Conditions.weather.forecast.rain_next_48h} mm</p>
+                            <p className="text-sm text-foreground">
+                              Next {aiAnalysisData.Current_Conditions.weather.forecast.days.length} days: {aiAnalysisData.Current_Conditions.weather.forecast.rain_total} mm
+                            </p>
+                          </div>
+                          <div className="space-y-1">
+                            {aiAnalysisData.Current_Conditions.weather.forecast.days.map((day) => (
+                              <div key={day.date} className="flex justify-between text-xs text-foreground">
+                                <span className="text-muted-foreground">
+                                  {new Date(`${day.date}T12:00:00Z`).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric' })}
+                                </span>
+                                <span>{day.temp_min}° / {day.temp_max}°C</span>
+                                <span className={day.rain > 0 ? 'text-blue-600 font-medium' : 'text-muted-foreground'}>{day.rain} mm</span>
+                              </div>
+                            ))}
+                          </div>
+                        </>
+                      )}
+                    </div>
+                    {!aiAnalysisData.Current_Conditions.weather.current && !aiAnalysisData.Current_Conditions.weather.forecast && (
+                      <p className="text-sm text-muted-foreground italic">Weather data not available</p>
+                    )}
+                  </div>
+                )}
+
                 {/* Data Timestamp */}
                 {aiAnalysisData.Data_Timestamp && aiAnalysisData.Data_Timestamp !== 'N/A' && (
                   <div className="text-xs text-muted-foreground text-center mt-4 pt-4 border-t border-blue-200">
                     Analysis based on data from: {new Date(aiAnalysisData.Data_Timestamp).toLocaleString()}
+                    {aiAnalysisData.Cache_Status &&
+                      ['hit', 'stale'].includes(aiAnalysisData.Cache_Status.soil) && (
+                        <span className="ml-1">(served from cache)</span>
+                      )}
                   </div>
                 )}
               </CardContent>
             </Card>
+
+            {/* Ranked catalogue crops */}
+            {aiAnalysisData.Crop_Suitability && <CropSuitabilityCard crops={aiAnalysisData.Crop_Suitability} conditions={aiAnalysisData.Crop_Conditions} />}
           </>
         )}
 
+        {/* Accumulated GDD / precipitation for saved fields */}
+        {fieldId && polygonData && <AccumulatedCard fieldId={fieldId} />}
+
+        {/* Irrigation calculator */}
+        {polygonData && <IrrigationCard polyid={polygonData.polyid} areaInSquareMeters={shapeData.areaInSquareMeters} />}
+
+        {/* Threshold alerts */}
+        {fieldId && <AlertsCard fieldId={fieldId} />}
+
         {/* Map Display Card */}
         <Card className="border-2 border-blue-400/50 bg-gradient-to-br from-blue-50 to-blue-100/50 mb-6">
           <CardContent className="p-6">
@@ -1113,6 +1192,7 @@ Note: The system will automatically reuse existing polygons when possible.`
                 coordinates={shapeData.coordinates}
                 center={centerPoint}
                 shapeType={shapeData.type}
+                polyid={polygonData?.polyid}
               />
             )}
           </CardContent>
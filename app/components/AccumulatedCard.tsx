@@ -0,0 +1,147 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Thermometer } from 'lucide-react'
+import { Card, CardContent } from './ui/card'
+import type { AccumulatedData } from '../types/accumulated'
+
+interface AccumulatedCardProps {
+  fieldId: string
+}
+
+const RANGES = [
+  { value: '30d', label: '30 days' },
+  { value: '90d', label: '90 days' },
+  { value: '6m', label: '6 months' },
+  { value: '1y', label: '1 year' },
+]
+
+const BASES = [0, 5, 10]
+
+// Growing degree days and precipitation accumulated over a window, with a small cumulative chart
+export default function AccumulatedCard({ fieldId }: AccumulatedCardProps) {
+  const [range, setRange] = useState('90d')
+  const [base, setBase] = useState(10)
+  const [data, setData] = useState<AccumulatedData | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    setIsLoading(true)
+    setError(null)
+
+    fetch(`http://localhost:5000/api/fields/${fieldId}/accumulated?range=${range}&base=${base}`)
+      .then(async (res) => {
+        const body = await res.json().catch(() => ({}))
+        if (!res.ok) throw new Error(body.message || body.error || `Request failed (${res.status})`)
+        return body as AccumulatedData
+      })
+      .then((result) => {
+        if (!cancelled) setData(result)
+      })
+      .catch((err: any) => {
+        console.error('Error fetching accumulated weather:', err)
+        if (!cancelled) setError(err.message)
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [fieldId, range, base])
+
+  // Cumulative curves scaled to their own maximum
+  const chart = (() => {
+    if (!data || data.days.length < 2) return null
+    const maxGdd = Math.max(data.totals.gdd, 1)
+    const maxRain = Math.max(data.totals.precipitation, 1)
+    const x = (i: number) => (i / (data.days.length - 1)) * 100
+    const line = (values: number[], max: number) =>
+      values.map((v, i) => `${x(i).toFixed(2)},${(40 - (v / max) * 38).toFixed(2)}`).join(' ')
+    return {
+      gdd: line(data.days.map((d) => d.cumulative_gdd), maxGdd),
+      rain: line(data.days.map((d) => d.cumulative_precipitation), maxRain),
+    }
+  })()
+
+  return (
+    <Card className="border-2 border-orange-300/50 bg-gradient-to-br from-orange-50 to-orange-100/50 mb-6">
+      <CardContent className="p-6">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <div className="flex items-center gap-3">
+            <div className="flex size-12 items-center justify-center rounded-xl bg-orange-500 border-2 border-orange-600/50 shadow-md">
+              <Thermometer className="size-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-orange-700">Growing Degree Days & Rainfall</h2>
+              <p className="text-sm text-muted-foreground">Accumulated from weather history</p>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <select
+              value={range}
+              onChange={(e) => setRange(e.target.value)}
+              className="rounded-lg border-2 border-orange-200 bg-white px-2 py-1 text-sm text-foreground"
+            >
+              {RANGES.map((r) => (
+                <option key={r.value} value={r.value}>Last {r.label}</option>
+              ))}
+            </select>
+            <select
+              value={base}
+              onChange={(e) => setBase(Number(e.target.value))}
+              className="rounded-lg border-2 border-orange-200 bg-white px-2 py-1 text-sm text-foreground"
+            >
+              {BASES.map((b) => (
+                <option key={b} value={b}>Base {b}°C</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {isLoading && !data && <p className="text-orange-700 font-semibold text-center">Loading weather history...</p>}
+        {error && <p className="text-sm text-red-600">Could not load weather history: {error}</p>}
+
+        {data && (
+          <div className="bg-white/90 backdrop-blur-sm border-2 border-orange-200/50 rounded-lg p-4">
+            <div className="grid gap-4 md:grid-cols-3 mb-4">
+              <div>
+                <p className="text-sm font-medium text-muted-foreground mb-1">Growing Degree Days</p>
+                <p className="text-2xl font-bold text-orange-600">{data.totals.gdd.toFixed(0)}</p>
+              </div>
+              <div>
+                <p className="text-sm font-medium text-muted-foreground mb-1">Precipitation</p>
+                <p className="text-2xl font-bold text-blue-600">{data.totals.precipitation.toFixed(1)} mm</p>
+              </div>
+              <div>
+                <p className="text-sm font-medium text-muted-foreground mb-1">Period</p>
+                <p className="text-sm text-foreground">
+                  {new Date(data.start * 1000).toLocaleDateString()} - {new Date(data.end * 1000).toLocaleDateString()}
+                </p>
+                {data.totals.missing_days > 0 && (
+                  <p className="text-xs text-yellow-700 mt-1">{data.totals.missing_days} day(s) without weather data</p>
+                )}
+              </div>
+            </div>
+
+            {chart && (
+              <>
+                <svg viewBox="0 0 100 40" preserveAspectRatio="none" className="w-full h-24">
+                  <polyline points={chart.gdd} fill="none" stroke="#ea580c" strokeWidth="1.5" vectorEffect="non-scaling-stroke" />
+                  <polyline points={chart.rain} fill="none" stroke="#2563eb" strokeWidth="1.5" vectorEffect="non-scaling-stroke" />
+                </svg>
+                <div className="flex justify-center gap-4 text-xs text-muted-foreground mt-2">
+                  <span className="text-orange-600">━ Cumulative GDD</span>
+                  <span className="text-blue-600">━ Cumulative precipitation</span>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,209 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Bell, Trash2 } from 'lucide-react'
+import { Card, CardContent } from './ui/card'
+import { Button } from './ui/button'
+import type { AlertMetric, AlertOperator, AlertRule, FieldAlert } from '../types/alerts'
+
+interface AlertsCardProps {
+  fieldId: string
+}
+
+const METRICS: { value: AlertMetric; label: string; unit: string }[] = [
+  { value: 'moisture', label: 'Soil moisture', unit: '%' },
+  { value: 't0', label: 'Surface temperature', unit: '°C' },
+  { value: 't10', label: '10 cm temperature', unit: '°C' },
+  { value: 't100', label: '100 cm temperature', unit: '°C' },
+  { value: 'ndvi', label: 'NDVI', unit: '' },
+  { value: 'ndvi_drop', label: 'NDVI drop', unit: '' },
+]
+
+const OPERATORS: AlertOperator[] = ['<', '<=', '>', '>=']
+
+const RECENT_ALERTS = 10
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init)
+  const body = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(body.message || body.error || `Request failed (${res.status})`)
+  return body as T
+}
+
+// Threshold rules on the field, checked whenever new soil or NDVI data is fetched
+export default function AlertsCard({ fieldId }: AlertsCardProps) {
+  const [rules, setRules] = useState<AlertRule[]>([])
+  const [alerts, setAlerts] = useState<FieldAlert[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [metric, setMetric] = useState<AlertMetric>('moisture')
+  const [operator, setOperator] = useState<AlertOperator>('<')
+  const [threshold, setThreshold] = useState('20')
+  const [windowDays, setWindowDays] = useState('14')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const base = `http://localhost:5000/api/fields/${fieldId}/alert-rules`
+
+  useEffect(() => {
+    let cancelled = false
+    Promise.all([
+      request<AlertRule[]>(base),
+      request<FieldAlert[]>(`http://localhost:5000/api/alerts?fieldId=${fieldId}&limit=${RECENT_ALERTS}`),
+    ])
+      .then(([loadedRules, loadedAlerts]) => {
+        if (cancelled) return
+        setRules(loadedRules)
+        setAlerts(loadedAlerts)
+      })
+      .catch((err: any) => {
+        console.error('Error loading alerts:', err)
+        if (!cancelled) setError(err.message)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [base, fieldId])
+
+  const addRule = async () => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      const rule = await request<AlertRule>(base, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          metric,
+          operator,
+          threshold: Number(threshold),
+          ...(metric === 'ndvi_drop' ? { windowDays: Number(windowDays) } : {}),
+        }),
+      })
+      setRules((current) => [...current, rule])
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const toggleRule = async (rule: AlertRule) => {
+    try {
+      const updated = await request<AlertRule>(`${base}/${rule.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled: !rule.enabled }),
+      })
+      setRules((current) => current.map((r) => (r.id === updated.id ? updated : r)))
+    } catch (err: any) {
+      setError(err.message)
+    }
+  }
+
+  const deleteRule = async (rule: AlertRule) => {
+    try {
+      await request(`${base}/${rule.id}`, { method: 'DELETE' })
+      setRules((current) => current.filter((r) => r.id !== rule.id))
+    } catch (err: any) {
+      setError(err.message)
+    }
+  }
+
+  const selectClassName = 'rounded-lg border-2 border-rose-200 bg-white px-2 py-1 text-sm text-foreground'
+  const unit = METRICS.find((m) => m.value === metric)?.unit
+
+  return (
+    <Card className="border-2 border-rose-300/50 bg-gradient-to-br from-rose-50 to-rose-100/50 mb-6">
+      <CardContent className="p-6">
+        <div className="flex items-center gap-3 mb-4">
+          <div className="flex size-12 items-center justify-center rounded-xl bg-rose-500 border-2 border-rose-600/50 shadow-md">
+            <Bell className="size-6 text-white" />
+          </div>
+          <div>
+            <h2 className="text-xl font-bold text-rose-700">Alerts</h2>
+            <p className="text-sm text-muted-foreground">Checked whenever new soil or satellite data comes in</p>
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="bg-white/90 backdrop-blur-sm border-2 border-rose-200/50 rounded-lg p-4">
+            <p className="text-sm font-semibold text-rose-700 mb-3">Rules</p>
+            {rules.length === 0 && <p className="text-sm text-muted-foreground mb-3">No rules on this field yet.</p>}
+            <ul className="space-y-2 mb-4">
+              {rules.map((rule) => (
+                <li key={rule.id} className="flex items-center justify-between gap-2 text-sm">
+                  <label className={`flex items-center gap-2 ${rule.enabled ? 'text-foreground' : 'text-muted-foreground line-through'}`}>
+                    <input type="checkbox" checked={rule.enabled} onChange={() => toggleRule(rule)} />
+                    {rule.description}
+                  </label>
+                  <button
+                    onClick={() => deleteRule(rule)}
+                    className="text-muted-foreground hover:text-red-600"
+                    aria-label={`Delete rule ${rule.description}`}
+                  >
+                    <Trash2 className="size-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <div className="flex flex-wrap items-center gap-2 border-t border-rose-200 pt-3">
+              <select value={metric} onChange={(e) => setMetric(e.target.value as AlertMetric)} className={selectClassName}>
+                {METRICS.map((m) => (
+                  <option key={m.value} value={m.value}>{m.label}</option>
+                ))}
+              </select>
+              <select value={operator} onChange={(e) => setOperator(e.target.value as AlertOperator)} className={selectClassName}>
+                {OPERATORS.map((op) => (
+                  <option key={op} value={op}>{op}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                step="any"
+                value={threshold}
+                onChange={(e) => setThreshold(e.target.value)}
+                className={`${selectClassName} w-20`}
+              />
+              {unit && <span className="text-sm text-muted-foreground">{unit}</span>}
+              {metric === 'ndvi_drop' && (
+                <>
+                  <span className="text-sm text-muted-foreground">in</span>
+                  <input
+                    type="number"
+                    min={1}
+                    value={windowDays}
+                    onChange={(e) => setWindowDays(e.target.value)}
+                    className={`${selectClassName} w-16`}
+                  />
+                  <span className="text-sm text-muted-foreground">days</span>
+                </>
+              )}
+              <Button size="sm" onClick={addRule} disabled={isSaving || threshold === ''}>
+                Add rule
+              </Button>
+            </div>
+          </div>
+
+          <div className="bg-white/90 backdrop-blur-sm border-2 border-rose-200/50 rounded-lg p-4">
+            <p className="text-sm font-semibold text-rose-700 mb-3">Recent alerts</p>
+            {alerts.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nothing triggered yet.</p>
+            ) : (
+              <ul className="space-y-2">
+                {alerts.map((alert) => (
+                  <li key={alert.id} className="text-sm">
+                    <p className="font-medium text-foreground">{alert.message}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Data from {new Date(alert.observedAt).toLocaleString()}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
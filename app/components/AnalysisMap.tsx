@@ -1,9 +1,10 @@
 'use client'
 
-import { useEffect } from 'react'
-import { MapContainer, TileLayer, useMap, Polygon, Rectangle, Marker, Popup } from 'react-leaflet'
+import { useEffect, useMemo, useState } from 'react'
+import { MapContainer, TileLayer, useMap, Polygon, Rectangle, Marker, Popup, ImageOverlay } from 'react-leaflet'
 import L from 'leaflet'
 import type { LatLngExpression } from 'leaflet'
+import type { ImageLayer, Scene, SceneSearchResult } from '../types/imagery'
 
 interface ComparisonArea {
   center: [number, number]
@@ -17,6 +18,77 @@ interface AnalysisMapProps {
   center: LatLngExpression
   shapeType?: string
   comparisonAreas?: ComparisonArea[]
+  // Enables the satellite layer toggle for this polygon
+  polyid?: string
+}
+
+const LAYER_LABELS: Record<'outline' | ImageLayer, string> = {
+  outline: 'Outline',
+  ndvi: 'NDVI',
+  truecolor: 'True color',
+}
+
+// Most recent scene with little cloud, otherwise the most recent one (scenes come newest first)
+const pickDefaultScene = (scenes: Scene[]): Scene | null =>
+  scenes.find(scene => scene.cloud_cover !== null && scene.cloud_cover <= 30) || scenes[0] || null
+
+/**
+ * Load a scene image and clip it to the field polygon on a canvas
+ * The image covers the polygon's bounding box, so lat/lng map linearly onto its pixels
+ */
+function useClippedImage(url: string | null, ring: L.LatLng[]) {
+  const [clipped, setClipped] = useState<{ src: string; bounds: L.LatLngBounds } | null>(null)
+  // Copy of the ring that only changes with its coordinates, not with the array or LatLng identities
+  const ringKey = ring.map(p => `${p.lat},${p.lng}`).join(';')
+  const points = useMemo(
+    () => (ringKey ? ringKey.split(';').map(pair => {
+      const [lat, lng] = pair.split(',').map(Number)
+      return L.latLng(lat, lng)
+    }) : []),
+    [ringKey]
+  )
+
+  useEffect(() => {
+    setClipped(null)
+    if (!url || points.length < 3) return
+
+    let cancelled = false
+    const bounds = L.latLngBounds(points)
+    const image = new Image()
+    image.crossOrigin = 'anonymous'
+    image.onload = () => {
+      if (cancelled) return
+      const canvas = document.createElement('canvas')
+      canvas.width = image.naturalWidth
+      canvas.height = image.naturalHeight
+      const ctx = canvas.getContext('2d')
+      if (!ctx) return
+
+      const west = bounds.getWest()
+      const north = bounds.getNorth()
+      const lngSpan = bounds.getEast() - west || 1
+      const latSpan = north - bounds.getSouth() || 1
+      ctx.beginPath()
+      points.forEach((point, index) => {
+        const x = ((point.lng - west) / lngSpan) * canvas.width
+        const y = ((north - point.lat) / latSpan) * canvas.height
+        if (index === 0) ctx.moveTo(x, y)
+        else ctx.lineTo(x, y)
+      })
+      ctx.closePath()
+      ctx.clip()
+      ctx.drawImage(image, 0, 0)
+      setClipped({ src: canvas.toDataURL('image/png'), bounds })
+    }
+    image.onerror = () => console.error('Could not load satellite image:', url)
+    image.src = url
+
+    return () => {
+      cancelled = true
+    }
+  }, [url, points])
+
+  return clipped
 }
 
 // Component to handle map view
@@ -81,7 +153,12 @@ function MapView({
   return null
 }
 
-export default function AnalysisMap({ coordinates, center, shapeType = 'Polygon', comparisonAreas }: AnalysisMapProps) {
+export default function AnalysisMap({ coordinates, center, shapeType = 'Polygon', comparisonAreas, polyid }: AnalysisMapProps) {
+  const [scenes, setScenes] = useState<Scene[]>([])
+  const [sceneId, setSceneId] = useState<string | null>(null)
+  const [layer, setLayer] = useState<'outline' | ImageLayer>('outline')
+  const [imageryError, setImageryError] = useState<string | null>(null)
+
   // Convert coordinates to proper format
   const latlngs = coordinates.map(coord => {
     if (Array.isArray(coord)) {
@@ -90,6 +167,37 @@ export default function AnalysisMap({ coordinates, center, shapeType = 'Polygon'
     return coord as L.LatLng
   })
 
+  // Scenes of the last 90 days for the satellite layer toggle
+  useEffect(() => {
+    if (!polyid) return
+    let cancelled = false
+
+    fetch(`http://localhost:5000/api/imagery/${polyid}?range=90d`)
+      .then(async (res) => {
+        const body = await res.json().catch(() => ({}))
+        if (!res.ok) throw new Error(body.message || body.error || `Request failed (${res.status})`)
+        return body as SceneSearchResult
+      })
+      .then((result) => {
+        if (cancelled) return
+        setScenes(result.scenes)
+        setSceneId(pickDefaultScene(result.scenes)?.id || null)
+      })
+      .catch((err: any) => {
+        console.error('Error searching satellite imagery:', err)
+        if (!cancelled) setImageryError(err.message)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [polyid])
+
+  const selectedScene = scenes.find(scene => scene.id === sceneId) || null
+  const imageUrl = layer !== 'outline' && selectedScene ? selectedScene.layers[layer] || null : null
+  const clippedImage = useClippedImage(imageUrl, latlngs)
+  const fieldFillOpacity = clippedImage ? 0 : 0.3
+
   // Get center as LatLng
   const centerLatLng = Array.isArray(center) ? L.latLng(center[0], center[1]) : center as L.LatLng
 
@@ -143,6 +251,11 @@ export default function AnalysisMap({ coordinates, center, shapeType = 'Polygon'
         
         <MapView center={centerLatLng} coordinates={coordinates} comparisonAreas={comparisonAreas} />
 
+        {/* Satellite scene, clipped to the field */}
+        {clippedImage && (
+          <ImageOverlay url={clippedImage.src} bounds={clippedImage.bounds} opacity={0.9} />
+        )}
+
         {/* Render current area shape */}
         {shapeType === 'Rectangle' && rectangleBounds ? (
           <Rectangle
@@ -150,7 +263,7 @@ export default function AnalysisMap({ coordinates, center, shapeType = 'Polygon'
             pathOptions={{
               color: '#166534',
               fillColor: '#166534',
-              fillOpacity: 0.3,
+              fillOpacity: fieldFillOpacity,
               weight: 3,
             }}
           />
@@ -160,7 +273,7 @@ export default function AnalysisMap({ coordinates, center, shapeType = 'Polygon'
             pathOptions={{
               color: '#166534',
               fillColor: '#166534',
-              fillOpacity: 0.3,
+              fillOpacity: fieldFillOpacity,
               weight: 3,
             }}
           />
@@ -240,6 +353,48 @@ export default function AnalysisMap({ coordinates, center, shapeType = 'Polygon'
           )
         })}
       </MapContainer>
+
+      {/* Satellite layer toggle */}
+      {polyid && (
+        <div className="absolute top-3 right-3 z-[1000] bg-white/95 backdrop-blur-sm border-2 border-amber-200/50 rounded-lg shadow-md p-3 space-y-2 max-w-[16rem]">
+          <div className="flex gap-1">
+            {(Object.keys(LAYER_LABELS) as Array<'outline' | ImageLayer>).map(option => (
+              <button
+                key={option}
+                onClick={() => setLayer(option)}
+                disabled={option !== 'outline' && !selectedScene?.layers[option]}
+                className={`px-2 py-1 rounded text-xs font-semibold border transition-colors disabled:opacity-40 ${
+                  layer === option
+                    ? 'bg-success text-white border-success'
+                    : 'bg-white text-foreground border-amber-200 hover:border-success'
+                }`}
+              >
+                {LAYER_LABELS[option]}
+              </button>
+            ))}
+          </div>
+          {scenes.length > 0 ? (
+            <select
+              value={sceneId || ''}
+              onChange={(e) => setSceneId(e.target.value)}
+              className="w-full rounded border border-amber-200 bg-white px-2 py-1 text-xs text-foreground"
+            >
+              {scenes.map(scene => (
+                <option key={scene.id} value={scene.id}>
+                  {new Date(scene.date).toLocaleDateString()} · {scene.cloud_cover !== null ? `${scene.cloud_cover.toFixed(0)}% cloud` : 'cloud n/a'}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              {imageryError ? `Imagery unavailable: ${imageryError}` : 'No satellite scenes in the last 90 days'}
+            </p>
+          )}
+          {layer !== 'outline' && imageUrl && !clippedImage && (
+            <p className="text-xs text-muted-foreground">Loading image...</p>
+          )}
+        </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,92 @@
+'use client'
+
+import { Wheat } from 'lucide-react'
+import { Card, CardContent } from './ui/card'
+import type { CropConditions, CropFactor, CropFactorName, CropSuitability } from '../types/crops'
+
+interface CropSuitabilityCardProps {
+  crops: CropSuitability[]
+  // What the crops were scored on (missing in older analyses)
+  conditions?: CropConditions
+}
+
+const FACTOR_COLUMNS: { key: CropFactorName; label: string; unit: string; description: string }[] = [
+  { key: 'temperature', label: 'Soil temp.', unit: '°C', description: 'Soil temperature at 10 cm (surface without it)' },
+  { key: 'moisture', label: 'Moisture', unit: '%', description: 'Shallowest soil moisture reading' },
+  { key: 'ndvi', label: 'Peak NDVI', unit: '', description: 'Highest scene mean of the period - not the mean NDVI' },
+]
+
+const scoreColor = (score: number | null) =>
+  score === null ? 'text-muted-foreground' : score >= 70 ? 'text-green-600' : score >= 45 ? 'text-yellow-600' : 'text-red-600'
+
+// Field value with its factor score, e.g. "8.3°C · 100"
+const formatFactor = (factor: CropFactor, unit: string) =>
+  factor.value === null || factor.score === null ? 'N/A' : `${factor.value}${unit} · ${factor.score}`
+
+// Catalogue crops ranked by how well the field's soil and NDVI fit them
+export default function CropSuitabilityCard({ crops, conditions }: CropSuitabilityCardProps) {
+  if (crops.length === 0) return null
+
+  return (
+    <Card className="border-2 border-green-400/50 bg-gradient-to-br from-green-50 to-green-100/50 mb-6">
+      <CardContent className="p-6">
+        <div className="flex items-center gap-2 mb-4">
+          <Wheat className="size-5 text-green-700" />
+          <h3 className="text-lg font-semibold text-foreground">Crop Suitability</h3>
+        </div>
+
+        <div className="overflow-x-auto bg-white/90 backdrop-blur-sm border-2 border-green-200/50 rounded-lg">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-muted-foreground border-b border-green-200">
+                <th className="px-3 py-2 font-medium">#</th>
+                <th className="px-3 py-2 font-medium">Crop</th>
+                <th className="px-3 py-2 font-medium">Score</th>
+                {FACTOR_COLUMNS.map((column) => (
+                  <th key={column.key} className="px-3 py-2 font-medium" title={column.description}>{column.label}</th>
+                ))}
+                <th className="px-3 py-2 font-medium">Limiting factors</th>
+              </tr>
+            </thead>
+            <tbody>
+              {crops.map((crop, index) => (
+                <tr key={crop.crop} className="border-b border-green-100 last:border-0 align-top">
+                  <td className="px-3 py-2 text-muted-foreground">{index + 1}</td>
+                  <td className="px-3 py-2 font-medium text-foreground capitalize">{crop.crop}</td>
+                  <td className={`px-3 py-2 font-semibold ${scoreColor(crop.score)}`}>
+                    {crop.score ?? 'N/A'}
+                    <span className="ml-1 text-xs font-normal text-muted-foreground">{crop.level}</span>
+                  </td>
+                  {FACTOR_COLUMNS.map((column) => {
+                    const factor = crop.factors[column.key]
+                    return (
+                      <td
+                        key={column.key}
+                        className={`px-3 py-2 ${scoreColor(factor.score)}`}
+                        title={`Needs ${factor.range[0]}-${factor.range[1]}${column.unit}`}
+                      >
+                        {formatFactor(factor, column.unit)}
+                      </td>
+                    )
+                  })}
+                  <td className="px-3 py-2 text-xs text-muted-foreground">
+                    {crop.limiting_factors.length > 0 ? crop.limiting_factors.join('; ') : 'None'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-muted-foreground mt-3">
+          Scores are 0-100 per factor and overall (temperature and moisture 40% each, NDVI 20%). Hover a factor for the range the crop needs.
+        </p>
+        {conditions && conditions.ndvi !== null && (
+          <p className="text-xs text-muted-foreground mt-1">
+            Crops are scored on peak NDVI {conditions.ndvi.toFixed(4)} (the highest scene mean of the period), because crop ranges describe a stand at its peak
+            {conditions.ndvi_mean !== undefined && conditions.ndvi_mean !== null && ` - the mean NDVI over the same scenes is ${conditions.ndvi_mean.toFixed(4)}`}.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
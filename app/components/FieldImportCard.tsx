@@ -0,0 +1,145 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { Upload } from 'lucide-react'
+import { Card, CardContent } from './ui/card'
+import type { FieldImportResponse, ImportResult } from '../types/fieldImport'
+
+const ACCEPT = '.geojson,.json,.kml,.kmz,.zip'
+
+const STATUS_STYLES: Record<ImportResult['status'], { label: string; className: string }> = {
+  created: { label: 'Imported', className: 'text-green-600' },
+  valid: { label: 'Ready', className: 'text-green-600' },
+  duplicate: { label: 'Already saved', className: 'text-yellow-600' },
+  invalid: { label: 'Skipped', className: 'text-red-600' },
+}
+
+async function uploadBoundaries(file: File, dryRun: boolean, nameProperty: string): Promise<FieldImportResponse> {
+  const params = new URLSearchParams({ filename: file.name, dryRun: String(dryRun) })
+  if (nameProperty.trim()) params.set('nameProperty', nameProperty.trim())
+
+  const res = await fetch(`http://localhost:5000/api/fields/import?${params}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/octet-stream' },
+    body: file,
+  })
+  const body = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(body.message || body.error || `Request failed (${res.status})`)
+  return body as FieldImportResponse
+}
+
+// Upload field boundaries exported from farm software: preview the polygons, then save them as fields
+export default function FieldImportCard() {
+  const [file, setFile] = useState<File | null>(null)
+  const [nameProperty, setNameProperty] = useState('')
+  const [data, setData] = useState<FieldImportResponse | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const run = async (selected: File, dryRun: boolean) => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      setData(await uploadBoundaries(selected, dryRun, nameProperty))
+    } catch (err: any) {
+      console.error('Error importing fields:', err)
+      setError(err.message)
+      setData(null)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const onFileChange = (selected: File | null) => {
+    setFile(selected)
+    setData(null)
+    if (selected) run(selected, true)
+  }
+
+  return (
+    <Card className="border-2 border-success/30 bg-card mb-6">
+      <CardContent className="p-6">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <div className="flex items-center gap-3">
+            <div className="flex size-12 items-center justify-center rounded-xl bg-success border-2 border-success/50 shadow-md">
+              <Upload className="size-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-foreground">Import Field Boundaries</h2>
+              <p className="text-sm text-muted-foreground">GeoJSON, KML/KMZ or a zipped shapefile (.shp, .dbf, .prj)</p>
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              value={nameProperty}
+              onChange={(e) => setNameProperty(e.target.value)}
+              placeholder="Name property (optional)"
+              className="rounded-lg border-2 border-border bg-white px-2 py-1 text-sm text-foreground"
+            />
+            <label className="px-4 py-2 bg-success hover:bg-success/90 text-white text-sm font-semibold rounded-lg shadow-md cursor-pointer transition-colors">
+              Choose file
+              <input
+                type="file"
+                accept={ACCEPT}
+                className="hidden"
+                onChange={(e) => onFileChange(e.target.files?.[0] ?? null)}
+              />
+            </label>
+          </div>
+        </div>
+
+        {isLoading && <p className="text-success font-semibold text-center">Reading {file?.name}...</p>}
+        {error && <p className="text-sm text-red-600">Could not import {file?.name}: {error}</p>}
+
+        {data && !isLoading && (
+          <div className="bg-white/90 border-2 border-border rounded-lg p-4">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+              <p className="text-sm text-muted-foreground">
+                {file?.name} · {data.format} · {data.crs} · {data.dryRun ? `${data.valid} ready` : `${data.created} imported`}
+                {data.duplicates > 0 && `, ${data.duplicates} already saved`}
+                {data.invalid > 0 && `, ${data.invalid} skipped`}
+              </p>
+              {data.dryRun && file && data.valid > 0 && (
+                <button
+                  onClick={() => run(file, false)}
+                  className="px-4 py-2 bg-success hover:bg-success/90 text-white text-sm font-semibold rounded-lg shadow-md transition-colors"
+                >
+                  Import {data.valid} field{data.valid === 1 ? '' : 's'}
+                </button>
+              )}
+            </div>
+
+            <ul className="divide-y divide-border max-h-80 overflow-y-auto">
+              {data.results.map((result) => (
+                <li key={`${result.layer ?? ''}-${result.feature}-${result.part ?? 0}`} className="py-2 text-sm">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <span className="font-medium text-foreground">
+                      {result.name}
+                      {result.areaInSquareMeters !== undefined && (
+                        <span className="text-muted-foreground font-normal"> · {(result.areaInSquareMeters / 10000).toFixed(2)} ha</span>
+                      )}
+                    </span>
+                    <span className="flex items-center gap-3">
+                      <span className={`font-semibold ${STATUS_STYLES[result.status].className}`}>{STATUS_STYLES[result.status].label}</span>
+                      {result.fieldId && (
+                        <Link href={`/analysis?field=${result.fieldId}`} className="text-success hover:underline">
+                          Analyze
+                        </Link>
+                      )}
+                    </span>
+                  </div>
+                  {result.message && <p className="text-xs text-muted-foreground">{result.message}</p>}
+                  {result.warnings?.map((warning) => (
+                    <p key={warning} className="text-xs text-yellow-700">{warning}</p>
+                  ))}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -95,9 +95,7 @@ function ViewAnalysisButton({ shapeData }: ViewAnalysisButtonProps) {
 
   const handleViewAnalysis = () => {
     try {
-      // Clear old polygon ID when a new shape is drawn
-      // This ensures we create a new polygon instead of reusing the old one
-      localStorage.removeItem('polyid');
+      // Hand the new shape to the analysis page, which saves it as a field on the backend
       localStorage.setItem('shapeData', JSON.stringify(shapeData));
       router.push('/analysis');
     } catch (error) {
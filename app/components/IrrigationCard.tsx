@@ -0,0 +1,163 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Droplets } from 'lucide-react'
+import { Card, CardContent } from './ui/card'
+import type { IrrigationResult, SoilTexture } from '../types/irrigation'
+
+interface IrrigationCardProps {
+  polyid: string
+  // Drawn area; the backend falls back to the polygon's area without it
+  areaInSquareMeters?: number
+}
+
+const TEXTURES: { value: SoilTexture; label: string }[] = [
+  { value: 'sand', label: 'Sand' },
+  { value: 'loamy_sand', label: 'Loamy sand' },
+  { value: 'sandy_loam', label: 'Sandy loam' },
+  { value: 'loam', label: 'Loam' },
+  { value: 'silt_loam', label: 'Silt loam' },
+  { value: 'silty_clay_loam', label: 'Silty clay loam' },
+  { value: 'clay', label: 'Clay' },
+]
+
+const ROOT_DEPTHS = [15, 30, 60, 100]
+
+const METHODS = [
+  { value: 0.9, label: 'Drip (90%)' },
+  { value: 0.75, label: 'Sprinkler (75%)' },
+  { value: 0.6, label: 'Surface (60%)' },
+]
+
+const STATUS_COLORS: Record<IrrigationResult['status'], string> = {
+  none: 'text-green-600',
+  rain_expected: 'text-blue-600',
+  not_yet: 'text-yellow-600',
+  irrigate: 'text-red-600',
+}
+
+// Root-zone water deficit and how much to irrigate, for a chosen soil texture
+export default function IrrigationCard({ polyid, areaInSquareMeters }: IrrigationCardProps) {
+  const [texture, setTexture] = useState<SoilTexture>('loam')
+  const [rootDepth, setRootDepth] = useState(30)
+  const [efficiency, setEfficiency] = useState(0.75)
+  const [data, setData] = useState<IrrigationResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    setIsLoading(true)
+    setError(null)
+
+    const params = new URLSearchParams({ texture, rootDepth: String(rootDepth), efficiency: String(efficiency) })
+    if (areaInSquareMeters) params.set('area', String(areaInSquareMeters))
+
+    fetch(`http://localhost:5000/api/irrigation/${polyid}?${params}`)
+      .then(async (res) => {
+        const body = await res.json().catch(() => ({}))
+        if (!res.ok) throw new Error(body.message || body.error || `Request failed (${res.status})`)
+        return body as IrrigationResult
+      })
+      .then((result) => {
+        if (!cancelled) setData(result)
+      })
+      .catch((err: any) => {
+        console.error('Error calculating irrigation:', err)
+        if (!cancelled) setError(err.message)
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [polyid, areaInSquareMeters, texture, rootDepth, efficiency])
+
+  const selectClassName = 'rounded-lg border-2 border-sky-200 bg-white px-2 py-1 text-sm text-foreground'
+
+  return (
+    <Card className="border-2 border-sky-300/50 bg-gradient-to-br from-sky-50 to-sky-100/50 mb-6">
+      <CardContent className="p-6">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <div className="flex items-center gap-3">
+            <div className="flex size-12 items-center justify-center rounded-xl bg-sky-500 border-2 border-sky-600/50 shadow-md">
+              <Droplets className="size-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-sky-700">Irrigation Requirement</h2>
+              <p className="text-sm text-muted-foreground">Water needed to refill the root zone</p>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <select value={texture} onChange={(e) => setTexture(e.target.value as SoilTexture)} className={selectClassName}>
+              {TEXTURES.map((t) => (
+                <option key={t.value} value={t.value}>{t.label}</option>
+              ))}
+            </select>
+            <select value={rootDepth} onChange={(e) => setRootDepth(Number(e.target.value))} className={selectClassName}>
+              {ROOT_DEPTHS.map((d) => (
+                <option key={d} value={d}>Roots {d} cm</option>
+              ))}
+            </select>
+            <select value={efficiency} onChange={(e) => setEfficiency(Number(e.target.value))} className={selectClassName}>
+              {METHODS.map((m) => (
+                <option key={m.value} value={m.value}>{m.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {isLoading && !data && <p className="text-sky-700 font-semibold text-center">Calculating...</p>}
+        {error && <p className="text-sm text-red-600">Could not calculate irrigation: {error}</p>}
+
+        {data && (
+          <div className="bg-white/90 backdrop-blur-sm border-2 border-sky-200/50 rounded-lg p-4">
+            <p className={`text-sm font-semibold mb-4 ${STATUS_COLORS[data.status]}`}>{data.recommendation}</p>
+
+            <div className="grid gap-4 md:grid-cols-4 mb-4">
+              <div>
+                <p className="text-sm font-medium text-muted-foreground mb-1">Soil water deficit</p>
+                <p className="text-2xl font-bold text-sky-700">{data.deficit_mm} mm</p>
+                <p className="text-xs text-muted-foreground">
+                  {data.moisture}% now, field capacity {data.soil.field_capacity}% · {data.depletion_pct}% of available water used
+                </p>
+              </div>
+              <div>
+                <p className="text-sm font-medium text-muted-foreground mb-1">Forecast rain (48 h)</p>
+                <p className="text-2xl font-bold text-blue-600">
+                  {data.rain_forecast_mm !== null ? `${data.rain_forecast_mm} mm` : 'N/A'}
+                </p>
+                <p className="text-xs text-muted-foreground">{data.effective_rain_mm} mm counted</p>
+              </div>
+              <div>
+                <p className="text-sm font-medium text-muted-foreground mb-1">To apply</p>
+                <p className="text-2xl font-bold text-foreground">{data.gross_mm} mm</p>
+                <p className="text-xs text-muted-foreground">{data.litres_per_hectare.toLocaleString()} L/ha (net {data.net_mm} mm)</p>
+              </div>
+              <div>
+                <p className="text-sm font-medium text-muted-foreground mb-1">Whole field</p>
+                <p className="text-2xl font-bold text-foreground">
+                  {data.total_litres !== null ? `${(data.total_litres / 1000).toLocaleString(undefined, { maximumFractionDigits: 1 })} m³` : 'N/A'}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {data.area_ha !== null ? `${data.area_ha} ha` : 'Area unknown'}
+                </p>
+              </div>
+            </div>
+
+            <div className="border-t border-sky-200 pt-3">
+              <p className="text-xs font-semibold text-muted-foreground mb-1">Assumptions</p>
+              <ul className="list-disc list-inside space-y-0.5">
+                {data.assumptions.map((assumption) => (
+                  <li key={assumption} className="text-xs text-muted-foreground">{assumption}</li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
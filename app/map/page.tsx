@@ -4,7 +4,8 @@ import Link from "next/link";
 import { useEffect, useState } from "react";
 import type { LatLngExpression } from "leaflet";
 import { useRouter } from "next/navigation";
-import { Sprout, ArrowLeft, MapPin } from 'lucide-react';
+import { Sprout, ArrowLeft, MapPin, Download } from 'lucide-react';
+import FieldImportCard from "../components/FieldImportCard";
 
 const InteractiveMap = dynamic(() => import("../components/InteractiveMap"), {
   ssr: false,
@@ -106,10 +107,30 @@ export default function MapPage() {
               </h1>
             </div>
             <p className="text-lg text-muted-foreground">
-              Draw a polygon or rectangle to analyze soil quality and get coordinates
+              Draw a polygon or rectangle to analyze soil quality and get coordinates, or import existing field boundaries
             </p>
+            <div className="mt-3 flex items-center justify-center gap-4 text-sm">
+              <span className="text-muted-foreground">Export saved fields with their latest analysis:</span>
+              <a
+                href="http://localhost:5000/api/fields/export?format=geojson"
+                download
+                className="inline-flex items-center gap-1 text-success hover:underline font-medium"
+              >
+                <Download className="size-4" />
+                GeoJSON
+              </a>
+              <a
+                href="http://localhost:5000/api/fields/export?format=csv"
+                download
+                className="inline-flex items-center gap-1 text-success hover:underline font-medium"
+              >
+                <Download className="size-4" />
+                CSV
+              </a>
+            </div>
           </div>
         </div>
+        <FieldImportCard />
         <InteractiveMap
           coordinates={coordinates}
           setCoordinates={setCoordinates}
@@ -0,0 +1,27 @@
+// Types for GET /api/fields/:id/accumulated (backend/services/accumulated.js)
+
+export interface AccumulatedDay {
+  date: string // YYYY-MM-DD (UTC)
+  // null on days without weather observations
+  temp_min: number | null
+  temp_max: number | null
+  gdd: number | null
+  precipitation: number | null // mm
+  cumulative_gdd: number
+  cumulative_precipitation: number
+}
+
+export interface AccumulatedData {
+  fieldId: string
+  polyid: string
+  start: number // unix seconds
+  end: number
+  base: number // °C
+  days: AccumulatedDay[]
+  totals: {
+    gdd: number
+    precipitation: number
+    days: number
+    missing_days: number
+  }
+}
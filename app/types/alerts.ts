@@ -0,0 +1,33 @@
+// Types for /api/fields/:id/alert-rules and /api/alerts (backend/services/alerts.js)
+
+export type AlertMetric = 'moisture' | 't0' | 't10' | 't100' | 'ndvi' | 'ndvi_drop'
+
+export type AlertOperator = '<' | '<=' | '>' | '>='
+
+export interface AlertRule {
+  id: string
+  fieldId: string
+  metric: AlertMetric
+  operator: AlertOperator
+  threshold: number
+  windowDays: number | null // ndvi_drop only
+  enabled: boolean
+  description: string // e.g. "Soil moisture < 20%"
+  createdAt: string
+  updatedAt: string
+}
+
+export interface FieldAlert {
+  id: string
+  ruleId: string
+  fieldId: string
+  polyid: string
+  metric: AlertMetric
+  operator: AlertOperator
+  threshold: number
+  windowDays: number | null
+  value: number // what the data showed
+  observedAt: string // time of the soil reading or satellite scene
+  message: string
+  createdAt: string
+}
@@ -0,0 +1,150 @@
+// Types for /api/ai-analysis responses
+// LlmAnalysis mirrors ANALYSIS_SCHEMA in backend/schemas/analysisSchema.js - keep them in sync
+
+import type { CropConditions, CropSuitability } from './crops'
+
+export type QualityLevel = 'High' | 'Moderate' | 'Low'
+export type YieldLevel = 'High' | 'Medium' | 'Low'
+
+// Structured output the model must return (validated by the backend before use)
+export interface LlmAnalysis {
+  Soil_Quality_Index: number // 0-100
+  Soil_Quality_Level: QualityLevel
+  Confidence: number // 0-1
+  Field_Summary: string
+  Predicted_Yield: YieldLevel
+  Predicted_Crops: string[]
+  Recommendations: string[]
+}
+
+// Weather summary from backend/services/weather.js (°C, %, m/s, mm)
+export interface CurrentWeather {
+  dt: number
+  temperature: number | null
+  feels_like: number | null
+  humidity: number | null
+  pressure: number | null
+  wind_speed: number | null
+  clouds: number | null
+  rain: number
+  description: string | null
+}
+
+export interface ForecastDay {
+  date: string // YYYY-MM-DD (UTC)
+  temp_min: number | null
+  temp_max: number | null
+  rain: number
+  humidity: number
+  description: string | null
+}
+
+export interface WeatherForecast {
+  from: number
+  to: number
+  rain_next_24h: number
+  rain_next_48h: number
+  rain_total: number
+  temp_min: number
+  temp_max: number
+  days: ForecastDay[]
+}
+
+export interface WeatherSummary {
+  current: CurrentWeather | null
+  forecast: WeatherForecast | null
+}
+
+// Rule engine score of one input
+export interface ScoreComponent {
+  value: number
+  score: number
+  weight: number
+}
+
+// EVI / NDWI / SAVI over the most recent clear scenes, formatted like the NDVI values ("N/A" when missing)
+export interface IndexSummary {
+  mean: string
+  median: string
+  min: string
+  max: string
+  std: string
+  scenes: number
+}
+
+export type VegetationIndex = 'evi' | 'ndwi' | 'savi'
+
+// One soil reading in Current_Conditions, shallowest first
+export interface SoilDepthReading {
+  depth_cm: number | null // null when the source gives no depth (AgroMonitoring moisture)
+  label: string // "Surface", "10 cm", "100 cm" or "Top layer"
+  value: string // "12.30°C" or "25.8%"
+  status: string
+}
+
+// Full analysis returned by the backend
+export interface AIAnalysisData {
+  Soil_Quality_Index: number
+  Fertility_Level: string
+  Soil_Quality_Level?: QualityLevel | 'Unknown'
+  Summary: string
+  Field_Summary?: string
+  Confidence?: number
+  Current_Conditions: {
+    temperature: {
+      surface: string
+      depth_10cm: string
+      depth_100cm?: string
+      status: string
+      // Every depth with a reading (missing in older analyses)
+      profile?: SoilDepthReading[]
+    }
+    moisture: {
+      value: string
+      status: string
+      profile?: SoilDepthReading[]
+    }
+    vegetation: {
+      ndvi_mean: string
+      ndvi_median: string
+      ndvi_min: string
+      ndvi_max: string
+      ndvi_std: string
+      status: string
+    }
+    // Missing in analyses made before the indices were added
+    indices?: Record<VegetationIndex, IndexSummary>
+    // null when the provider is not configured
+    weather?: WeatherSummary | null
+  }
+  Predicted_Yield_Quality: string
+  Predicted_Yield?: string
+  Predicted_Crops: string[]
+  Recommendations: string[]
+  // Catalogue crops ranked on the same soil / NDVI data (missing in older analyses)
+  Crop_Suitability?: CropSuitability[]
+  // Values the ranking was scored on - its NDVI is the peak, not the mean above
+  Crop_Conditions?: CropConditions
+  AI_Confidence_Score: number
+  Predictions: {
+    ndvi_with_moisture_increase_10pct: string
+    current_ndvi: string
+  }
+  Data_Timestamp: string
+  // Label of the LLM provider that produced the analysis, or 'Rule Engine'
+  Analysis_Source?: 'Gemini AI' | 'OpenAI-compatible LLM' | 'Mock LLM' | 'Rule Engine'
+  Analysis_Model?: string
+  // Id of the stored copy (GET /api/analyses/:id); missing if saving failed
+  Analysis_Id?: string
+  // Rule engine only: how each input contributed to the score
+  Score_Breakdown?: Partial<Record<'moisture' | 'temp0cm' | 'temp10cm' | 'ndviMean', ScoreComponent>>
+  // Where each input came from: "request", "hit", "stale", "miss" or "none"
+  Cache_Status?: {
+    soil: string
+    ndvi_history: string
+    polygon_info: string
+    weather?: string
+    forecast?: string
+    indices?: string
+  }
+}
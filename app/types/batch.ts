@@ -0,0 +1,33 @@
+// Types for POST /api/ai-analysis/batch and GET /api/ai-analysis/batch/:id (backend/services/batchAnalysis.js)
+
+import type { AIAnalysisData } from './analysis'
+
+export interface BatchItem {
+  index: number
+  ref: string | number | null // echoed from the request
+  input: 'polyid' | 'geometry'
+  polyid: string | null
+  fieldId: string | null
+  reused: boolean | null // polygon already existed (geometry items)
+  status: 'queued' | 'creating' | 'checking' | 'analyzing' | 'done' | 'failed' | 'rejected'
+  retries: number // rate-limit retries
+  result: AIAnalysisData | null
+  error: { status: number; error: string; message: string } | null
+  rejection: { reason: string; message: string } | null // pre-check of an internal batch turned the item down
+  startedAt: string | null
+  finishedAt: string | null
+}
+
+export interface BatchJob {
+  id: string
+  status: 'running' | 'done'
+  createdAt: string
+  finishedAt: string | null
+  concurrency: number
+  total: number
+  completed: number
+  succeeded: number
+  failed: number
+  rejected: number
+  items: BatchItem[]
+}
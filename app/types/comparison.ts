@@ -0,0 +1,59 @@
+// Types for POST /api/fields/:id/compare (backend/services/comparison.js)
+
+export type SamplingStrategy = 'random' | 'grid' | 'rings'
+
+// What is drawn around each point: a 3 ha square, a square of the field's area, or the field's outline
+export type ComparisonFootprint = 'square' | 'area' | 'shape'
+
+export type RejectionReason = 'landcover' | 'ndvi_low' | 'ndvi_flat'
+
+// Candidate point and its square, whatever happened to it
+interface ComparisonCandidate {
+  index: number // sample order, stable for a given seed
+  center: [number, number] // [lat, lon]
+  coordinates: [number, number][] // [lat, lon] corners
+  distance_km: number
+  area_ha: number // of the polygon analyzed
+  ring?: number // rings strategy: 1 = innermost
+  ring_km?: number
+  grid_spacing_km?: number // grid strategy
+}
+
+export interface ComparisonArea extends ComparisonCandidate {
+  polyid: string | null
+  status: 'done' | 'failed'
+  score: number | null
+  fertility_level: string | null
+  summary: string | null
+  analysisId: string | null
+  error: { status: number; error: string; message: string } | null
+}
+
+export interface FieldComparison {
+  fieldId: string
+  polyid: string | null
+  radiusKm: number
+  samples: number
+  seed: string // send it back to get the same areas again
+  strategy: SamplingStrategy
+  croplandOnly: boolean
+  footprint: ComparisonFootprint
+  field: {
+    center: [number, number]
+    area_ha: number
+    score: number | null // latest stored analysis
+    analysisId: string | null
+  }
+  candidatesTried: number
+  croplandChecks: { mask: boolean; ndvi: boolean } | null // null unless croplandOnly
+  batchIds: string[]
+  areas: ComparisonArea[] // best score first, failed areas last
+  rejected: RejectedCandidate[] // cropland checks, in sample order
+}
+
+export interface RejectedCandidate extends ComparisonCandidate {
+  polyid: string | null // null when the cropland mask rejected it before a polygon was made
+  reason: RejectionReason
+  message: string
+  ndvi?: { peak: number; low: number; scenes: number } | null
+}
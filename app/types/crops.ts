@@ -0,0 +1,34 @@
+// Types for GET /api/fields/:id/suitability and Crop_Suitability in the analysis (backend/services/crops.js)
+
+export type CropFactorName = 'temperature' | 'moisture' | 'ndvi'
+
+export interface CropFactor {
+  value: number | null // field value, null when unknown
+  range: [number, number] // what the crop needs
+  score: number | null // 0-100, null when the field value is unknown
+}
+
+export interface CropSuitability {
+  crop: string
+  score: number | null // 0-100, null without any soil or NDVI data
+  level: 'High' | 'Moderate' | 'Low' | 'Unknown'
+  confidence: number // share of the factor weight that had data (0-1)
+  factors: Record<CropFactorName, CropFactor>
+  limiting_factors: string[] // worst first
+}
+
+// Field values the crops are scored on
+export interface CropConditions {
+  temperature: number | null // °C
+  temperature_depth: number | null // cm
+  moisture: number | null // %
+  ndvi: number | null // peak scene mean - what the crops are scored on
+  ndvi_mean?: number | null // average scene mean, as the analysis reports it (for display only)
+}
+
+export interface SuitabilityResult {
+  fieldId: string
+  polyid: string
+  conditions: CropConditions
+  crops: CropSuitability[] // best first
+}
@@ -0,0 +1,27 @@
+// Types for POST /api/fields/import (backend/services/fieldImport.js)
+
+export type ImportFormat = 'geojson' | 'kml' | 'kmz' | 'shapefile'
+
+export interface ImportResult {
+  feature: number // index of the feature in the file
+  part: number | null // part of a multi-polygon feature, null for single polygons
+  layer?: string // shapefile layer, for archives with several .shp files
+  name: string
+  status: 'created' | 'valid' | 'duplicate' | 'invalid'
+  fieldId?: string | null // created field, or the existing field for duplicates
+  areaInSquareMeters?: number
+  message?: string // why the polygon was not imported
+  warnings?: string[]
+}
+
+export interface FieldImportResponse {
+  format: ImportFormat
+  crs: string // coordinate system the file was read in
+  dryRun: boolean
+  total: number
+  created: number
+  valid: number
+  duplicates: number
+  invalid: number
+  results: ImportResult[]
+}
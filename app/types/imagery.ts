@@ -0,0 +1,21 @@
+// Types for GET /api/imagery/:polyid (backend/services/imagery.js)
+
+export type ImageLayer = 'ndvi' | 'truecolor'
+
+export interface Scene {
+  id: string
+  dt: number // unix seconds
+  date: string // ISO
+  source: string | null // e.g. "Sentinel-2"
+  cloud_cover: number | null // %
+  data_coverage: number | null // %
+  // PNG URLs served by the backend, only for layers the scene has
+  layers: Partial<Record<ImageLayer, string>>
+}
+
+export interface SceneSearchResult {
+  polyid: string
+  start: number
+  end: number
+  scenes: Scene[]
+}
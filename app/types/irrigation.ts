@@ -0,0 +1,29 @@
+// Types for GET /api/irrigation/:polyid (backend/services/irrigation.js)
+
+export type SoilTexture = 'sand' | 'loamy_sand' | 'sandy_loam' | 'loam' | 'silt_loam' | 'silty_clay_loam' | 'clay'
+
+export interface IrrigationResult {
+  polyid: string
+  soil: {
+    texture: SoilTexture
+    label: string
+    field_capacity: number // % by volume
+    wilting_point: number
+  }
+  moisture: number // %
+  root_depth_cm: number
+  efficiency: number // 0-1
+  area_ha: number | null
+  available_water_mm: number
+  depletion_pct: number
+  deficit_mm: number
+  rain_forecast_mm: number | null // next 48 h, null without a forecast
+  effective_rain_mm: number
+  net_mm: number
+  gross_mm: number // to apply
+  litres_per_hectare: number
+  total_litres: number | null // null when the area is unknown
+  status: 'none' | 'rain_expected' | 'not_yet' | 'irrigate'
+  recommendation: string
+  assumptions: string[]
+}
@@ -0,0 +1,138 @@
+/**
+ * Alert Controller
+ * Threshold rules on a saved field and the alerts they triggered (services/alerts.js)
+ */
+
+import { getField } from "../store/fieldStore.js";
+import {
+  createAlertRule,
+  getAlertRule,
+  listFieldAlertRules,
+  updateAlertRule,
+  deleteAlertRule,
+  listAlerts,
+} from "../store/alertStore.js";
+import { validateAlertRule, describeAlertRule } from "../services/alerts.js";
+
+const MAX_ALERTS = 500;
+
+const withDescription = (rule) => ({ ...rule, description: describeAlertRule(rule) });
+
+// The rule must belong to the field in the URL
+function findFieldRule(res, fieldId, ruleId) {
+  const rule = getAlertRule(ruleId);
+  if (!rule || rule.fieldId !== fieldId) {
+    res.status(404).json({ error: "Alert rule not found", message: `No alert rule ${ruleId} on field ${fieldId}` });
+    return null;
+  }
+  return rule;
+}
+
+// LISTING A FIELD'S ALERT RULES
+export const getAlertRules = async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    if (!getField(id)) {
+      return res.status(404).json({ error: "Field not found", message: `No field with id ${id}` });
+    }
+    return res.json(listFieldAlertRules(id).map(withDescription));
+  } catch (error) {
+    console.error("Error listing alert rules:", error);
+    return res.status(500).json({ error: "Server error", message: error.message });
+  }
+};
+
+// ADDING AN ALERT RULE
+export const postAlertRule = async (req, res) => {
+  const { id } = req.params;
+
+  let rule;
+  try {
+    rule = validateAlertRule(req.body || {});
+  } catch (validationError) {
+    return res.status(400).json({ error: "Invalid alert rule", message: validationError.message });
+  }
+
+  try {
+    if (!getField(id)) {
+      return res.status(404).json({ error: "Field not found", message: `No field with id ${id}` });
+    }
+    const saved = createAlertRule({ fieldId: id, ...rule });
+    console.log(`Alert rule added to field ${id}: ${describeAlertRule(saved)}`);
+    return res.status(201).json(withDescription(saved));
+  } catch (error) {
+    console.error("Error creating alert rule:", error);
+    return res.status(500).json({ error: "Server error", message: error.message });
+  }
+};
+
+// CHANGING OR PAUSING AN ALERT RULE
+export const patchAlertRule = async (req, res) => {
+  const { id, ruleId } = req.params;
+  const body = req.body || {};
+
+  try {
+    const rule = findFieldRule(res, id, ruleId);
+    if (!rule) return;
+
+    if (body.enabled !== undefined && typeof body.enabled !== "boolean") {
+      return res.status(400).json({ error: "Invalid alert rule", message: "enabled must be true or false" });
+    }
+
+    let changes;
+    try {
+      changes = validateAlertRule({ ...rule, ...body });
+    } catch (validationError) {
+      return res.status(400).json({ error: "Invalid alert rule", message: validationError.message });
+    }
+
+    const updated = updateAlertRule(ruleId, {
+      ...changes,
+      ...(body.enabled !== undefined ? { enabled: body.enabled } : {}),
+    });
+    return res.json(withDescription(updated));
+  } catch (error) {
+    console.error("Error updating alert rule:", error);
+    return res.status(500).json({ error: "Server error", message: error.message });
+  }
+};
+
+// DELETING AN ALERT RULE
+export const removeAlertRule = async (req, res) => {
+  const { id, ruleId } = req.params;
+
+  try {
+    if (!findFieldRule(res, id, ruleId)) return;
+    deleteAlertRule(ruleId);
+    return res.json({ deleted: true, id: ruleId });
+  } catch (error) {
+    console.error("Error deleting alert rule:", error);
+    return res.status(500).json({ error: "Server error", message: error.message });
+  }
+};
+
+// LISTING TRIGGERED ALERTS
+// ?fieldId= one field, ?since= ISO timestamp, ?limit= (default 50)
+export const getAlerts = async (req, res) => {
+  const { fieldId, since } = req.query;
+
+  const limit = req.query.limit === undefined ? 50 : Number(req.query.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_ALERTS) {
+    return res.status(400).json({ error: "Invalid parameter", message: `\`limit\` must be an integer between 1 and ${MAX_ALERTS}` });
+  }
+  if (since !== undefined && isNaN(Date.parse(since))) {
+    return res.status(400).json({ error: "Invalid parameter", message: "`since` must be an ISO date" });
+  }
+
+  try {
+    return res.json(listAlerts({
+      fieldId,
+      since: since !== undefined ? new Date(since).toISOString() : undefined,
+      limit,
+    }));
+  } catch (error) {
+    console.error("Error listing alerts:", error);
+    return res.status(500).json({ error: "Server error", message: error.message });
+  }
+};
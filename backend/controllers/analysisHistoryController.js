@@ -0,0 +1,47 @@
+/**
+ * Analysis History Controller
+ * Past analyses of a field, so results can be compared without calling the model again
+ */
+
+import { getField } from "../store/fieldStore.js";
+import { getAnalysis, listFieldAnalyses } from "../store/analysisStore.js";
+import { parsePaging } from "../utils/paging.js";
+
+// LISTING A FIELD'S ANALYSES
+export const getFieldAnalyses = async (req, res) => {
+  const { id } = req.params;
+
+  let paging;
+  try {
+    paging = parsePaging(req.query);
+  } catch (validationError) {
+    return res.status(400).json({ error: "Invalid paging", message: validationError.message });
+  }
+
+  try {
+    const field = getField(id);
+    if (!field) {
+      return res.status(404).json({ error: "Field not found", message: `No field with id ${id}` });
+    }
+    return res.json(listFieldAnalyses(field, paging));
+  } catch (error) {
+    console.error("Error listing analyses:", error);
+    return res.status(500).json({ error: "Server error", message: error.message });
+  }
+};
+
+// GETTING ONE ANALYSIS
+export const getAnalysisById = async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    const analysis = getAnalysis(id);
+    if (!analysis) {
+      return res.status(404).json({ error: "Analysis not found", message: `No analysis with id ${id}` });
+    }
+    return res.json(analysis);
+  } catch (error) {
+    console.error("Error fetching analysis:", error);
+    return res.status(500).json({ error: "Server error", message: error.message });
+  }
+};
@@ -0,0 +1,69 @@
+/**
+ * Batch Analysis Controller
+ * Many fields analyzed through one bounded-concurrency queue (services/batchAnalysis.js)
+ */
+
+import { getProvider } from "../providers/index.js";
+import { parseNdviWindow } from "../services/ndviHistory.js";
+import { validateBatch, startBatch, getBatch, waitForBatch } from "../services/batchAnalysis.js";
+
+// STARTING A BATCH
+// Answers 202 with the queued job; ?wait=true answers once every item has finished
+export const postBatchAnalysis = async (req, res) => {
+  const body = req.body || {};
+
+  let batch;
+  try {
+    batch = validateBatch(body);
+  } catch (validationError) {
+    return res.status(400).json({ error: "Invalid batch", message: validationError.message });
+  }
+
+  // Same NDVI window for every item, checked once up front
+  const query = {};
+  for (const key of ["start", "end", "range"]) {
+    if (body[key] !== undefined) query[key] = String(body[key]);
+  }
+  try {
+    parseNdviWindow(query, "1y");
+  } catch (validationError) {
+    return res.status(400).json({ error: "Invalid time window", message: validationError.message });
+  }
+
+  if (!getProvider().isConfigured()) {
+    console.error("API_KEY is not set in environment variables");
+    return res.status(500).json({ error: "Server configuration error: API_KEY not found" });
+  }
+
+  try {
+    const job = startBatch(batch, query);
+    if (req.query.wait === "true") {
+      return res.json(await waitForBatch(job.id));
+    }
+    res.set("Location", `/api/ai-analysis/batch/${job.id}`);
+    return res.status(202).json(job);
+  } catch (error) {
+    if (error.status === 503) {
+      res.set("Retry-After", "30");
+      return res.status(503).json({ error: "Batch queue full", message: error.message });
+    }
+    console.error("Error starting batch analysis:", error);
+    return res.status(500).json({ error: "Server error", message: error.message });
+  }
+};
+
+// POLLING A BATCH
+export const getBatchAnalysis = async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    const job = getBatch(id);
+    if (!job) {
+      return res.status(404).json({ error: "Batch not found", message: `No batch with id ${id} (finished batches are kept for an hour)` });
+    }
+    return res.json(job);
+  } catch (error) {
+    console.error("Error fetching batch analysis:", error);
+    return res.status(500).json({ error: "Server error", message: error.message });
+  }
+};
@@ -0,0 +1,59 @@
+/**
+ * Comparison Controller
+ * Seeded nearby-area comparison of a saved field (services/comparison.js)
+ */
+
+import { getProvider } from "../providers/index.js";
+import { getField } from "../store/fieldStore.js";
+import { parseNdviWindow } from "../services/ndviHistory.js";
+import { validateComparison, fieldCenter, compareField } from "../services/comparison.js";
+
+// COMPARING A FIELD WITH NEARBY AREAS
+export const postFieldComparison = async (req, res) => {
+  const { id } = req.params;
+  const body = req.body || {};
+
+  const field = getField(id);
+  if (!field) {
+    return res.status(404).json({ error: "Field not found", message: `No field with id ${id}` });
+  }
+  if (!fieldCenter(field)) {
+    return res.status(409).json({ error: "Field has no geometry", message: "Draw the field before comparing it" });
+  }
+
+  let options;
+  try {
+    options = validateComparison(body, field);
+  } catch (validationError) {
+    return res.status(400).json({ error: "Invalid comparison", message: validationError.message });
+  }
+
+  // Same NDVI window for every area, like the batch analysis
+  const query = {};
+  for (const key of ["start", "end", "range"]) {
+    if (body[key] !== undefined) query[key] = String(body[key]);
+  }
+  try {
+    parseNdviWindow(query, "1y");
+  } catch (validationError) {
+    return res.status(400).json({ error: "Invalid time window", message: validationError.message });
+  }
+
+  if (!getProvider().isConfigured()) {
+    console.error("API_KEY is not set in environment variables");
+    return res.status(500).json({ error: "Server configuration error: API_KEY not found" });
+  }
+
+  try {
+    console.log(`Comparing field ${id}: ${options.samples} ${options.strategy} areas within ${options.radiusKm} km${options.croplandOnly ? ", cropland only" : ""} (seed ${options.seed})`);
+    const comparison = await compareField(field, options, query);
+    return res.json(comparison);
+  } catch (error) {
+    if (error.status === 503) {
+      res.set("Retry-After", "30");
+      return res.status(503).json({ error: "Batch queue full", message: error.message });
+    }
+    console.error("Error comparing field:", error);
+    return res.status(500).json({ error: "Server error", message: error.message });
+  }
+};
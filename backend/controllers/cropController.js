@@ -0,0 +1,78 @@
+/**
+ * Crop Controller
+ * Crop suitability of a saved field, scored against the crop catalogue (services/crops.js)
+ */
+
+import { getProvider } from "../providers/index.js";
+import { getField } from "../store/fieldStore.js";
+import { CROP_CATALOGUE, findCrop, fieldConditions, rankCrops } from "../services/crops.js";
+import { parseNdviWindow, fetchNdviHistory, hasNdviValues } from "../services/ndviHistory.js";
+import { parseSoilProfile, fetchSoil } from "../services/soil.js";
+
+// SCORING CROPS FOR A FIELD
+export const getFieldSuitability = async (req, res) => {
+  const { id } = req.params;
+
+  // ?crops=wheat,corn - every catalogue crop by default
+  let crops = CROP_CATALOGUE;
+  if (req.query.crops !== undefined) {
+    const names = String(req.query.crops).split(",").map((name) => name.trim()).filter(Boolean);
+    const unknown = names.filter((name) => !findCrop(name));
+    if (names.length === 0 || unknown.length > 0) {
+      return res.status(400).json({
+        error: "Invalid crops",
+        message: names.length === 0
+          ? "`crops` must list at least one crop"
+          : `Unknown crop${unknown.length === 1 ? "" : "s"}: ${unknown.join(", ")}`,
+        available: CROP_CATALOGUE.map((crop) => crop.name),
+      });
+    }
+    crops = [...new Set(names.map((name) => findCrop(name)))];
+  }
+
+  // Same NDVI window as the analysis
+  let ndviWindow;
+  try {
+    ndviWindow = parseNdviWindow(req.query, "1y");
+  } catch (validationError) {
+    return res.status(400).json({ error: "Invalid time window", message: validationError.message });
+  }
+
+  const field = getField(id);
+  if (!field) {
+    return res.status(404).json({ error: "Field not found", message: `No field with id ${id}` });
+  }
+  if (!field.polyid) {
+    return res.status(409).json({ error: "Field has no polygon", message: "Create the field's polygon before scoring crops" });
+  }
+
+  if (!getProvider().isConfigured()) {
+    console.error("API_KEY is not set in environment variables");
+    return res.status(500).json({ error: "Server configuration error: API_KEY not found" });
+  }
+
+  try {
+    const soilResult = await fetchSoil(field.polyid);
+    // NDVI is optional - crops are scored on soil alone without it
+    const ndviResult = await fetchNdviHistory(field.polyid, ndviWindow);
+    const ndviHistory = hasNdviValues(ndviResult.history) ? ndviResult.history : null;
+
+    const conditions = fieldConditions(parseSoilProfile(soilResult.value), ndviHistory);
+    const ranked = rankCrops(conditions, crops);
+    console.log(`Crop suitability for field ${id}: ${ranked.slice(0, 3).map((c) => `${c.crop} ${c.score}`).join(", ")}`);
+
+    return res.json({
+      fieldId: field.id,
+      polyid: field.polyid,
+      conditions,
+      crops: ranked,
+    });
+  } catch (error) {
+    if (error.status) {
+      console.error("Soil API error:", error.details);
+      return res.status(error.status).json({ error: "Failed to fetch soil data", details: error.details });
+    }
+    console.error("Error scoring crops:", error);
+    return res.status(500).json({ error: "Server error", message: error.message });
+  }
+};
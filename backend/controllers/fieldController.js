@@ -0,0 +1,123 @@
+/**
+ * Field Controller
+ * CRUD endpoints for saved fields so they survive across browsers and machines
+ */
+
+import {
+  listFields,
+  getField,
+  createField,
+  updateField,
+  deleteField,
+} from "../store/fieldStore.js";
+import { deleteFieldAlertRules } from "../store/alertStore.js";
+import { toGeoJsonRing, toPolygonGeometry } from "../utils/geometry.js";
+
+/**
+ * Build a GeoJSON Polygon from either `geometry` or `coordinates` ([lat, lon]) in a request body
+ * Returns undefined when the body carries neither
+ */
+function geometryFromBody(body) {
+  if (body.geometry) {
+    return toPolygonGeometry(body.geometry);
+  }
+  if (body.coordinates) {
+    return { type: "Polygon", coordinates: [toGeoJsonRing(body.coordinates)] };
+  }
+  return undefined;
+}
+
+// LISTING ALL FIELDS
+export const getFields = async (req, res) => {
+  try {
+    return res.json(listFields());
+  } catch (error) {
+    console.error("Error listing fields:", error);
+    return res.status(500).json({ error: "Server error", message: error.message });
+  }
+};
+
+// GETTING ONE FIELD
+export const getFieldById = async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    const field = getField(id);
+    if (!field) {
+      return res.status(404).json({ error: "Field not found", message: `No field with id ${id}` });
+    }
+    return res.json(field);
+  } catch (error) {
+    console.error("Error fetching field:", error);
+    return res.status(500).json({ error: "Server error", message: error.message });
+  }
+};
+
+// CREATING A FIELD
+export const postField = async (req, res) => {
+  const body = req.body || {};
+
+  let geometry;
+  try {
+    geometry = geometryFromBody(body);
+  } catch (geometryError) {
+    return res.status(400).json({ error: "Invalid geometry", message: geometryError.message });
+  }
+
+  if (!geometry) {
+    return res.status(400).json({
+      error: "Invalid geometry",
+      message: "Provide either `coordinates` ([lat, lon] pairs) or a GeoJSON Polygon `geometry`",
+    });
+  }
+
+  try {
+    const field = createField({ ...body, geometry });
+    console.log("Field created:", field.id, field.name);
+    return res.status(201).json(field);
+  } catch (error) {
+    console.error("Error creating field:", error);
+    return res.status(500).json({ error: "Server error", message: error.message });
+  }
+};
+
+// UPDATING A FIELD
+export const patchField = async (req, res) => {
+  const { id } = req.params;
+  const body = req.body || {};
+
+  let geometry;
+  try {
+    geometry = geometryFromBody(body);
+  } catch (geometryError) {
+    return res.status(400).json({ error: "Invalid geometry", message: geometryError.message });
+  }
+
+  try {
+    const field = updateField(id, geometry ? { ...body, geometry } : body);
+    if (!field) {
+      return res.status(404).json({ error: "Field not found", message: `No field with id ${id}` });
+    }
+    return res.json(field);
+  } catch (error) {
+    console.error("Error updating field:", error);
+    return res.status(500).json({ error: "Server error", message: error.message });
+  }
+};
+
+// DELETING A FIELD
+export const removeField = async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    if (!deleteField(id)) {
+      return res.status(404).json({ error: "Field not found", message: `No field with id ${id}` });
+    }
+    deleteFieldAlertRules(id);
+    console.log("Field deleted:", id);
+    return res.json({ deleted: true, id });
+  } catch (error) {
+    console.error("Error deleting field:", error);
+    return res.status(500).json({ error: "Server error", message: error.message });
+  }
+};
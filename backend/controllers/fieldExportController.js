@@ -0,0 +1,49 @@
+/**
+ * Field Export Controller
+ * Downloads of the saved fields and their analysis history (services/fieldExport.js)
+ */
+
+import { getField } from "../store/fieldStore.js";
+import { EXPORT_FORMATS, exportFields, exportFieldAnalyses } from "../services/fieldExport.js";
+
+const CONTENT_TYPES = { geojson: "application/geo+json", csv: "text/csv; charset=utf-8" };
+
+// File-name-safe version of a field name
+const slug = (text) => String(text || "field").toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "field";
+
+// EXPORTING ALL FIELDS
+export const getFieldsExport = async (req, res) => {
+  const format = String(req.query.format || "geojson").toLowerCase();
+  if (!EXPORT_FORMATS.includes(format)) {
+    return res.status(400).json({ error: "Invalid format", message: `format must be one of ${EXPORT_FORMATS.join(", ")}` });
+  }
+
+  try {
+    const exported = exportFields(format);
+    const date = new Date().toISOString().slice(0, 10);
+    res.attachment(`farmlite-fields-${date}.${format}`);
+    res.set("Content-Type", CONTENT_TYPES[format]);
+    return res.send(format === "csv" ? exported : JSON.stringify(exported));
+  } catch (error) {
+    console.error("Error exporting fields:", error);
+    return res.status(500).json({ error: "Server error", message: error.message });
+  }
+};
+
+// EXPORTING A FIELD'S ANALYSIS HISTORY
+export const getFieldAnalysesExport = async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    const field = getField(id);
+    if (!field) {
+      return res.status(404).json({ error: "Field not found", message: `No field with id ${id}` });
+    }
+    res.attachment(`${slug(field.name)}-analyses.csv`);
+    res.set("Content-Type", CONTENT_TYPES.csv);
+    return res.send(exportFieldAnalyses(field));
+  } catch (error) {
+    console.error("Error exporting analyses:", error);
+    return res.status(500).json({ error: "Server error", message: error.message });
+  }
+};
@@ -0,0 +1,50 @@
+/**
+ * Field Import Controller
+ * Bulk field creation from GeoJSON, KML/KMZ and zipped shapefile uploads (services/fieldImport.js)
+ */
+
+import { detectFormat, readBoundaryFile, importFields } from "../services/fieldImport.js";
+
+// IMPORTING FIELDS FROM A BOUNDARY FILE
+export const postFieldImport = async (req, res) => {
+  const { format, filename, nameProperty } = req.query;
+  const dryRun = req.query.dryRun === "true";
+
+  // The raw body parser leaves a Buffer, whatever the Content-Type
+  const input = req.body;
+  if (!Buffer.isBuffer(input) || input.length === 0) {
+    return res.status(400).json({ error: "Invalid file", message: "Send the file contents as the request body" });
+  }
+
+  let file;
+  let detected;
+  try {
+    detected = detectFormat(input, { format, filename });
+    file = readBoundaryFile(input, detected);
+  } catch (fileError) {
+    return res.status(400).json({ error: "Invalid file", message: fileError.message });
+  }
+
+  try {
+    const summary = importFields(file, {
+      dryRun,
+      nameProperty: nameProperty ? String(nameProperty) : undefined,
+      baseName: filename ? String(filename).replace(/\.[^.]+$/, "") : undefined,
+    });
+    console.log(`Field import (${detected}${dryRun ? ", dry run" : ""}): ${summary.created} created, ${summary.duplicates} duplicates, ${summary.invalid} invalid`);
+    return res.status(summary.created > 0 ? 201 : 200).json({ format: detected, crs: file.crs.name, dryRun, ...summary });
+  } catch (error) {
+    console.error("Error importing fields:", error);
+    return res.status(500).json({ error: "Server error", message: error.message });
+  }
+};
+
+// UPLOADS THE BODY PARSER REFUSED (over 25 MB, aborted) - JSON like every other error
+export const fieldImportBodyError = (error, req, res, next) => {
+  const status = error.status || error.statusCode || 500;
+  if (status === 413) {
+    return res.status(413).json({ error: "File too large", message: "Boundary files can be at most 25 MB" });
+  }
+  if (status >= 500) return next(error);
+  return res.status(status).json({ error: "Invalid file", message: error.message });
+};
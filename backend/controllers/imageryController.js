@@ -0,0 +1,85 @@
+/**
+ * Imagery Controller
+ * Satellite scenes available for a polygon, and their NDVI / true-color images
+ */
+
+import { getProvider } from "../providers/index.js";
+import { IMAGE_LAYERS, searchScenes, toSceneSummary, findScene } from "../services/imagery.js";
+import { setCacheHeaders } from "../services/cache.js";
+import { parseTimeWindow } from "../utils/timeWindow.js";
+
+// Scene images never change once published
+const IMAGE_MAX_AGE_SECONDS = 7 * 24 * 60 * 60;
+
+function configError(res) {
+  console.error("API_KEY is not set in environment variables");
+  return res.status(500).json({ error: "Server configuration error: API_KEY not found" });
+}
+
+// SEARCHING SCENES
+export const getScenes = async (req, res) => {
+  const { polyid } = req.params;
+
+  let window;
+  try {
+    window = parseTimeWindow(req.query, "30d", { maxSeconds: 366 * 24 * 60 * 60 });
+  } catch (validationError) {
+    return res.status(400).json({ error: "Invalid time window", message: validationError.message });
+  }
+
+  const maxCloud = req.query.maxCloud === undefined ? 100 : Number(req.query.maxCloud);
+  if (!Number.isFinite(maxCloud) || maxCloud < 0 || maxCloud > 100) {
+    return res.status(400).json({ error: "Invalid cloud limit", message: "`maxCloud` must be a percentage from 0 to 100" });
+  }
+
+  if (!getProvider().isConfigured()) return configError(res);
+
+  try {
+    const result = await searchScenes(polyid, window);
+    const baseUrl = `${req.protocol}://${req.get("host")}/api/imagery/${polyid}`;
+    const scenes = (Array.isArray(result.value) ? result.value : [])
+      .filter((scene) => typeof scene.cl !== "number" || scene.cl <= maxCloud)
+      .sort((a, b) => b.dt - a.dt)
+      .map((scene) => toSceneSummary(scene, (id, layer) => `${baseUrl}/${id}/${layer}`));
+
+    console.log(`Imagery for ${polyid}: ${scenes.length} scenes (cache ${result.cache})`);
+    setCacheHeaders(res, result);
+    return res.json({ polyid, start: window.start, end: window.end, scenes });
+  } catch (error) {
+    if (error.status) {
+      console.error("Imagery API error:", error.details);
+      return res.status(error.status).json({ error: "Failed to search imagery", details: error.details });
+    }
+    console.error("Error searching imagery:", error);
+    return res.status(500).json({ error: "Server error", message: error.message });
+  }
+};
+
+// GRABBING ONE SCENE IMAGE
+export const getSceneImage = async (req, res) => {
+  const { polyid, sceneId, layer } = req.params;
+
+  if (!IMAGE_LAYERS.includes(layer)) {
+    return res.status(400).json({ error: "Invalid layer", message: `layer must be one of: ${IMAGE_LAYERS.join(", ")}` });
+  }
+  if (!getProvider().isConfigured()) return configError(res);
+
+  try {
+    const scene = await findScene(polyid, sceneId);
+    if (!scene) {
+      return res.status(404).json({ error: "Scene not found", message: `No scene ${sceneId} for polygon ${polyid}` });
+    }
+
+    const image = await getProvider().getImage(polyid, scene, layer);
+    res.set("Content-Type", "image/png");
+    res.set("Cache-Control", `public, max-age=${IMAGE_MAX_AGE_SECONDS}`);
+    return res.send(image);
+  } catch (error) {
+    if (error.status) {
+      console.error("Image API error:", error.details);
+      return res.status(error.status).json({ error: "Failed to fetch image", details: error.details });
+    }
+    console.error("Error fetching image:", error);
+    return res.status(500).json({ error: "Server error", message: error.message });
+  }
+};
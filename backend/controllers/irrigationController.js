@@ -0,0 +1,108 @@
+/**
+ * Irrigation Controller
+ * Water deficit and irrigation amounts for a polygon (services/irrigation.js)
+ */
+
+import { cached, cacheKey, CACHE_POLICIES } from "../services/cache.js";
+import { getProvider } from "../providers/index.js";
+import { findFieldByPolyid } from "../store/fieldStore.js";
+import { parseSoilProfile, topMoisture, fetchSoil } from "../services/soil.js";
+import { fetchWeatherSummary } from "../services/weather.js";
+import {
+  SOIL_TEXTURES,
+  DEFAULT_TEXTURE,
+  DEFAULT_ROOT_DEPTH_CM,
+  DEFAULT_EFFICIENCY,
+  calculateIrrigation,
+} from "../services/irrigation.js";
+
+/**
+ * Optional numeric query parameter within [min, max]
+ * @returns {number|undefined} undefined when absent; throws with a readable message when invalid
+ */
+function numberParam(query, name, min, max, unit = "") {
+  if (query[name] === undefined) return undefined;
+  const value = Number(query[name]);
+  if (query[name] === "" || !Number.isFinite(value) || value < min || value > max) {
+    throw new Error(`\`${name}\` must be a number from ${min} to ${max}${unit}`);
+  }
+  return value;
+}
+
+/**
+ * Field area in m²: the request's, else the saved field's, else the polygon's
+ * @returns {Promise<number|null>}
+ */
+async function resolveArea(polyid, requested) {
+  if (requested !== undefined) return requested;
+
+  const field = findFieldByPolyid(polyid);
+  if (field && field.areaInSquareMeters) return field.areaInSquareMeters;
+  if (field && field.area) return field.area * 10000;
+
+  try {
+    const polygon = await cached(cacheKey(polyid, "polygon"), CACHE_POLICIES.polygon, () => getProvider().getPolygon(polyid));
+    return polygon.value && polygon.value.area ? polygon.value.area * 10000 : null;
+  } catch (error) {
+    console.warn(`⚠️  Could not fetch polygon area for ${polyid}:`, error.details || error.message);
+    return null;
+  }
+}
+
+// CALCULATING THE IRRIGATION REQUIREMENT
+export const getIrrigation = async (req, res) => {
+  const { polyid } = req.params;
+
+  const texture = req.query.texture === undefined ? DEFAULT_TEXTURE : String(req.query.texture);
+  if (!SOIL_TEXTURES[texture]) {
+    return res.status(400).json({
+      error: "Invalid soil texture",
+      message: `texture must be one of: ${Object.keys(SOIL_TEXTURES).join(", ")}`,
+    });
+  }
+
+  let rootDepthCm, efficiency, area;
+  try {
+    rootDepthCm = numberParam(req.query, "rootDepth", 5, 200, " cm") ?? DEFAULT_ROOT_DEPTH_CM;
+    efficiency = numberParam(req.query, "efficiency", 0.3, 1) ?? DEFAULT_EFFICIENCY;
+    area = numberParam(req.query, "area", 1, 1e9, " m²");
+  } catch (validationError) {
+    return res.status(400).json({ error: "Invalid parameter", message: validationError.message });
+  }
+
+  if (!getProvider().isConfigured()) {
+    console.error("API_KEY is not set in environment variables");
+    return res.status(500).json({ error: "Server configuration error: API_KEY not found" });
+  }
+
+  try {
+    const soilResult = await fetchSoil(polyid);
+    const moisture = topMoisture(parseSoilProfile(soilResult.value).moisture);
+    if (moisture === null) {
+      return res.status(404).json({ error: "Soil moisture not available", message: `No soil moisture reading for polygon ${polyid}` });
+    }
+
+    // Rain is optional - without a forecast none is counted
+    const { weather } = await fetchWeatherSummary(polyid);
+    const rainForecastMm = weather.forecast ? weather.forecast.rain_next_48h : null;
+
+    const result = calculateIrrigation({
+      moisture,
+      texture,
+      rootDepthCm,
+      areaSquareMeters: await resolveArea(polyid, area),
+      rainForecastMm,
+      efficiency,
+    });
+
+    console.log(`Irrigation for ${polyid}: deficit ${result.deficit_mm} mm, apply ${result.gross_mm} mm (${result.status})`);
+    return res.json({ polyid, ...result });
+  } catch (error) {
+    if (error.status) {
+      console.error("Soil API error:", error.details);
+      return res.status(error.status).json({ error: "Failed to fetch soil data", details: error.details });
+    }
+    console.error("Error calculating irrigation:", error);
+    return res.status(500).json({ error: "Server error", message: error.message });
+  }
+};
@@ -0,0 +1,105 @@
+/**
+ * Monitoring Controller
+ * Per-field monitoring settings, the readings the scheduler stored and its status (services/scheduler.js)
+ */
+
+import { getField, setFieldMonitoring } from "../store/fieldStore.js";
+import { READING_KINDS, listFieldReadings } from "../store/readingStore.js";
+import {
+  DEFAULT_MONITORING,
+  validateMonitoring,
+  rescheduleField,
+  fieldMonitoringStatus,
+  getSchedulerStatus,
+} from "../services/scheduler.js";
+import { parsePaging } from "../utils/paging.js";
+
+// Settings as stored, or the defaults (switched off) for a field that was never monitored
+const monitoringOf = (field) => ({
+  fieldId: field.id,
+  monitoring: field.monitoring || { ...DEFAULT_MONITORING, enabled: false },
+  status: fieldMonitoringStatus(field),
+});
+
+// GETTING A FIELD'S MONITORING SETTINGS
+export const getFieldMonitoring = async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    const field = getField(id);
+    if (!field) {
+      return res.status(404).json({ error: "Field not found", message: `No field with id ${id}` });
+    }
+    return res.json(monitoringOf(field));
+  } catch (error) {
+    console.error("Error fetching monitoring settings:", error);
+    return res.status(500).json({ error: "Server error", message: error.message });
+  }
+};
+
+// CHANGING A FIELD'S MONITORING SETTINGS
+export const putFieldMonitoring = async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    const field = getField(id);
+    if (!field) {
+      return res.status(404).json({ error: "Field not found", message: `No field with id ${id}` });
+    }
+
+    let monitoring;
+    try {
+      monitoring = validateMonitoring(req.body || {}, field.monitoring || undefined);
+    } catch (validationError) {
+      return res.status(400).json({ error: "Invalid monitoring settings", message: validationError.message });
+    }
+    if (monitoring.enabled && !field.polyid) {
+      return res.status(409).json({ error: "Field has no polygon", message: "Create the field's polygon before monitoring it" });
+    }
+
+    const updated = setFieldMonitoring(id, monitoring);
+    rescheduleField(updated);
+    console.log(`Monitoring for field ${id}: ${monitoring.enabled ? `every ${monitoring.intervalMinutes} min` : "off"}`);
+    return res.json(monitoringOf(updated));
+  } catch (error) {
+    console.error("Error updating monitoring settings:", error);
+    return res.status(500).json({ error: "Server error", message: error.message });
+  }
+};
+
+// LISTING A FIELD'S STORED READINGS
+// ?kind=soil|ndvi, ?page=, ?limit=
+export const getFieldReadings = async (req, res) => {
+  const { id } = req.params;
+  const { kind } = req.query;
+
+  let paging;
+  try {
+    paging = parsePaging(req.query);
+    if (kind !== undefined && !READING_KINDS.includes(kind)) {
+      throw new Error(`kind must be one of: ${READING_KINDS.join(", ")}`);
+    }
+  } catch (validationError) {
+    return res.status(400).json({ error: "Invalid parameter", message: validationError.message });
+  }
+
+  try {
+    if (!getField(id)) {
+      return res.status(404).json({ error: "Field not found", message: `No field with id ${id}` });
+    }
+    return res.json(listFieldReadings(id, { kind, ...paging }));
+  } catch (error) {
+    console.error("Error listing readings:", error);
+    return res.status(500).json({ error: "Server error", message: error.message });
+  }
+};
+
+// SCHEDULER STATUS
+export const getScheduler = async (req, res) => {
+  try {
+    return res.json(getSchedulerStatus());
+  } catch (error) {
+    console.error("Error reading scheduler status:", error);
+    return res.status(500).json({ error: "Server error", message: error.message });
+  }
+};
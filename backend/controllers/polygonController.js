@@ -0,0 +1,83 @@
+/**
+ * Polygon Controller
+ * Endpoints to see and manage the polygon quota of the satellite data account
+ */
+
+import { findFieldByPolyid } from "../store/fieldStore.js";
+import {
+  listAccountPolygons,
+  getQuotaUsage,
+  deletePolygon,
+  deleteStalePolygons,
+} from "../services/polygonQuota.js";
+
+// Upstream failures keep their status, everything else is a 500
+function sendError(res, error, message) {
+  if (error.status) {
+    console.error(`${message}:`, error.details);
+    return res.status(error.status).json({ error: message, details: error.details });
+  }
+  console.error(`${message}:`, error);
+  return res.status(500).json({ error: "Server error", message: error.message });
+}
+
+// LISTING THE ACCOUNT'S POLYGONS
+export const getPolygons = async (req, res) => {
+  try {
+    const polygons = await listAccountPolygons();
+    return res.json({ polygons, quota: await getQuotaUsage(polygons) });
+  } catch (error) {
+    return sendError(res, error, "Failed to list polygons");
+  }
+};
+
+// HOW MUCH OF THE QUOTA IS USED
+export const getPolygonQuota = async (req, res) => {
+  try {
+    return res.json(await getQuotaUsage());
+  } catch (error) {
+    return sendError(res, error, "Failed to fetch polygon quota");
+  }
+};
+
+// DELETING ONE POLYGON
+export const removePolygon = async (req, res) => {
+  const { polyid } = req.params;
+
+  // A saved field would lose its data - only delete it when asked explicitly
+  const field = findFieldByPolyid(polyid);
+  if (field && req.query.force !== "true") {
+    return res.status(409).json({
+      error: "Polygon in use",
+      message: `Polygon ${polyid} belongs to field "${field.name}". Pass ?force=true to delete it anyway.`,
+      fieldId: field.id,
+    });
+  }
+
+  try {
+    await deletePolygon(polyid);
+    return res.json({ deleted: true, polyid });
+  } catch (error) {
+    return sendError(res, error, "Failed to delete polygon");
+  }
+};
+
+// DELETING POLYGONS NOBODY HAS USED FOR A WHILE
+export const cleanupPolygons = async (req, res) => {
+  const body = req.body || {};
+  const olderThanDays = body.olderThanDays === undefined ? 30 : Number(body.olderThanDays);
+
+  if (!Number.isFinite(olderThanDays) || olderThanDays < 0) {
+    return res.status(400).json({
+      error: "Invalid olderThanDays",
+      message: "olderThanDays must be a number of days (0 or more)",
+    });
+  }
+
+  try {
+    const result = await deleteStalePolygons({ olderThanDays, dryRun: body.dryRun === true });
+    return res.json({ dryRun: body.dryRun === true, olderThanDays, ...result, quota: await getQuotaUsage() });
+  } catch (error) {
+    return sendError(res, error, "Failed to clean up polygons");
+  }
+};
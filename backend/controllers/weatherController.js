@@ -0,0 +1,98 @@
+/**
+ * Weather Controller
+ * Current weather and 5-day forecast for a polygon, passed through from the provider,
+ * and accumulated degree days / precipitation for a field
+ */
+
+import { setCacheHeaders } from "../services/cache.js";
+import { getProvider } from "../providers/index.js";
+import { fetchCurrentWeather, fetchWeatherForecast } from "../services/weather.js";
+import { fetchAccumulated } from "../services/accumulated.js";
+import { getField } from "../store/fieldStore.js";
+import { parseTimeWindow } from "../utils/timeWindow.js";
+
+// Weather history is read in one request, so keep windows to a year
+const MAX_ACCUMULATED_SECONDS = 366 * 24 * 60 * 60;
+const DEFAULT_BASE_C = 10;
+
+// Shared by both endpoints: relay upstream errors with their status, everything else is a 500
+async function sendWeather(res, label, load) {
+  if (!getProvider().isConfigured()) {
+    console.error("API_KEY is not set in environment variables");
+    return res.status(500).json({ error: "Server configuration error: API_KEY not found" });
+  }
+
+  try {
+    const result = await load();
+    console.log(`${label} (cache ${result.cache})`);
+    setCacheHeaders(res, result);
+    return res.json(result.value);
+  } catch (error) {
+    if (error.status) {
+      console.error(`${label} API error:`, error.details);
+      return res.status(error.status).json({ error: `Failed to fetch ${label.toLowerCase()}`, details: error.details });
+    }
+    console.error(`Error fetching ${label.toLowerCase()}:`, error);
+    return res.status(500).json({ error: "Server error", message: error.message });
+  }
+}
+
+// GRABBING THE CURRENT WEATHER
+export const getCurrentWeather = async (req, res) =>
+  sendWeather(res, "Weather", () => fetchCurrentWeather(req.params.polyid));
+
+// GRABBING THE FORECAST
+export const getWeatherForecast = async (req, res) =>
+  sendWeather(res, "Weather forecast", () => fetchWeatherForecast(req.params.polyid));
+
+// ACCUMULATING DEGREE DAYS AND PRECIPITATION
+export const getAccumulated = async (req, res) => {
+  const { id } = req.params;
+
+  let window;
+  try {
+    window = parseTimeWindow(req.query, "90d", { maxSeconds: MAX_ACCUMULATED_SECONDS });
+  } catch (validationError) {
+    return res.status(400).json({ error: "Invalid time window", message: validationError.message });
+  }
+
+  const base = req.query.base === undefined ? DEFAULT_BASE_C : Number(req.query.base);
+  if (req.query.base === "" || !Number.isFinite(base) || base < -10 || base > 30) {
+    return res.status(400).json({ error: "Invalid base temperature", message: "`base` must be a number of °C between -10 and 30" });
+  }
+
+  const field = getField(id);
+  if (!field) {
+    return res.status(404).json({ error: "Field not found", message: `No field with id ${id}` });
+  }
+  if (!field.polyid) {
+    return res.status(409).json({ error: "Field has no polygon", message: "Create the field's polygon before asking for weather history" });
+  }
+
+  if (!getProvider().isConfigured()) {
+    console.error("API_KEY is not set in environment variables");
+    return res.status(500).json({ error: "Server configuration error: API_KEY not found" });
+  }
+
+  try {
+    const result = await fetchAccumulated(field.polyid, window, base);
+    console.log(`Accumulated weather for field ${id}: ${result.totals.gdd} GDD, ${result.totals.precipitation} mm (cache ${result.cache})`);
+    setCacheHeaders(res, result);
+    return res.json({
+      fieldId: field.id,
+      polyid: field.polyid,
+      start: result.window.start,
+      end: result.window.end,
+      base,
+      days: result.days,
+      totals: result.totals,
+    });
+  } catch (error) {
+    if (error.status) {
+      console.error("Weather history API error:", error.details);
+      return res.status(error.status).json({ error: "Failed to fetch weather history", details: error.details });
+    }
+    console.error("Error accumulating weather:", error);
+    return res.status(500).json({ error: "Server error", message: error.message });
+  }
+};
@@ -0,0 +1,93 @@
+/**
+ * Gemini LLM Provider
+ * Google Gemini through @google/generative-ai - requires GEMINI_API_KEY
+ */
+
+import { GoogleGenerativeAI } from "@google/generative-ai";
+
+// Tried in order when the configured model does not exist (anymore)
+const ALTERNATIVE_MODELS = [
+  "gemini-2.5-flash",        // Latest model (2025) - most likely to work
+  "gemini-2.0-flash-exp",    // Experimental 2.0 model
+  "gemini-1.5-flash",        // Fallback to 1.5 flash
+  "gemini-1.5-pro",          // Fallback to 1.5 pro
+  "gemini-1.5-flash-latest", // Latest 1.5 flash
+  "gemini-1.5-pro-latest",   // Latest 1.5 pro
+  "gemini-pro"               // Legacy model (unlikely to work)
+];
+
+const isModelNotFound = (error) =>
+  !!error.message && (error.message.includes("not found") || error.message.includes("404") || error.status === 404);
+
+/**
+ * Create the Gemini provider
+ * @param {object} options
+ * @param {string} options.apiKey - Gemini API key
+ * @param {string} [options.model] - Preferred model (default gemini-2.5-flash)
+ * @returns {object} LLM provider
+ */
+export function createGeminiProvider({ apiKey, model }) {
+  const genAI = apiKey ? new GoogleGenerativeAI(apiKey) : null;
+  // The model that last worked; starts at the configured one
+  let modelName = model || "gemini-2.5-flash";
+  // Models without JSON mode get the schema in the prompt only
+  let jsonMode = true;
+
+  async function generate(name, prompt, schema) {
+    try {
+      const generativeModel = genAI.getGenerativeModel({
+        model: name,
+        ...(jsonMode ? { generationConfig: { responseMimeType: "application/json", responseSchema: schema } } : {}),
+      });
+      const result = await generativeModel.generateContent(prompt);
+      const response = await result.response;
+      return response.text();
+    } catch (modeError) {
+      const message = modeError.message || "";
+      if (jsonMode && /response_mime_type|response_schema|responseSchema|JSON mode/i.test(message)) {
+        console.warn(`Model ${name} does not support JSON mode, retrying with the schema in the prompt only`);
+        jsonMode = false;
+        return generate(name, prompt, schema);
+      }
+      throw modeError;
+    }
+  }
+
+  return {
+    name: "gemini",
+    label: "Gemini AI",
+
+    get model() {
+      return modelName;
+    },
+
+    isConfigured: () => !!apiKey,
+
+    async generateJson(prompt, { schema }) {
+      console.log(`Attempting to use Gemini model: ${modelName}`);
+      try {
+        const text = await generate(modelName, prompt, schema);
+        return { text, model: modelName };
+      } catch (apiError) {
+        console.error(`✗ Error with model ${modelName}:`, apiError.message);
+        // Non-404 errors (auth, rate limit, etc.) are not fixed by another model
+        if (!isModelNotFound(apiError)) throw apiError;
+
+        console.warn("Model not found, trying alternative models...");
+        for (const altModelName of ALTERNATIVE_MODELS.filter((m) => m !== modelName)) {
+          try {
+            console.log(`Trying alternative model: ${altModelName}`);
+            const text = await generate(altModelName, prompt, schema);
+            modelName = altModelName;
+            console.log(`✓ Success with model ${modelName}`);
+            return { text, model: modelName };
+          } catch (altError) {
+            console.warn(`✗ Model ${altModelName} also failed:`, altError.message);
+          }
+        }
+
+        throw new Error(`All Gemini models failed. Original error: ${apiError.message}. Please verify your GEMINI_API_KEY and check available models.`);
+      }
+    },
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * LLM Provider Selection
+ *
+ * Every provider implements the same interface:
+ * - name: string
+ * - label: string            (shown as Analysis_Source)
+ * - model: string            (model currently in use)
+ * - isConfigured(): boolean
+ * - generateJson(prompt, { schema, input }): Promise<{ text, model }>
+ *     schema = response schema (schemas/analysisSchema.js), input = the data the prompt was built from
+ *
+ * The caller parses and validates the text; providers only ask for JSON as well as they can.
+ *
+ * LLM_PROVIDER=gemini (default), openai (any OpenAI-compatible server) or mock
+ */
+
+import { createGeminiProvider } from "./geminiProvider.js";
+import { createOpenAiCompatibleProvider } from "./openAiCompatibleProvider.js";
+import { createMockProvider } from "./mockProvider.js";
+
+let provider = null;
+
+/**
+ * Get the LLM provider selected by LLM_PROVIDER
+ * Created on first use so the .env file has been loaded by then
+ * @returns {object} LLM provider
+ */
+export function getLlmProvider() {
+  if (provider) return provider;
+
+  const name = (process.env.LLM_PROVIDER || "gemini").toLowerCase();
+
+  switch (name) {
+    case "openai":
+      provider = createOpenAiCompatibleProvider({
+        baseUrl: process.env.LLM_BASE_URL || "http://localhost:11434/v1",
+        model: process.env.LLM_MODEL,
+        apiKey: process.env.LLM_API_KEY,
+        timeoutMs: Number(process.env.LLM_TIMEOUT_MS) || 60000,
+      });
+      break;
+    case "mock":
+      provider = createMockProvider({ responsesFile: process.env.LLM_MOCK_RESPONSES });
+      break;
+    case "gemini":
+      provider = createGeminiProvider({ apiKey: process.env.GEMINI_API_KEY, model: process.env.GEMINI_MODEL });
+      break;
+    default:
+      console.warn(`⚠️  Unknown LLM_PROVIDER "${name}", falling back to gemini`);
+      provider = createGeminiProvider({ apiKey: process.env.GEMINI_API_KEY, model: process.env.GEMINI_MODEL });
+  }
+
+  console.log(`✓ LLM provider: ${provider.name} (${provider.model || "no model set"})`);
+  return provider;
+}
@@ -0,0 +1,48 @@
+/**
+ * Mock LLM Provider
+ * Deterministic stand-in for tests and offline development - no model or network needed.
+ *
+ * By default it answers with the rule engine's analysis of the same input, so results are
+ * plausible and repeatable. A responses file (JSON array) can script the answers instead:
+ * each call takes the next entry (strings are returned as-is, objects as JSON), which makes it
+ * easy to exercise invalid output and the corrective re-prompt.
+ */
+
+import fs from "fs";
+import { analyzeWithRules } from "../services/ruleEngine.js";
+
+/**
+ * Create the mock provider
+ * @param {object} [options]
+ * @param {string} [options.responsesFile] - JSON array of scripted responses
+ * @returns {object} LLM provider
+ */
+export function createMockProvider({ responsesFile } = {}) {
+  let scripted = [];
+  if (responsesFile) {
+    try {
+      scripted = JSON.parse(fs.readFileSync(responsesFile, "utf8"));
+    } catch (error) {
+      console.error(`⚠️  Could not read mock LLM responses from ${responsesFile}:`, error.message);
+    }
+  }
+  let callCount = 0;
+
+  return {
+    name: "mock",
+    label: "Mock LLM",
+    model: "mock-rule-engine",
+
+    isConfigured: () => true,
+
+    async generateJson(prompt, { input }) {
+      const next = scripted[callCount++];
+      if (next !== undefined) {
+        return { text: typeof next === "string" ? next : JSON.stringify(next), model: "mock-scripted" };
+      }
+
+      const { Score_Breakdown, ...analysis } = analyzeWithRules(input || {});
+      return { text: JSON.stringify(analysis), model: "mock-rule-engine" };
+    },
+  };
+}
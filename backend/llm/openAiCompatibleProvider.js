@@ -0,0 +1,93 @@
+/**
+ * OpenAI-Compatible LLM Provider
+ * Any server speaking the OpenAI chat completions API: a local llama.cpp server,
+ * Ollama, vLLM, LM Studio or OpenAI itself
+ */
+
+import fetch from "node-fetch";
+
+/**
+ * Turn a Gemini-style response schema into plain JSON Schema
+ * (drops format: "enum" and forbids extra properties, as strict mode requires)
+ */
+function toJsonSchema(schema) {
+  const { format, properties, items, ...rest } = schema;
+  const converted = { ...rest };
+  if (format && format !== "enum") converted.format = format;
+  if (properties) {
+    converted.properties = Object.fromEntries(
+      Object.entries(properties).map(([key, child]) => [key, toJsonSchema(child)])
+    );
+    converted.additionalProperties = false;
+  }
+  if (items) converted.items = toJsonSchema(items);
+  return converted;
+}
+
+/**
+ * Create the OpenAI-compatible provider
+ * @param {object} options
+ * @param {string} options.baseUrl - API base, e.g. http://localhost:11434/v1
+ * @param {string} options.model - Model name the server knows
+ * @param {string} [options.apiKey] - Sent as a bearer token when set
+ * @param {number} [options.timeoutMs=60000] - Request timeout
+ * @returns {object} LLM provider
+ */
+export function createOpenAiCompatibleProvider({ baseUrl, model, apiKey, timeoutMs = 60000 }) {
+  // Servers that reject json_schema still usually accept json_object
+  let schemaMode = true;
+
+  async function complete(prompt, schema) {
+    const responseFormat = schemaMode
+      ? { type: "json_schema", json_schema: { name: "analysis", strict: true, schema: toJsonSchema(schema) } }
+      : { type: "json_object" };
+
+    const response = await fetch(`${baseUrl.replace(/\/$/, "")}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: "user", content: prompt }],
+        response_format: responseFormat,
+        temperature: 0.2,
+      }),
+      timeout: timeoutMs,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => "");
+      if (schemaMode && response.status === 400) {
+        console.warn(`${model} rejected json_schema output, retrying with json_object`);
+        schemaMode = false;
+        return complete(prompt, schema);
+      }
+      const error = new Error(`LLM request failed (${response.status}): ${errorText.substring(0, 300)}`);
+      error.status = response.status;
+      throw error;
+    }
+
+    const data = await response.json();
+    const text = data.choices?.[0]?.message?.content;
+    if (typeof text !== "string") {
+      throw new Error("LLM response has no message content");
+    }
+    return text;
+  }
+
+  return {
+    name: "openai",
+    label: "OpenAI-compatible LLM",
+    model,
+
+    isConfigured: () => !!baseUrl && !!model,
+
+    async generateJson(prompt, { schema }) {
+      console.log(`Calling OpenAI-compatible model ${model} at ${baseUrl}`);
+      const text = await complete(prompt, schema);
+      return { text, model };
+    },
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * AgroMonitoring Satellite Data Provider
+ * Talks to api.agromonitoring.com - requires API_KEY
+ */
+
+import fetch from "node-fetch";
+import { upstreamError } from "../utils/upstreamError.js";
+
+const BASE_URL = "https://api.agromonitoring.com/agro/1.0";
+
+/**
+ * Create the AgroMonitoring provider
+ * @param {string} apiKey - AgroMonitoring API key
+ * @returns {object} Satellite data provider
+ */
+export function createAgroMonitoringProvider(apiKey) {
+  // GET/POST a JSON endpoint, turning non-2xx responses into upstream errors
+  async function request(endpoint, message, options) {
+    const separator = endpoint.includes("?") ? "&" : "?";
+    const response = await fetch(`${BASE_URL}${endpoint}${separator}appid=${apiKey}`, options);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw upstreamError(message, response.status, errorData);
+    }
+
+    // DELETE answers with an empty body
+    if (response.status === 204) return null;
+
+    return response.json();
+  }
+
+  // Scene image and stats URLs point at api.agromonitoring.com and usually carry the key themselves
+  async function fetchSceneUrl(url, message) {
+    const response = await fetch(url.includes("appid=") ? url : `${url}${url.includes("?") ? "&" : "?"}appid=${apiKey}`);
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw upstreamError(message, response.status, errorData);
+    }
+    return response;
+  }
+
+  return {
+    name: "agromonitoring",
+
+    isConfigured: () => !!apiKey,
+
+    createPolygon(payload) {
+      // Add duplicated=true parameter to allow creating polygons with same coordinates
+      return request("/polygons?duplicated=true", "Failed to create polygon", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+    },
+
+    getSoil(polyid) {
+      return request(`/soil?polyid=${polyid}&duplicated=true`, "Failed to fetch soil data");
+    },
+
+    getNdviHistory(polyid, { start, end }) {
+      return request(
+        `/ndvi/history?start=${start}&end=${end}&polyid=${polyid}`,
+        "Failed to fetch NDVI data"
+      );
+    },
+
+    getPolygon(polyid) {
+      return request(`/polygons/${polyid}`, "Failed to fetch polygon info");
+    },
+
+    listPolygons() {
+      return request("/polygons", "Failed to list polygons");
+    },
+
+    async deletePolygon(polyid) {
+      await request(`/polygons/${polyid}`, "Failed to delete polygon", { method: "DELETE" });
+    },
+
+    getWeather(polyid) {
+      return request(`/weather?polyid=${polyid}`, "Failed to fetch weather");
+    },
+
+    getWeatherForecast(polyid) {
+      return request(`/weather/forecast?polyid=${polyid}`, "Failed to fetch weather forecast");
+    },
+
+    searchImagery(polyid, { start, end }) {
+      return request(`/image/search?start=${start}&end=${end}&polyid=${polyid}`, "Failed to search imagery");
+    },
+
+    async getImage(polyid, scene, layer) {
+      const url = scene.image && scene.image[layer];
+      if (!url) {
+        throw upstreamError("Failed to fetch image", 404, { cod: 404, message: `No ${layer} image for this scene` });
+      }
+      const response = await fetchSceneUrl(url, "Failed to fetch image");
+      return response.buffer();
+    },
+
+    async getIndexStats(polyid, scene, index) {
+      const url = scene.stats && scene.stats[index];
+      if (!url) {
+        throw upstreamError("Failed to fetch index statistics", 404, { cod: 404, message: `No ${index} statistics for this scene` });
+      }
+      const response = await fetchSceneUrl(url, "Failed to fetch index statistics");
+      return response.json();
+    },
+
+    getWeatherHistory(polyid, { start, end }) {
+      return request(
+        `/weather/history?polyid=${polyid}&start=${start}&end=${end}`,
+        "Failed to fetch weather history"
+      );
+    },
+  };
+}
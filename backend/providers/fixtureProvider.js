@@ -0,0 +1,483 @@
+/**
+ * Fixture Satellite Data Provider
+ * Offline stand-in for AgroMonitoring - no API key or network needed
+ *
+ * Recorded responses are read from FIXTURE_DIR/<polyid>/<endpoint>.json when present
+ * (endpoint is one of soil, ndvi, polygon, weather, forecast, history, imagery).
+ * Scene images are rendered on the fly, clipped to the polygon like AgroMonitoring's PNGs, and scene
+ * index statistics are derived from the same mean NDVI. Anything not recorded is
+ * synthesized deterministically from the polyid, the field location and the date, so the
+ * same polygon always gets the same numbers.
+ *
+ * Polygon creation enforces the configured quota and fails the way
+ * AgroMonitoring does, so quota handling can be exercised offline.
+ */
+
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { fileURLToPath } from "url";
+import { createCollection } from "../store/jsonStore.js";
+import { ringAreaSquareMeters, ringCenter, ringBbox, pointInRing } from "../utils/geometry.js";
+import { upstreamError } from "../utils/upstreamError.js";
+import { encodePng } from "../utils/png.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const HOUR = 60 * 60;
+const DAY = 24 * HOUR;
+const KELVIN = 273.15;
+
+// Polygons "created" through the fixture provider survive restarts like real ones
+const fixturePolygons = createCollection("fixture-polygons");
+
+// Small deterministic PRNG (mulberry32) seeded from a string
+function seededRandom(...parts) {
+  const hash = crypto.createHash("sha1").update(parts.join(":")).digest();
+  let state = hash.readUInt32LE(0);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const round = (value, digits) => Number(value.toFixed(digits));
+
+// Longest side of a rendered scene image, in pixels
+const IMAGE_SIZE = 256;
+
+// NDVI color ramp: bare soil (brown) through sparse (yellow) to dense vegetation (dark green)
+const NDVI_RAMP = [
+  [0.0, [165, 0, 38]],
+  [0.2, [244, 109, 67]],
+  [0.4, [254, 224, 139]],
+  [0.6, [166, 217, 106]],
+  [0.8, [26, 152, 80]],
+  [1.0, [0, 104, 55]],
+];
+
+function rampColor(value) {
+  const v = Math.min(1, Math.max(0, value));
+  for (let i = 1; i < NDVI_RAMP.length; i++) {
+    const [stop, color] = NDVI_RAMP[i];
+    if (v <= stop) {
+      const [prevStop, prevColor] = NDVI_RAMP[i - 1];
+      const t = (v - prevStop) / (stop - prevStop);
+      return prevColor.map((c, k) => Math.round(c + (color[k] - c) * t));
+    }
+  }
+  return NDVI_RAMP[NDVI_RAMP.length - 1][1];
+}
+
+// 0 at the coldest point of the year, 1 at the warmest (flipped for the southern hemisphere)
+function seasonFactor(dt, lat) {
+  const dayOfYear = (new Date(dt * 1000) - new Date(Date.UTC(new Date(dt * 1000).getUTCFullYear(), 0, 1))) / 1000 / DAY;
+  // Northern hemisphere peaks around July 20th (day ~200)
+  const phase = Math.cos(((dayOfYear - 200) / 365) * 2 * Math.PI);
+  return lat >= 0 ? (phase + 1) / 2 : (1 - phase) / 2;
+}
+
+// Daily mean air temperature (°C): annual mean falls off with latitude, seasonal swing grows with it
+function seasonalAirTemperature(dt, lat) {
+  const annualMean = 27 - 0.45 * Math.abs(lat);
+  const swing = 2 + 0.35 * Math.abs(lat);
+  return annualMean + swing * (seasonFactor(dt, lat) - 0.5) * 2;
+}
+
+/**
+ * Create the fixture provider
+ * @param {object} [options]
+ * @param {string} [options.dir] - Directory with recorded responses
+ * @param {object} [options.quota] - { areaHectares, count } account limits to enforce
+ * @returns {object} Satellite data provider
+ */
+export function createFixtureProvider({ dir, quota } = {}) {
+  const fixtureDir = dir || path.join(__dirname, "..", "fixtures");
+
+  // polyid comes from the URL: anything but a plain id could climb out of the fixture directory
+  const SAFE_POLYID = /^[\w-]+$/;
+
+  function readRecorded(polyid, endpoint) {
+    if (typeof polyid !== "string" || !SAFE_POLYID.test(polyid)) return null;
+    try {
+      return JSON.parse(fs.readFileSync(path.join(fixtureDir, polyid, `${endpoint}.json`), "utf8"));
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // Location drives the synthetic climate; unknown polygons get a mid-latitude default ([lon, lat])
+  function centerOf(polyid) {
+    const polygon = fixturePolygons.find((p) => p.polyid === polyid);
+    return polygon ? polygon.center : [-79.38, 43.65];
+  }
+
+  const latitudeOf = (polyid) => centerOf(polyid)[1];
+
+  function synthesizeSoil(polyid, dt) {
+    const lat = latitudeOf(polyid);
+    const random = seededRandom(polyid, "soil", Math.floor(dt / (DAY / 2)));
+    const fieldRandom = seededRandom(polyid, "field");
+
+    const annualMean = 27 - 0.45 * Math.abs(lat);
+    const air = seasonalAirTemperature(dt, lat);
+
+    const surface = air + (random() - 0.5) * 4;
+    // Deeper soil lags behind and is damped towards the annual mean
+    const depth10 = annualMean + (air - annualMean) * 0.8 + (random() - 0.5) * 1.5;
+    const baseMoisture = 0.12 + fieldRandom() * 0.25;
+    const moisture = Math.min(0.5, Math.max(0.03, baseMoisture + (random() - 0.5) * 0.06));
+
+    return {
+      dt,
+      t10: round(depth10 + KELVIN, 3),
+      moisture: round(moisture, 3),
+      t0: round(surface + KELVIN, 3),
+    };
+  }
+
+  function synthesizeNdviEntry(polyid, dt, lat) {
+    const random = seededRandom(polyid, "ndvi", dt);
+    const fieldRandom = seededRandom(polyid, "field");
+    fieldRandom(); // first draw is used for moisture
+
+    // Peak greenness of the field, scaled by how far into the growing season we are
+    const peak = 0.35 + fieldRandom() * 0.5;
+    const mean = Math.min(0.95, Math.max(0.02, 0.08 + (peak - 0.08) * seasonFactor(dt, lat) + (random() - 0.5) * 0.05));
+    const std = 0.03 + random() * 0.07;
+
+    return {
+      dt,
+      source: "s2",
+      zoom: 14,
+      dc: round(80 + random() * 20, 2),
+      cl: round(random() * 20, 2),
+      data: {
+        std: round(std, 6),
+        p25: round(mean - std * 0.67, 6),
+        num: 300 + Math.floor(random() * 2000),
+        min: round(Math.max(-1, mean - std * 3), 6),
+        max: round(Math.min(1, mean + std * 3), 6),
+        median: round(mean + (random() - 0.5) * 0.01, 6),
+        p75: round(mean + std * 0.67, 6),
+        mean: round(mean, 6),
+      },
+    };
+  }
+
+  // Satellite scenes: one Sentinel-2 pass every 5 days at 10:30 UTC, cloudy ones included
+  function synthesizeScenes(polyid, { start, end }) {
+    const lat = latitudeOf(polyid);
+    const scenes = [];
+    const firstPass = Math.ceil((start - 37800) / (5 * DAY)) * (5 * DAY) + 37800;
+    for (let dt = firstPass; dt <= end; dt += 5 * DAY) {
+      const cloudy = seededRandom(polyid, "cloud", dt)() < 0.3;
+      const entry = synthesizeNdviEntry(polyid, dt, lat);
+      const cloudCover = cloudy ? round(60 + seededRandom(polyid, "cloud-cover", dt)() * 40, 2) : entry.cl;
+      scenes.push({
+        dt,
+        type: "Sentinel-2",
+        dc: entry.dc,
+        cl: cloudCover,
+        image: {
+          truecolor: `fixture://${polyid}/${dt}/truecolor`,
+          ndvi: `fixture://${polyid}/${dt}/ndvi`,
+        },
+        // Same indices as AgroMonitoring publishes stats for (no SAVI)
+        stats: Object.fromEntries(
+          ["ndvi", "evi", "evi2", "ndwi"].map((index) => [index, `fixture://${polyid}/${dt}/stats/${index}`])
+        ),
+        // Mean NDVI the image is rendered around
+        fixture: { mean: entry.data.mean, std: entry.data.std, cloudy },
+      });
+    }
+    return scenes;
+  }
+
+  // Render a scene layer as a PNG over the polygon's bounding box, transparent outside the polygon
+  function renderScene(polyid, scene, layer) {
+    const polygon = fixturePolygons.find((p) => p.polyid === polyid);
+    if (!polygon) {
+      throw upstreamError("Failed to fetch image", 404, { cod: 404, message: "Polygon not found" });
+    }
+    const ring = polygon.response.geo_json.geometry.coordinates[0];
+    const [minLon, minLat, maxLon, maxLat] = ringBbox(ring);
+
+    // Keep the aspect ratio of the ground, not of the degrees
+    const ratio = ((maxLon - minLon) * Math.cos((((minLat + maxLat) / 2) * Math.PI) / 180)) / (maxLat - minLat);
+    const width = Math.max(1, Math.round(ratio >= 1 ? IMAGE_SIZE : IMAGE_SIZE * ratio));
+    const height = Math.max(1, Math.round(ratio >= 1 ? IMAGE_SIZE / ratio : IMAGE_SIZE));
+
+    // Smooth in-field pattern, fixed per field: a few waves with field-specific direction and phase
+    const fieldRandom = seededRandom(polyid, "pattern");
+    const waves = Array.from({ length: 3 }, () => ({
+      fx: 2 + fieldRandom() * 6,
+      fy: 2 + fieldRandom() * 6,
+      phase: fieldRandom() * 2 * Math.PI,
+    }));
+    const { mean, std, cloudy } = scene.fixture || { mean: 0.5, std: 0.05, cloudy: false };
+
+    const pixels = new Uint8Array(width * height * 4);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const lon = minLon + ((x + 0.5) / width) * (maxLon - minLon);
+        const lat = maxLat - ((y + 0.5) / height) * (maxLat - minLat);
+        if (!pointInRing([lon, lat], ring)) continue;
+
+        const u = x / width;
+        const v = y / height;
+        const pattern = waves.reduce((sum, w) => sum + Math.sin(w.fx * u + w.fy * v + w.phase), 0) / waves.length;
+        const ndvi = mean + pattern * std * 2;
+
+        let color;
+        if (cloudy && pattern > -0.2) {
+          color = [235, 235, 240]; // clouds cover most of the field
+        } else if (layer === "ndvi") {
+          color = rampColor(ndvi);
+        } else {
+          // True color: brown soil blending into green canopy
+          const green = Math.min(1, Math.max(0, (ndvi - 0.1) / 0.7));
+          color = [Math.round(140 - 90 * green), Math.round(110 + 20 * green), Math.round(80 - 40 * green)];
+        }
+
+        const i = (y * width + x) * 4;
+        pixels[i] = color[0];
+        pixels[i + 1] = color[1];
+        pixels[i + 2] = color[2];
+        pixels[i + 3] = 255;
+      }
+    }
+    return encodePng(width, height, pixels);
+  }
+
+  // Index statistics of a scene, from band reflectances consistent with its mean NDVI
+  function synthesizeIndexStats(polyid, scene, index) {
+    const { mean: ndvi, std } = scene.fixture || { mean: 0.5, std: 0.05 };
+    const random = seededRandom(polyid, "stats", scene.dt, index);
+    const fieldMoisture = 0.12 + seededRandom(polyid, "field")() * 0.25;
+
+    // Red drops and near infrared rises as the canopy closes
+    const red = 0.04 + 0.12 * (1 - ndvi);
+    const nir = (red * (1 + ndvi)) / (1 - ndvi);
+    const blue = 0.6 * red + 0.01;
+    // Wetter fields keep more water in the canopy, which lowers short-wave infrared
+    const ndwiTarget = ndvi * 0.6 - 0.15 + (fieldMoisture - 0.25) * 0.8;
+    const swir = (nir * (1 - ndwiTarget)) / (1 + ndwiTarget);
+
+    const values = {
+      ndvi: { value: ndvi, spread: 1 },
+      evi: { value: (2.5 * (nir - red)) / (nir + 6 * red - 7.5 * blue + 1), spread: 1.2 },
+      evi2: { value: (2.5 * (nir - red)) / (nir + 2.4 * red + 1), spread: 1.1 },
+      ndwi: { value: (nir - swir) / (nir + swir), spread: 0.9 },
+    };
+    const { value, spread } = values[index];
+    const mean = value + (random() - 0.5) * 0.01;
+    const indexStd = std * spread;
+
+    return {
+      std: round(indexStd, 6),
+      p25: round(mean - indexStd * 0.67, 6),
+      num: 300 + Math.floor(random() * 2000),
+      min: round(Math.max(-1, mean - indexStd * 3), 6),
+      max: round(Math.min(1, mean + indexStd * 3), 6),
+      median: round(mean + (random() - 0.5) * 0.01, 6),
+      p75: round(mean + indexStd * 0.67, 6),
+      mean: round(mean, 6),
+    };
+  }
+
+  // One weather observation in the AgroMonitoring format (temperatures in Kelvin)
+  function synthesizeWeather(polyid, dt) {
+    const [lon, lat] = centerOf(polyid);
+    const random = seededRandom(polyid, "weather", Math.floor(dt / (3 * HOUR)));
+    // Day-to-day variation shared by every reading of the same day
+    const dayRandom = seededRandom(polyid, "weather-day", Math.floor(dt / DAY));
+
+    // Warmest around 15:00 local solar time, coldest around 03:00
+    const localHour = (((dt / HOUR + lon / 15) % 24) + 24) % 24;
+    const diurnal = 5 * Math.cos(((localHour - 15) / 24) * 2 * Math.PI);
+    const temp = seasonalAirTemperature(dt, lat) + (dayRandom() - 0.5) * 6 + diurnal;
+
+    const wetDay = dayRandom() < 0.35;
+    const raining = wetDay && random() < 0.5;
+    const rain = raining ? round(0.1 + random() ** 3 * 4, 2) : 0;
+    const clouds = Math.round(wetDay ? 60 + random() * 40 : random() * 60);
+    const humidity = Math.round(Math.min(100, (wetDay ? 75 : 45) + random() * 20 - diurnal * 2));
+
+    let description = clouds > 85 ? "overcast clouds" : clouds > 50 ? "broken clouds" : clouds > 20 ? "scattered clouds" : "clear sky";
+    if (raining) description = rain > 4 ? "moderate rain" : "light rain";
+
+    return {
+      dt,
+      weather: [{ id: raining ? 500 : 800, main: raining ? "Rain" : clouds > 20 ? "Clouds" : "Clear", description }],
+      main: {
+        temp: round(temp + KELVIN, 2),
+        feels_like: round(temp - 1 + KELVIN, 2),
+        temp_min: round(temp - 1.5 + KELVIN, 2),
+        temp_max: round(temp + 1.5 + KELVIN, 2),
+        pressure: Math.round(1013 + (dayRandom() - 0.5) * 30 - (wetDay ? 8 : 0)),
+        humidity,
+      },
+      wind: { speed: round(0.5 + random() * 7, 2), deg: Math.floor(random() * 360) },
+      clouds: { all: clouds },
+      ...(raining ? { rain: { "3h": rain } } : {}),
+    };
+  }
+
+  return {
+    name: "fixture",
+
+    isConfigured: () => true,
+
+    async createPolygon(payload) {
+      const geometry = payload.geo_json.geometry;
+      const ring = geometry.coordinates[0];
+      // Same geometry always gets the same 24-hex id, like a real AgroMonitoring id
+      const polyid = crypto.createHash("sha1").update(JSON.stringify(ring)).digest("hex").slice(0, 24);
+
+      const existing = fixturePolygons.find((p) => p.polyid === polyid);
+      if (existing) {
+        return existing.response;
+      }
+
+      const area = round(ringAreaSquareMeters(ring) / 10000, 4); // hectares, as AgroMonitoring reports it
+
+      if (quota) {
+        const all = fixturePolygons.list();
+        const usedArea = all.reduce((sum, p) => sum + p.response.area, 0);
+        if (usedArea + area > quota.areaHectares || (quota.count && all.length >= quota.count)) {
+          throw upstreamError("Failed to create polygon", 422, {
+            cod: 422,
+            message: `Your account limits have been exceeded, can not create polygons. Used ${round(usedArea, 2)} of ${quota.areaHectares} ha`,
+          });
+        }
+      }
+
+      const response = {
+        id: polyid,
+        geo_json: payload.geo_json,
+        name: payload.name,
+        center: ringCenter(ring),
+        area,
+        user_id: "fixture",
+        created_at: Math.floor(Date.now() / 1000),
+      };
+      fixturePolygons.insert({ polyid, center: response.center, response });
+      console.log("Fixture polygon created:", polyid);
+      return response;
+    },
+
+    async getSoil(polyid) {
+      const recorded = readRecorded(polyid, "soil");
+      if (recorded) return recorded;
+
+      // Soil data is published twice a day
+      const now = Math.floor(Date.now() / 1000);
+      return synthesizeSoil(polyid, Math.floor(now / (DAY / 2)) * (DAY / 2));
+    },
+
+    async getNdviHistory(polyid, { start, end }) {
+      const recorded = readRecorded(polyid, "ndvi");
+      if (recorded) {
+        return recorded.filter((entry) => entry.dt >= start && entry.dt <= end);
+      }
+
+      // One Sentinel-2 pass every 5 days at 10:30 UTC; cloudy passes produce no entry
+      const lat = latitudeOf(polyid);
+      const entries = [];
+      const firstPass = Math.ceil(start / (5 * DAY)) * (5 * DAY) + 37800;
+      for (let dt = firstPass; dt <= end; dt += 5 * DAY) {
+        if (seededRandom(polyid, "cloud", dt)() < 0.3) continue;
+        entries.push(synthesizeNdviEntry(polyid, dt, lat));
+      }
+      return entries;
+    },
+
+    async getPolygon(polyid) {
+      const recorded = readRecorded(polyid, "polygon");
+      if (recorded) return recorded;
+
+      const polygon = fixturePolygons.find((p) => p.polyid === polyid);
+      if (!polygon) {
+        throw upstreamError("Failed to fetch polygon info", 404, { cod: 404, message: "Polygon not found" });
+      }
+      return polygon.response;
+    },
+
+    async listPolygons() {
+      return fixturePolygons.list().map((p) => {
+        const { geo_json, ...summary } = p.response;
+        return summary;
+      });
+    },
+
+    async deletePolygon(polyid) {
+      const polygon = fixturePolygons.find((p) => p.polyid === polyid);
+      if (!polygon) {
+        throw upstreamError("Failed to delete polygon", 404, { cod: 404, message: "Polygon not found" });
+      }
+      fixturePolygons.remove(polygon.id);
+    },
+
+    async getWeather(polyid) {
+      const recorded = readRecorded(polyid, "weather");
+      if (recorded) return recorded;
+
+      // Observations update every 10 minutes
+      const now = Math.floor(Date.now() / 1000);
+      return synthesizeWeather(polyid, Math.floor(now / 600) * 600);
+    },
+
+    async getWeatherForecast(polyid) {
+      const recorded = readRecorded(polyid, "forecast");
+      if (recorded) return recorded;
+
+      // 5 days in 3-hour steps, starting at the next full step
+      const now = Math.floor(Date.now() / 1000);
+      const first = Math.ceil(now / (3 * HOUR)) * (3 * HOUR);
+      return Array.from({ length: 40 }, (_, i) => synthesizeWeather(polyid, first + i * 3 * HOUR));
+    },
+
+    async searchImagery(polyid, { start, end }) {
+      const recorded = readRecorded(polyid, "imagery");
+      if (recorded) {
+        return recorded.filter((scene) => scene.dt >= start && scene.dt <= end);
+      }
+      return synthesizeScenes(polyid, { start, end: Math.min(end, Math.floor(Date.now() / 1000)) });
+    },
+
+    async getImage(polyid, scene, layer) {
+      const url = scene.image && scene.image[layer];
+      if (!url || !url.startsWith("fixture://")) {
+        throw upstreamError("Failed to fetch image", 404, { cod: 404, message: `No ${layer} image for this scene` });
+      }
+      return renderScene(polyid, scene, layer);
+    },
+
+    async getIndexStats(polyid, scene, index) {
+      const url = scene.stats && scene.stats[index];
+      if (!url || !url.startsWith("fixture://")) {
+        throw upstreamError("Failed to fetch index statistics", 404, { cod: 404, message: `No ${index} statistics for this scene` });
+      }
+      return synthesizeIndexStats(polyid, scene, index);
+    },
+
+    async getWeatherHistory(polyid, { start, end }) {
+      const recorded = readRecorded(polyid, "history");
+      if (recorded) {
+        return recorded.filter((entry) => entry.dt >= start && entry.dt <= end);
+      }
+
+      // 3-hourly observations (rain per 3h) - nothing from the future
+      const now = Math.floor(Date.now() / 1000);
+      const entries = [];
+      for (let dt = Math.ceil(start / (3 * HOUR)) * (3 * HOUR); dt <= Math.min(end, now); dt += 3 * HOUR) {
+        entries.push(synthesizeWeather(polyid, dt));
+      }
+      return entries;
+    },
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * Satellite Data Provider Selection
+ *
+ * Every provider implements the same interface:
+ * - name: string
+ * - isConfigured(): boolean
+ * - createPolygon(payload): Promise<{ id, geo_json, name, center, area }>   (payload = { name, geo_json })
+ * - getSoil(polyid): Promise<{ dt, t0, t10, moisture }>   (deeper readings such as t100 are kept when a source has them)
+ * - getNdviHistory(polyid, { start, end }): Promise<Array<{ dt, data: { mean, median, min, max, std, ... } }>>
+ * - getPolygon(polyid): Promise<{ id, geo_json, center, area }>
+ * - listPolygons(): Promise<Array<{ id, name, center, area, created_at }>>   (area in hectares)
+ * - deletePolygon(polyid): Promise<void>
+ * - getWeather(polyid): Promise<{ dt, weather: [{ main, description }], main: { temp, humidity, pressure, ... }, wind, clouds, rain? }>
+ * - getWeatherForecast(polyid): Promise<Array<same as getWeather>>   (3-hourly, 5 days; temperatures in Kelvin)
+ * - getWeatherHistory(polyid, { start, end }): Promise<Array<same as getWeather>>   (past observations, oldest first)
+ * - searchImagery(polyid, { start, end }): Promise<Array<{ dt, type, dc, cl, image: { truecolor, ndvi, ... }, stats: { ndvi, evi, evi2, ndwi, ... } }>>
+ * - getImage(polyid, scene, layer): Promise<Buffer>   (PNG of one scene layer, clipped to the polygon)
+ * - getIndexStats(polyid, scene, index): Promise<{ mean, median, min, max, std, p25, p75, num }>   (one index over the polygon in one scene)
+ *
+ * Failed upstream calls reject with an upstreamError (error.status + error.details).
+ *
+ * SATELLITE_PROVIDER=agromonitoring (default) or fixture
+ */
+
+import { createAgroMonitoringProvider } from "./agroMonitoringProvider.js";
+import { createFixtureProvider } from "./fixtureProvider.js";
+
+let provider = null;
+
+/**
+ * Get the provider selected by SATELLITE_PROVIDER
+ * Created on first use so the .env file has been loaded by then
+ * @returns {object} Satellite data provider
+ */
+export function getProvider() {
+  if (provider) return provider;
+
+  const name = (process.env.SATELLITE_PROVIDER || "agromonitoring").toLowerCase();
+
+  switch (name) {
+    case "fixture":
+      provider = createFixtureProvider({ dir: process.env.FIXTURE_DIR, quota: getPolygonQuotaLimits() });
+      break;
+    case "agromonitoring":
+      provider = createAgroMonitoringProvider(process.env.API_KEY);
+      break;
+    default:
+      console.warn(`⚠️  Unknown SATELLITE_PROVIDER "${name}", falling back to agromonitoring`);
+      provider = createAgroMonitoringProvider(process.env.API_KEY);
+  }
+
+  console.log(`✓ Satellite data provider: ${provider.name}`);
+  return provider;
+}
+
+/**
+ * Polygon limits of the account, from POLYGON_QUOTA_HECTARES / POLYGON_QUOTA_COUNT
+ * AgroMonitoring does not report them, so they have to match the account's plan
+ * @returns {object} { areaHectares, count } - count is null when polygons are not capped by number
+ */
+export function getPolygonQuotaLimits() {
+  return {
+    areaHectares: Number(process.env.POLYGON_QUOTA_HECTARES) || 1000,
+    count: Number(process.env.POLYGON_QUOTA_COUNT) || null,
+  };
+}
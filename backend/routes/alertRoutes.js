@@ -0,0 +1,18 @@
+// routes/alertRoutes.js
+import express from "express";
+import {
+  getAlertRules,
+  postAlertRule,
+  patchAlertRule,
+  removeAlertRule,
+  getAlerts,
+} from "../controllers/alertController.js";
+
+const router = express.Router();
+router.get("/fields/:id/alert-rules", getAlertRules);
+router.post("/fields/:id/alert-rules", postAlertRule);
+router.patch("/fields/:id/alert-rules/:ruleId", patchAlertRule);
+router.delete("/fields/:id/alert-rules/:ruleId", removeAlertRule);
+router.get("/alerts", getAlerts);
+
+export default router;
@@ -0,0 +1,11 @@
+// routes/analysisRoutes.js
+import express from "express";
+import { getFieldAnalyses, getAnalysisById } from "../controllers/analysisHistoryController.js";
+import { getFieldAnalysesExport } from "../controllers/fieldExportController.js";
+
+const router = express.Router();
+router.get("/fields/:id/analyses", getFieldAnalyses);
+router.get("/fields/:id/analyses/export", getFieldAnalysesExport);
+router.get("/analyses/:id", getAnalysisById);
+
+export default router;
@@ -0,0 +1,8 @@
+// routes/comparisonRoutes.js
+import express from "express";
+import { postFieldComparison } from "../controllers/comparisonController.js";
+
+const router = express.Router();
+router.post("/fields/:id/compare", postFieldComparison);
+
+export default router;
@@ -0,0 +1,8 @@
+// routes/cropRoutes.js
+import express from "express";
+import { getFieldSuitability } from "../controllers/cropController.js";
+
+const router = express.Router();
+router.get("/fields/:id/suitability", getFieldSuitability);
+
+export default router;
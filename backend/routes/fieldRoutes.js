@@ -0,0 +1,23 @@
+// routes/fieldRoutes.js
+import express from "express";
+import {
+  getFields,
+  getFieldById,
+  postField,
+  patchField,
+  removeField,
+} from "../controllers/fieldController.js";
+import { postFieldImport, fieldImportBodyError } from "../controllers/fieldImportController.js";
+import { getFieldsExport } from "../controllers/fieldExportController.js";
+
+const router = express.Router();
+router.get("/fields", getFields);
+router.get("/fields/export", getFieldsExport);
+router.post("/fields", postField);
+// Raw body whatever the Content-Type: GeoJSON, KML or a zip archive of up to 25 MB
+router.post("/fields/import", express.raw({ type: () => true, limit: "25mb" }), postFieldImport, fieldImportBodyError);
+router.get("/fields/:id", getFieldById);
+router.patch("/fields/:id", patchField);
+router.delete("/fields/:id", removeField);
+
+export default router;
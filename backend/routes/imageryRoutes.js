@@ -0,0 +1,9 @@
+// routes/imageryRoutes.js
+import express from "express";
+import { getScenes, getSceneImage } from "../controllers/imageryController.js";
+
+const router = express.Router();
+router.get("/imagery/:polyid", getScenes);
+router.get("/imagery/:polyid/:sceneId/:layer", getSceneImage);
+
+export default router;
@@ -0,0 +1,8 @@
+// routes/irrigationRoutes.js
+import express from "express";
+import { getIrrigation } from "../controllers/irrigationController.js";
+
+const router = express.Router();
+router.get("/irrigation/:polyid", getIrrigation);
+
+export default router;
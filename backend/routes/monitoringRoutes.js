@@ -0,0 +1,16 @@
+// routes/monitoringRoutes.js
+import express from "express";
+import {
+  getFieldMonitoring,
+  putFieldMonitoring,
+  getFieldReadings,
+  getScheduler,
+} from "../controllers/monitoringController.js";
+
+const router = express.Router();
+router.get("/fields/:id/monitoring", getFieldMonitoring);
+router.put("/fields/:id/monitoring", putFieldMonitoring);
+router.get("/fields/:id/readings", getFieldReadings);
+router.get("/admin/scheduler", getScheduler);
+
+export default router;
@@ -0,0 +1,16 @@
+// routes/polygonRoutes.js
+import express from "express";
+import {
+  getPolygons,
+  getPolygonQuota,
+  removePolygon,
+  cleanupPolygons,
+} from "../controllers/polygonController.js";
+
+const router = express.Router();
+router.get("/polygons", getPolygons);
+router.get("/polygons/quota", getPolygonQuota);
+router.post("/polygons/cleanup", cleanupPolygons);
+router.delete("/polygons/:polyid", removePolygon);
+
+export default router;
@@ -5,12 +5,16 @@ import { createPolygon } from "../controllers/soilController.js";
 import { getPolygonData } from "../controllers/soilController.js";
 import { getSoilData } from "../controllers/soilController.js";
 import { analyzeAgriculture } from "../controllers/aiAnalysisController.js";
+import { postBatchAnalysis, getBatchAnalysis } from "../controllers/batchAnalysisController.js";
 
 const router = express.Router();
 // router.get("/soil", getSoilData);
 router.post("/soil/polygon", createPolygon);
 router.get("/soil/polygon/:polyid", getPolygonData);
 router.get("/soil/:polyid", getSoilData);
+// Before /ai-analysis/:polyid, which would take "batch" for a polyid
+router.post("/ai-analysis/batch", postBatchAnalysis);
+router.get("/ai-analysis/batch/:id", getBatchAnalysis);
 router.get("/ai-analysis/:polyid", analyzeAgriculture);
 router.post("/ai-analysis/:polyid", analyzeAgriculture);
 
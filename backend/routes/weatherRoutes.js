@@ -0,0 +1,10 @@
+// routes/weatherRoutes.js
+import express from "express";
+import { getCurrentWeather, getWeatherForecast, getAccumulated } from "../controllers/weatherController.js";
+
+const router = express.Router();
+router.get("/weather/:polyid", getCurrentWeather);
+router.get("/weather/:polyid/forecast", getWeatherForecast);
+router.get("/fields/:id/accumulated", getAccumulated);
+
+export default router;
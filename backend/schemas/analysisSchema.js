@@ -0,0 +1,134 @@
+/**
+ * AI Analysis Response Schema
+ * The structured output the model must return, in Gemini's responseSchema format
+ * (an OpenAPI subset). Mirrors `LlmAnalysis` in app/types/analysis.ts - keep them in sync.
+ *
+ * Gemini's schema format has no numeric ranges, so those are in ANALYSIS_LIMITS
+ * and only checked by validateAnalysis.
+ */
+
+/** @typedef {import("../../app/types/analysis").LlmAnalysis} LlmAnalysis */
+
+export const ANALYSIS_SCHEMA = {
+  type: "object",
+  properties: {
+    Soil_Quality_Index: {
+      type: "number",
+      description: "Soil quality index from 0 (very poor) to 100 (excellent)",
+    },
+    Soil_Quality_Level: {
+      type: "string",
+      format: "enum",
+      enum: ["High", "Moderate", "Low"],
+    },
+    Confidence: {
+      type: "number",
+      description: "Confidence in the analysis as a decimal from 0 to 1",
+    },
+    Field_Summary: {
+      type: "string",
+      description: "One-sentence summary of the field's health and growth potential",
+    },
+    Predicted_Yield: {
+      type: "string",
+      format: "enum",
+      enum: ["High", "Medium", "Low"],
+    },
+    Predicted_Crops: {
+      type: "array",
+      items: { type: "string" },
+      minItems: 1,
+      maxItems: 6,
+    },
+    Recommendations: {
+      type: "array",
+      items: { type: "string" },
+      minItems: 3,
+      maxItems: 4,
+    },
+  },
+  required: [
+    "Soil_Quality_Index",
+    "Soil_Quality_Level",
+    "Confidence",
+    "Field_Summary",
+    "Predicted_Yield",
+    "Predicted_Crops",
+    "Recommendations",
+  ],
+};
+
+export const ANALYSIS_LIMITS = {
+  Soil_Quality_Index: { minimum: 0, maximum: 100 },
+  Confidence: { minimum: 0, maximum: 1 },
+};
+
+// Check one value against a schema node, collecting readable errors
+function check(value, schema, pathName, errors) {
+  switch (schema.type) {
+    case "object": {
+      if (!value || typeof value !== "object" || Array.isArray(value)) {
+        errors.push(`${pathName} must be an object`);
+        return;
+      }
+      for (const key of schema.required || []) {
+        if (value[key] === undefined || value[key] === null) errors.push(`${key} is required`);
+      }
+      for (const [key, child] of Object.entries(schema.properties)) {
+        if (value[key] !== undefined && value[key] !== null) check(value[key], child, key, errors);
+      }
+      for (const key of Object.keys(value)) {
+        if (!schema.properties[key]) errors.push(`${key} is not an allowed field`);
+      }
+      return;
+    }
+    case "array": {
+      if (!Array.isArray(value)) {
+        errors.push(`${pathName} must be an array`);
+        return;
+      }
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        errors.push(`${pathName} must have at least ${schema.minItems} items`);
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        errors.push(`${pathName} must have at most ${schema.maxItems} items`);
+      }
+      value.forEach((item, index) => check(item, schema.items, `${pathName}[${index}]`, errors));
+      return;
+    }
+    case "number": {
+      if (typeof value !== "number" || isNaN(value)) {
+        errors.push(`${pathName} must be a number`);
+        return;
+      }
+      const limits = ANALYSIS_LIMITS[pathName];
+      if (limits && (value < limits.minimum || value > limits.maximum)) {
+        errors.push(`${pathName} must be between ${limits.minimum} and ${limits.maximum}`);
+      }
+      return;
+    }
+    case "string": {
+      if (typeof value !== "string" || value.trim() === "") {
+        errors.push(`${pathName} must be a non-empty string`);
+        return;
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        errors.push(`${pathName} must be one of ${schema.enum.join(", ")}`);
+      }
+      return;
+    }
+    default:
+      errors.push(`${pathName} has an unsupported schema type ${schema.type}`);
+  }
+}
+
+/**
+ * Validate a parsed model response against ANALYSIS_SCHEMA
+ * @param {*} value - Parsed JSON from the model
+ * @returns {{ valid: boolean, errors: string[], value: LlmAnalysis|null }}
+ */
+export function validateAnalysis(value) {
+  const errors = [];
+  check(value, ANALYSIS_SCHEMA, "response", errors);
+  return { valid: errors.length === 0, errors, value: errors.length === 0 ? value : null };
+}
@@ -1,6 +1,19 @@
 // server.js
 import express from "express";
 import soilRoutes from "./routes/soilRoutes.js"; // note file name
+import fieldRoutes from "./routes/fieldRoutes.js";
+import polygonRoutes from "./routes/polygonRoutes.js";
+import analysisRoutes from "./routes/analysisRoutes.js";
+import weatherRoutes from "./routes/weatherRoutes.js";
+import imageryRoutes from "./routes/imageryRoutes.js";
+import cropRoutes from "./routes/cropRoutes.js";
+import irrigationRoutes from "./routes/irrigationRoutes.js";
+import alertRoutes from "./routes/alertRoutes.js";
+import monitoringRoutes from "./routes/monitoringRoutes.js";
+import comparisonRoutes from "./routes/comparisonRoutes.js";
+import { getProvider } from "./providers/index.js";
+import { getLlmProvider } from "./llm/index.js";
+import { startScheduler } from "./services/scheduler.js";
 import cors from "cors";
 import dotenv from "dotenv";
 import path from "path";
@@ -14,14 +27,19 @@ dotenv.config({ path: path.join(__dirname, ".env") });
 const app = express();
 
 // add json body parsing if you want to accept POSTs later
-app.use(express.json());
-app.use(cors());
+// (not for field imports: they read the raw body, JSON included, up to 25 MB - routes/fieldRoutes.js)
+const jsonParser = express.json();
+app.use((req, res, next) => (req.path === "/api/fields/import" ? next() : jsonParser(req, res, next)));
+// expose cache and NDVI window headers so the frontend can read them
+app.use(cors({ exposedHeaders: ["X-Cache", "Age", "X-NDVI-Start", "X-NDVI-End", "X-NDVI-Fallback"] }));
 
 // Health check endpoint to verify API key is loaded
 app.get("/", (req, res) => {
   const apiKeyLoaded = !!process.env.API_KEY;
   res.json({
     status: "API running",
+    satelliteProvider: getProvider().name,
+    llmProvider: getLlmProvider().name,
     apiKeyConfigured: apiKeyLoaded,
     message: apiKeyLoaded 
       ? "API key is configured and ready to use" 
@@ -31,17 +49,34 @@ app.get("/", (req, res) => {
 
 // mount API
 app.use("/api", soilRoutes);
+app.use("/api", fieldRoutes);
+app.use("/api", polygonRoutes);
+app.use("/api", analysisRoutes);
+app.use("/api", weatherRoutes);
+app.use("/api", imageryRoutes);
+app.use("/api", cropRoutes);
+app.use("/api", irrigationRoutes);
+app.use("/api", alertRoutes);
+app.use("/api", monitoringRoutes);
+app.use("/api", comparisonRoutes);
 
 // start server
 const PORT = process.env.PORT || 5000;
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
+  const provider = getProvider();
+  const llm = getLlmProvider();
   console.log(`API Key configured: ${!!process.env.API_KEY ? "Yes ✓" : "No ✗"}`);
-  console.log(`Gemini API Key configured: ${!!process.env.GEMINI_API_KEY ? "Yes ✓" : "No ✗"}`);
-  if (!process.env.API_KEY) {
+  console.log(`LLM provider configured: ${llm.isConfigured() ? "Yes ✓" : "No ✗"}`);
+  if (!process.env.API_KEY && provider.name === "agromonitoring") {
     console.warn("⚠️  WARNING: API_KEY not found in .env file. Please add it to backend/.env");
   }
-  if (!process.env.GEMINI_API_KEY) {
-    console.warn("⚠️  WARNING: GEMINI_API_KEY not found in .env file. AI analysis will use rule-based fallback.");
+  if (!llm.isConfigured()) {
+    const missing = llm.name === "gemini" ? "GEMINI_API_KEY" : "LLM_BASE_URL / LLM_MODEL";
+    console.warn(`⚠️  WARNING: ${missing} not found in .env file. AI analysis will use rule-based fallback.`);
   }
+  startScheduler();
 });
+
+// Stop through process.exit on Ctrl+C / SIGTERM so the JSON stores write out pending changes
+for (const signal of ["SIGINT", "SIGTERM"]) process.on(signal, () => process.exit(0));
@@ -0,0 +1,98 @@
+/**
+ * Accumulated Weather
+ * Growing degree days (GDD) and precipitation per day and summed over a window,
+ * computed from the polygon's weather history
+ *
+ * GDD for a day = max(0, (Tmax + Tmin) / 2 - base), with Tmax / Tmin the highest and lowest
+ * air temperature observed that day (UTC). Days without observations count as missing:
+ * they add nothing to the totals and are reported so a gap is never mistaken for a cold, dry day.
+ */
+
+import { fetchWeatherHistory, rainOf, toCelsius } from "./weather.js";
+
+const DAY = 60 * 60 * 24;
+
+const round = (value, digits = 1) => Number(value.toFixed(digits));
+const dateOf = (dt) => new Date(dt * 1000).toISOString().slice(0, 10);
+
+/**
+ * Accumulate degree days and precipitation from weather observations
+ * @param {Array} history - Provider weather history (entries with dt, main.temp in Kelvin, rain)
+ * @param {object} window - { start, end } in unix seconds
+ * @param {number} base - Base temperature (°C)
+ * @returns {object} { days: [...], totals: { gdd, precipitation, days, missing_days } }
+ */
+export function accumulate(history, window, base) {
+  const byDay = new Map();
+  for (const entry of Array.isArray(history) ? history : []) {
+    if (!entry || !entry.main || typeof entry.main.temp !== "number") continue;
+    const date = dateOf(entry.dt);
+    if (!byDay.has(date)) byDay.set(date, []);
+    byDay.get(date).push(entry);
+  }
+
+  const days = [];
+  let gddSum = 0;
+  let rainSum = 0;
+  let missing = 0;
+
+  for (let dt = Math.floor(window.start / DAY) * DAY; dt <= window.end; dt += DAY) {
+    const date = dateOf(dt);
+    const entries = byDay.get(date);
+
+    if (!entries) {
+      missing++;
+      days.push({
+        date,
+        temp_min: null,
+        temp_max: null,
+        gdd: null,
+        precipitation: null,
+        cumulative_gdd: round(gddSum),
+        cumulative_precipitation: round(rainSum),
+      });
+      continue;
+    }
+
+    const tempMin = toCelsius(Math.min(...entries.map((e) => e.main.temp)));
+    const tempMax = toCelsius(Math.max(...entries.map((e) => e.main.temp)));
+    const gdd = Math.max(0, (tempMax + tempMin) / 2 - base);
+    const rain = entries.reduce((sum, e) => sum + rainOf(e), 0);
+    gddSum += gdd;
+    rainSum += rain;
+
+    days.push({
+      date,
+      temp_min: tempMin,
+      temp_max: tempMax,
+      gdd: round(gdd),
+      precipitation: round(rain),
+      cumulative_gdd: round(gddSum),
+      cumulative_precipitation: round(rainSum),
+    });
+  }
+
+  return {
+    days,
+    totals: { gdd: round(gddSum), precipitation: round(rainSum), days: days.length, missing_days: missing },
+  };
+}
+
+/**
+ * Fetch the weather history of a polygon and accumulate it
+ * The window starts at midnight (UTC) of its first day, so that day is counted in full
+ * @param {string} polyid - Polygon id
+ * @param {object} window - { start, end, label } from parseTimeWindow
+ * @param {number} base - Base temperature (°C)
+ * @returns {Promise<object>} { window, days, totals, cache, ageSeconds }
+ */
+export async function fetchAccumulated(polyid, window, base) {
+  const dayWindow = { ...window, start: Math.floor(window.start / DAY) * DAY };
+  const result = await fetchWeatherHistory(polyid, dayWindow);
+  return {
+    window: dayWindow,
+    ...accumulate(result.value, dayWindow, base),
+    cache: result.cache,
+    ageSeconds: result.ageSeconds,
+  };
+}
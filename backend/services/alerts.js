@@ -0,0 +1,193 @@
+/**
+ * Threshold Alerts
+ * Rules like "moisture < 20", "t0 < 2" or "NDVI dropped more than 0.1 in 14 days" set on a field
+ * are evaluated on every soil or NDVI result for the field's polygon, whether it was fetched from
+ * the provider or served from the cache. A match is recorded as an alert with the value seen,
+ * once per rule and reading, so a cached result seen again does not alert twice.
+ *
+ *   Metric      Source   Value
+ *   moisture    soil     shallowest soil moisture, % (services/soil.js)
+ *   t0          soil     surface soil temperature, °C
+ *   t10         soil     10 cm soil temperature, °C
+ *   t100        soil     100 cm soil temperature, °C (when the source has it)
+ *   ndvi        NDVI     mean NDVI of the latest scene
+ *   ndvi_drop   NDVI     highest scene mean in the `windowDays` before the latest scene minus the latest mean
+ */
+
+import { parseSoilProfile, atDepth, topMoisture } from "./soil.js";
+import { findFieldByPolyid } from "../store/fieldStore.js";
+import { listFieldAlertRules, hasAlertFor, recordAlert } from "../store/alertStore.js";
+
+const DAY = 60 * 60 * 24;
+
+export const ALERT_METRICS = {
+  moisture: { source: "soil", label: "Soil moisture", unit: "%" },
+  t0: { source: "soil", label: "Surface soil temperature", unit: "°C" },
+  t10: { source: "soil", label: "10 cm soil temperature", unit: "°C" },
+  t100: { source: "soil", label: "100 cm soil temperature", unit: "°C" },
+  ndvi: { source: "ndvi", label: "NDVI", unit: "" },
+  ndvi_drop: { source: "ndvi", label: "NDVI drop", unit: "", windowed: true },
+};
+
+const OPERATORS = {
+  "<": (value, threshold) => value < threshold,
+  "<=": (value, threshold) => value <= threshold,
+  ">": (value, threshold) => value > threshold,
+  ">=": (value, threshold) => value >= threshold,
+};
+
+export const ALERT_OPERATORS = Object.keys(OPERATORS);
+
+const DEFAULT_WINDOW_DAYS = 14;
+const MAX_WINDOW_DAYS = 365;
+
+// NDVI fetched for a window ending longer ago than this is history, not news
+const NDVI_RECENT_SECONDS = 2 * DAY;
+
+const isNumber = (value) => typeof value === "number" && !isNaN(value);
+
+// A finite number, or a numeric string that is not blank - anything else (booleans, arrays, "") is null
+const toFiniteNumber = (value) => {
+  const number = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+  return typeof number === "number" && Number.isFinite(number) ? number : null;
+};
+
+/**
+ * Check a rule from a request body
+ * @param {object} body - { metric, operator, threshold, windowDays }
+ * @returns {object} { metric, operator, threshold, windowDays } - windowDays only for ndvi_drop
+ * @throws {Error} With a user-facing message when the rule is invalid
+ */
+export function validateAlertRule(body = {}) {
+  const { metric, operator } = body;
+  if (!ALERT_METRICS[metric]) {
+    throw new Error(`metric must be one of: ${Object.keys(ALERT_METRICS).join(", ")}`);
+  }
+  if (!OPERATORS[operator]) {
+    throw new Error(`operator must be one of: ${ALERT_OPERATORS.join(" ")}`);
+  }
+  const threshold = toFiniteNumber(body.threshold);
+  if (threshold === null) {
+    throw new Error("threshold must be a number");
+  }
+
+  let windowDays = null;
+  if (ALERT_METRICS[metric].windowed) {
+    windowDays = body.windowDays === undefined || body.windowDays === null ? DEFAULT_WINDOW_DAYS : toFiniteNumber(body.windowDays);
+    if (!Number.isInteger(windowDays) || windowDays < 1 || windowDays > MAX_WINDOW_DAYS) {
+      throw new Error(`windowDays must be a whole number of days between 1 and ${MAX_WINDOW_DAYS}`);
+    }
+  }
+  return { metric, operator, threshold, windowDays };
+}
+
+/**
+ * Human readable rule, e.g. "Soil moisture < 20%" or "NDVI drop > 0.1 in 14 days"
+ */
+export function describeAlertRule({ metric, operator, threshold, windowDays }) {
+  const { label, unit } = ALERT_METRICS[metric];
+  return `${label} ${operator} ${threshold}${unit}${windowDays ? ` in ${windowDays} days` : ""}`;
+}
+
+const round = (value) => Number(value.toFixed(4));
+
+/**
+ * Evaluate the enabled rules of the field behind a polygon against one reading
+ * @param {string} polyid - Polygon id
+ * @param {string} source - "soil" or "ndvi"
+ * @param {number} observedAt - Time of the reading (unix seconds)
+ * @param {Function} valueOf - rule => value, or null when the data has no value for it
+ * @returns {object[]} Recorded alerts
+ */
+function evaluateRules(polyid, source, observedAt, valueOf) {
+  const field = findFieldByPolyid(polyid);
+  if (!field) return [];
+
+  const observed = new Date(observedAt * 1000).toISOString();
+  const triggered = [];
+  for (const rule of listFieldAlertRules(field.id)) {
+    if (!rule.enabled || ALERT_METRICS[rule.metric].source !== source) continue;
+
+    const value = valueOf(rule);
+    if (!isNumber(value) || !OPERATORS[rule.operator](value, rule.threshold)) continue;
+    if (hasAlertFor(rule.id, observed)) continue;
+
+    const { unit } = ALERT_METRICS[rule.metric];
+    const alert = recordAlert({
+      ruleId: rule.id,
+      fieldId: field.id,
+      polyid,
+      metric: rule.metric,
+      operator: rule.operator,
+      threshold: rule.threshold,
+      windowDays: rule.windowDays,
+      value: round(value),
+      observedAt: observed,
+      message: `${field.name}: ${describeAlertRule(rule)} (now ${round(value)}${unit})`,
+    });
+    console.log(`🔔 Alert: ${alert.message}`);
+    triggered.push(alert);
+  }
+  return triggered;
+}
+
+/**
+ * Evaluate soil rules against the soil snapshot a request used (fetched or cached)
+ * Alerts are a side effect of fetching, so failures are logged and never thrown
+ * @param {string} polyid - Polygon id
+ * @param {object} soilData - Provider soil snapshot
+ * @returns {object[]} Recorded alerts
+ */
+export function evaluateSoilAlerts(polyid, soilData) {
+  try {
+    const profile = parseSoilProfile(soilData);
+    const temperature = (depth) => {
+      const reading = atDepth(profile.temperatures, depth);
+      return reading ? reading.celsius : null;
+    };
+    const values = {
+      moisture: topMoisture(profile.moisture),
+      t0: temperature(0),
+      t10: temperature(10),
+      t100: temperature(100),
+    };
+    const observedAt = soilData && isNumber(soilData.dt) ? soilData.dt : Math.floor(Date.now() / 1000);
+    return evaluateRules(polyid, "soil", observedAt, (rule) => values[rule.metric]);
+  } catch (error) {
+    console.warn(`⚠️  Could not evaluate soil alerts for ${polyid}:`, error.message);
+    return [];
+  }
+}
+
+/**
+ * Evaluate NDVI rules against the NDVI history a request used (fetched or cached)
+ * Only histories reaching up to now count - older windows are browsing, not new data
+ * @param {string} polyid - Polygon id
+ * @param {Array} history - Provider NDVI history
+ * @param {{ end: number }} window - Window the history was fetched for (unix seconds)
+ * @returns {object[]} Recorded alerts
+ */
+export function evaluateNdviAlerts(polyid, history, window) {
+  try {
+    if (!Array.isArray(history) || window.end < Date.now() / 1000 - NDVI_RECENT_SECONDS) return [];
+
+    const scenes = history
+      .map((entry) => ({ dt: entry && entry.dt, mean: entry && entry.data ? entry.data.mean ?? entry.data.value : undefined }))
+      .filter((scene) => isNumber(scene.dt) && isNumber(scene.mean))
+      .sort((a, b) => a.dt - b.dt);
+    if (scenes.length === 0) return [];
+
+    const latest = scenes[scenes.length - 1];
+    const dropOver = (days) => {
+      const earlier = scenes.filter((scene) => scene.dt < latest.dt && scene.dt >= latest.dt - days * DAY);
+      return earlier.length > 0 ? Math.max(...earlier.map((scene) => scene.mean)) - latest.mean : null;
+    };
+
+    return evaluateRules(polyid, "ndvi", latest.dt, (rule) =>
+      rule.metric === "ndvi_drop" ? dropOver(rule.windowDays) : latest.mean
+    );
+  } catch (error) {
+    console.warn(`⚠️  Could not evaluate NDVI alerts for ${polyid}:`, error.message);
+    return [];
+  }
+}
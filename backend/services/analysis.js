@@ -0,0 +1,1113 @@
+/**
+ * Analysis
+ * Analyzes soil data, NDVI history, and provides predictions and recommendations
+ * Uses the configured LLM (Gemini by default), and the rule engine when it is not configured or fails
+ */
+
+import { cached, cacheKey, CACHE_POLICIES } from "./cache.js";
+import { getProvider } from "../providers/index.js";
+import { getLlmProvider } from "../llm/index.js";
+import { parseNdviWindow, fetchNdviHistory, hasNdviValues } from "./ndviHistory.js";
+import { analyzeWithRules } from "./ruleEngine.js";
+import { ANALYSIS_SCHEMA, validateAnalysis } from "../schemas/analysisSchema.js";
+import { findFieldByPolyid } from "../store/fieldStore.js";
+import { saveAnalysis } from "../store/analysisStore.js";
+import { fetchWeatherSummary } from "./weather.js";
+import { VEGETATION_INDICES, fetchIndexSummaries } from "./indices.js";
+import { parseSoilProfile, atDepth, topMoisture, depthLabel, fetchSoil } from "./soil.js";
+import { fieldConditions, rankCrops } from "./crops.js";
+
+// Stored with every model analysis - bump it whenever the prompt or the response schema changes
+const PROMPT_VERSION = "6";
+
+const INDEX_LABELS = {
+  evi: "EVI (Enhanced Vegetation Index - does not saturate over dense canopy)",
+  ndwi: "NDWI (Normalized Difference Water Index - canopy water content)",
+  savi: "SAVI (Soil Adjusted Vegetation Index - corrects for bare soil in sparse crops)",
+};
+
+/**
+ * Parse and validate a model response
+ * Markdown code fences are tolerated (models without JSON mode add them), anything else is an error
+ * @param {string} text - Raw model output
+ * @returns {{ value: object|null, errors: string[] }}
+ */
+function parseAnalysisResponse(text) {
+  let jsonText = text.trim();
+
+  // Remove markdown code blocks if present
+  if (jsonText.startsWith('```json')) {
+    jsonText = jsonText.replace(/^```json\n?/, '').replace(/\n?```$/, '');
+  } else if (jsonText.startsWith('```')) {
+    jsonText = jsonText.replace(/^```\n?/, '').replace(/\n?```$/, '');
+  }
+
+  let parsed;
+  try {
+    parsed = JSON.parse(jsonText);
+  } catch (parseError) {
+    return { value: null, errors: [`Response is not valid JSON: ${parseError.message}`] };
+  }
+
+  const { value, errors } = validateAnalysis(parsed);
+  return { value, errors };
+}
+
+/**
+ * Prompt asking the model to fix its previous answer
+ * @param {string} prompt - Original prompt
+ * @param {string} previous - The invalid response
+ * @param {string[]} errors - Validation errors
+ */
+function buildCorrectionPrompt(prompt, previous, errors) {
+  return `${prompt}
+
+Your previous response was rejected because it did not match the required JSON format:
+${errors.map((error) => `- ${error}`).join("\n")}
+
+Previous response:
+${previous.substring(0, 2000)}
+
+Return the corrected analysis as a single JSON object with exactly the required fields and nothing else.`;
+}
+
+/**
+ * Weather section of the prompt
+ * @param {object|null} weather - { current, forecast } from services/weather.js
+ * @returns {string} Prompt text
+ */
+function formatWeatherForPrompt(weather) {
+  const current = weather && weather.current;
+  const forecast = weather && weather.forecast;
+  if (!current && !forecast) {
+    return "Weather Data:\n- Not available. Do not assume anything about upcoming rain.";
+  }
+
+  const lines = ["Weather Data:"];
+  if (current) {
+    lines.push(
+      `- Current Air Temperature: ${current.temperature !== null ? `${current.temperature}°C` : "N/A"}`,
+      `- Humidity: ${current.humidity !== null ? `${current.humidity}%` : "N/A"}`,
+      `- Wind Speed: ${current.wind_speed !== null ? `${current.wind_speed} m/s` : "N/A"}`,
+      `- Conditions: ${current.description || "N/A"}`
+    );
+  }
+  if (forecast) {
+    lines.push(
+      `- Rain Forecast: ${forecast.rain_next_24h} mm in the next 24 h, ${forecast.rain_next_48h} mm in the next 48 h, ${forecast.rain_total} mm over the next ${forecast.days.length} days`,
+      `- Forecast Air Temperature Range: ${forecast.temp_min}°C to ${forecast.temp_max}°C`
+    );
+  }
+  return lines.join("\n");
+}
+
+// Status words shown in Current_Conditions
+const temperatureStatus = (celsius) => (celsius < 5 ? "cold" : celsius > 25 ? "warm" : "optimal");
+const moistureStatus = (percent) =>
+  percent < 20 ? "low" : percent > 70 ? "excessive" : percent < 30 ? "moderate" : "sufficient";
+
+/**
+ * Soil section of the prompt - surface and 10 cm always, deeper readings when there are any
+ * @param {object} profile - { temperatures, moisture } from services/soil.js
+ * @returns {string} Prompt text
+ */
+function formatSoilForPrompt(profile) {
+  const temperatures = (profile && profile.temperatures) || [];
+  const moisture = (profile && profile.moisture) || [];
+  const lines = [];
+
+  const temperatureLine = (depth, name) => {
+    const reading = atDepth(temperatures, depth);
+    lines.push(`- ${name}: ${reading ? `${reading.celsius.toFixed(2)}°C` : "N/A"}`);
+  };
+  temperatureLine(0, "Surface Temperature");
+  temperatureLine(10, "Temperature at 10 cm");
+  for (const reading of temperatures.filter((t) => t.depth !== 0 && t.depth !== 10)) {
+    temperatureLine(reading.depth, `Temperature at ${reading.depth} cm`);
+  }
+
+  if (moisture.length === 0) {
+    lines.push("- Soil Moisture: N/A");
+  }
+  for (const reading of moisture) {
+    const name = reading.depth === null ? "Soil Moisture" : `Soil Moisture (${depthLabel(reading.depth)})`;
+    lines.push(`- ${name}: ${reading.percent.toFixed(1)}%`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Crop suitability section of the prompt - the catalogue's best matches for the model to choose from
+ * @param {object[]} suitability - rankCrops results, best first
+ * @returns {string} Prompt text
+ */
+function formatSuitabilityForPrompt(suitability) {
+  const scored = (suitability || []).filter((crop) => crop.score !== null).slice(0, 8);
+  if (scored.length === 0) {
+    return "Crop Suitability (from the crop catalogue):\n- Not available.";
+  }
+  const lines = ["Crop Suitability (from the crop catalogue, 0-100, best first):"];
+  for (const crop of scored) {
+    const limits = crop.limiting_factors.length > 0 ? ` - limited by: ${crop.limiting_factors.join("; ")}` : "";
+    lines.push(`- ${crop.crop}: ${crop.score}${limits}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * EVI / NDWI / SAVI section of the prompt
+ * @param {object|null} indices - { evi, ndwi, savi } summaries from services/indices.js
+ * @returns {string} Prompt text
+ */
+function formatIndicesForPrompt(indices) {
+  const available = VEGETATION_INDICES.filter((index) => indices && indices[index]);
+  if (available.length === 0) {
+    return "Other Indices (EVI, NDWI, SAVI):\n- Not available. Rely on NDVI for vegetation.";
+  }
+
+  const lines = ["Other Indices (from the most recent clear satellite scenes):"];
+  for (const index of VEGETATION_INDICES) {
+    const summary = indices[index];
+    if (!summary) {
+      lines.push(`- ${INDEX_LABELS[index]}: N/A`);
+      continue;
+    }
+    const stat = (value) => (value !== null ? value.toFixed(4) : "N/A");
+    lines.push(
+      `- ${INDEX_LABELS[index]}: mean ${stat(summary.mean)}, median ${stat(summary.median)}, min ${stat(summary.min)}, max ${stat(summary.max)}, std ${stat(summary.std)} (${summary.scenes} scene${summary.scenes === 1 ? "" : "s"})`
+    );
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Ask the configured LLM (see llm/index.js) to analyze agriculture data
+ * @param {object} data - Agriculture data object
+ * @returns {object|null} { analysis, model } with a schema-valid analysis, or null
+ */
+async function callAnalysisModel(data) {
+  const llm = getLlmProvider();
+  if (!llm.isConfigured()) {
+    console.warn(`LLM provider ${llm.name} is not configured, skipping model analysis`);
+    return null;
+  }
+
+  if (!data) {
+    console.error("callAnalysisModel: data parameter is undefined");
+    return null;
+  }
+
+  try {
+    // Format timestamp - safely access soilData
+    const soilDataDt = data.soilData && typeof data.soilData === 'object' ? data.soilData.dt : null;
+    const timestamp = soilDataDt 
+      ? new Date(soilDataDt * 1000).toLocaleString('en-US', {
+          month: 'short',
+          day: 'numeric',
+          year: 'numeric',
+          hour: 'numeric',
+          minute: '2-digit',
+          hour12: true
+        })
+      : "N/A";
+
+    // Safely access data properties with defaults
+    const polygonInfo = data.polygonInfo || {};
+    const polyid = data.polyid || "N/A";
+    const ndviMean = data.ndviMean !== null && data.ndviMean !== undefined ? data.ndviMean : null;
+    const ndviMedian = data.ndviMedian !== null && data.ndviMedian !== undefined ? data.ndviMedian : null;
+    const ndviMin = data.ndviMin !== null && data.ndviMin !== undefined ? data.ndviMin : null;
+    const ndviMax = data.ndviMax !== null && data.ndviMax !== undefined ? data.ndviMax : null;
+    const ndviStd = data.ndviStd !== null && data.ndviStd !== undefined ? data.ndviStd : null;
+
+    // Build coordinates string safely
+    let coordinatesStr = "";
+    if (polygonInfo.coordinates && Array.isArray(polygonInfo.coordinates)) {
+      coordinatesStr = polygonInfo.coordinates
+        .map((coord, idx) => {
+          if (Array.isArray(coord) && coord.length >= 2) {
+            return `${idx + 1}. [${coord[0]}, ${coord[1]}]`;
+          }
+          return null;
+        })
+        .filter(Boolean)
+        .join('\n');
+    }
+
+    // Build location string from API data
+    let locationCenter = "N/A";
+    if (polygonInfo.center && Array.isArray(polygonInfo.center) && polygonInfo.center.length >= 2) {
+      // Center is in [lat, lon] format from API, display as [lon, lat] for consistency
+      locationCenter = `[${polygonInfo.center[1]}, ${polygonInfo.center[0]}]`;
+    }
+    
+    // Build the prompt using ONLY data from API
+    const prompt = `You are an Agricultural AI Analyst for the Smart Farming Assistant — "Earth from Space."
+
+Use the following field data to assess soil quality, vegetation health, and overall fertility.
+
+Provide your analysis clearly and explain what the numbers mean in plain language.
+
+Input Data
+
+Polygon ID: ${polyid}
+
+${locationCenter !== "N/A" ? `Location Center: ${locationCenter}` : ""}
+
+Soil Data:
+${formatSoilForPrompt(data.soilProfile)}
+- Timestamp: ${timestamp}
+
+NDVI Data (Vegetation Index - Measures Plant Health and Density):
+${ndviMean !== null && !isNaN(ndviMean) 
+  ? `✅ VEGETATION DATA AVAILABLE:
+- Mean NDVI: ${ndviMean.toFixed(4)} (This is the primary vegetation health indicator)
+- Median NDVI: ${ndviMedian !== null && !isNaN(ndviMedian) ? ndviMedian.toFixed(4) : "N/A"}
+- Min NDVI: ${ndviMin !== null && !isNaN(ndviMin) ? ndviMin.toFixed(4) : "N/A"}
+- Max NDVI: ${ndviMax !== null && !isNaN(ndviMax) ? ndviMax.toFixed(4) : "N/A"}
+- Standard Deviation: ${ndviStd !== null && !isNaN(ndviStd) ? ndviStd.toFixed(4) : "N/A"}
+
+IMPORTANT: The Mean NDVI value of ${ndviMean.toFixed(4)} indicates ${ndviMean < 0.1 ? "very poor or no vegetation" : ndviMean < 0.3 ? "poor/sparse vegetation" : ndviMean < 0.5 ? "moderate vegetation health" : ndviMean < 0.7 ? "good vegetation density" : "excellent vegetation health"}. Use this value to assess vegetation cover and plant health.`
+  : `❌ VEGETATION DATA NOT AVAILABLE:
+- Mean NDVI: N/A
+- Median NDVI: N/A
+- Min NDVI: N/A
+- Max NDVI: N/A
+- Standard Deviation: N/A
+
+NOTE: NDVI (vegetation) data is not available for this polygon. This could be because:
+  * The polygon is too new (NDVI data processing takes time)
+  * The location has limited satellite coverage
+  * The polygon was recently created and data is still being collected
+
+Please analyze based on soil data only and explicitly state that vegetation/NDVI data is unavailable.`}
+
+${formatIndicesForPrompt(data.indices)}
+
+${formatSuitabilityForPrompt(data.suitability)}
+
+${formatWeatherForPrompt(data.weather)}
+
+Your Tasks
+
+Analyze Soil Condition
+- Describe if the soil is dry, optimal, or wet based on the moisture value.
+- Explain if the temperature range is suitable for plant growth.
+- When readings at several depths are given, compare the surface with the root zone: a dry surface over moist deeper soil still supplies established roots, while cold deep soil slows root growth.
+- If moisture or temperature is too low or high, explain how it affects the crops.
+- Take the weather into account: do not recommend irrigation when significant rain (10 mm or more) is forecast for the next 48 hours, and mention frost or heat risk from the forecast temperatures.
+
+Analyze Vegetation Health
+- NDVI (Normalized Difference Vegetation Index) measures vegetation health and density.
+- NDVI values range from -1 to 1:
+  * < 0.1: Very poor / Bare soil / No vegetation
+  * 0.1 - 0.3: Poor / Sparse vegetation / Stressed plants
+  * 0.3 - 0.5: Moderate / Healthy vegetation / Growing crops
+  * 0.5 - 0.7: Good / Dense vegetation / Healthy crops
+  * > 0.7: Excellent / Very dense vegetation / Thriving crops
+- Use the NDVI Mean value provided above to assess current vegetation cover.
+- If NDVI Mean is provided (not N/A), describe the vegetation condition based on the value.
+- If NDVI Mean is N/A or missing, note that vegetation data is unavailable.
+- Cross-check NDVI with the other indices when they are available: prefer EVI for dense canopies (NDVI above 0.7), SAVI for sparse or young crops (NDVI below 0.3), and treat NDWI below 0 as a sign of water stress in the canopy.
+
+Determine Overall Soil Quality
+- Combine your soil and vegetation observations to rate overall soil quality as: High, Moderate, or Low
+- Score it as a Soil Quality Index from 0 to 100 (High is 70 and up, Moderate 45-69, Low below 45)
+- Give a confidence level as a decimal from 0 to 1.
+
+Summarize Field Condition
+- Provide a one-sentence summary of the field's health and growth potential.
+- Example: "The soil is dry and vegetation is weak, suggesting low fertility but stable temperatures."
+
+Give AI Recommendations
+- Pick Predicted_Crops from the best-scoring crops in the Crop Suitability list when it is available.
+- Suggest 3–4 short, practical actions to improve soil or crop growth (like adding organic compost, adjusting irrigation, or monitoring NDVI again next week).
+
+Return a structured JSON output:
+{
+  "Soil_Quality_Index": 0,
+  "Soil_Quality_Level": "",
+  "Confidence": 0,
+  "Field_Summary": "",
+  "Predicted_Yield": "",
+  "Predicted_Crops": [],
+  "Recommendations": []
+}
+
+IMPORTANT: 
+- Respond ONLY with valid JSON. 
+- Do not include any markdown formatting, code blocks, or additional text outside the JSON object.
+- Use only the data provided above from the API.
+- Soil_Quality_Index must be a number from 0 to 100
+- Soil_Quality_Level must be: "High", "Moderate", or "Low"
+- Confidence must be a decimal number from 0 to 1 (e.g., 0.9)
+- Field_Summary should be a clear one-sentence summary.
+- Predicted_Yield must be: "High", "Medium", or "Low"
+- Predicted_Crops should be an array of 1-6 crop names (e.g., ["barley", "wheat", "rye"])
+- Recommendations should be an array of 3-4 actionable improvement steps.
+- Do not add any other fields.`;
+
+    // Log NDVI values before sending to the model
+    console.log("=".repeat(60));
+    console.log("NDVI VALUES BEING SENT TO THE MODEL:");
+    console.log(`  Mean: ${ndviMean !== null && !isNaN(ndviMean) ? ndviMean.toFixed(4) : "N/A"}`);
+    console.log(`  Median: ${ndviMedian !== null && !isNaN(ndviMedian) ? ndviMedian.toFixed(4) : "N/A"}`);
+    console.log(`  Min: ${ndviMin !== null && !isNaN(ndviMin) ? ndviMin.toFixed(4) : "N/A"}`);
+    console.log(`  Max: ${ndviMax !== null && !isNaN(ndviMax) ? ndviMax.toFixed(4) : "N/A"}`);
+    console.log(`  Std: ${ndviStd !== null && !isNaN(ndviStd) ? ndviStd.toFixed(4) : "N/A"}`);
+    console.log("=".repeat(60));
+    
+    // Also log a snippet of the prompt to verify NDVI data is included
+    const promptSnippet = prompt.substring(prompt.indexOf("NDVI Data"), prompt.indexOf("Your Tasks"));
+    console.log("Prompt snippet (NDVI section):");
+    console.log(promptSnippet);
+    console.log("=".repeat(60));
+    
+    console.log(`Sending prompt to ${llm.label}...`);
+    let { text, model } = await llm.generateJson(prompt, { schema: ANALYSIS_SCHEMA, input: data });
+    console.log(`✓ Received response from ${llm.label} (${model}), length:`, text.length);
+
+    // Validate against the schema; invalid output gets a corrective re-prompt
+    const maxAttempts = Number(process.env.LLM_MAX_ATTEMPTS || process.env.GEMINI_MAX_ATTEMPTS) || 3;
+    for (let attempt = 1; ; attempt++) {
+      const { value, errors } = parseAnalysisResponse(text);
+      if (value) {
+        console.log(`✓ Model response passed schema validation (attempt ${attempt})`);
+        return { analysis: value, model };
+      }
+
+      console.warn(`✗ Model response failed validation (attempt ${attempt}/${maxAttempts}):`, errors);
+      console.warn("Response text:", text.substring(0, 500));
+      if (attempt >= maxAttempts) {
+        console.error("Giving up on model output after", maxAttempts, "attempts");
+        return null;
+      }
+
+      ({ text, model } = await llm.generateJson(buildCorrectionPrompt(prompt, text, errors), {
+        schema: ANALYSIS_SCHEMA,
+        input: data,
+      }));
+    }
+  } catch (error) {
+    console.error(`Error calling ${llm.label}:`, error);
+    if (error.message) {
+      console.error("Error message:", error.message);
+    }
+    return null;
+  }
+}
+
+// Result of runAnalysis: what the endpoint answers with
+const reply = (status, body) => ({ status, body });
+
+/**
+ * Run one analysis - LLM analysis with a rule engine fallback
+ * Shared by the endpoint and the monitoring scheduler (services/scheduler.js)
+ * @param {string} polyid - Polygon id
+ * @param {object} [options]
+ * @param {object} [options.query] - start / end / range of the NDVI window
+ * @param {object} [options.body] - soilData, ndviHistory and polygonInfo to use instead of fetching them
+ * @returns {Promise<{status: number, body: object}>} HTTP status and the analysis (or error) body
+ */
+export async function runAnalysis(polyid, { query = {}, body = {} } = {}) {
+  try {
+    if (!polyid) {
+      return reply(400, { 
+        error: "Polygon ID is required",
+        message: "Please provide a valid polygon ID" 
+      });
+    }
+
+    // NDVI window: ?start=&end= or ?range=, a year back by default
+    let ndviWindow;
+    try {
+      ndviWindow = parseNdviWindow(query, "1y");
+    } catch (validationError) {
+      return reply(400, { error: "Invalid time window", message: validationError.message });
+    }
+
+    // Log incoming request for debugging
+    console.log("AI Analysis Request - polyid:", polyid);
+    console.log("Request body:", JSON.stringify(body, null, 2));
+    
+    // Fetch soil data and NDVI history from API
+    // Frontend doesn't send data in body, so we always fetch from API using polyid
+    let soilData = null;
+    let ndviHistory = null;
+    // Window the NDVI history was fetched for (may be wider than requested after the fallback)
+    let ndviWindowUsed = null;
+    // Where each input came from: "request" (body), or the cache result "hit" / "stale" / "miss"
+    const cacheStatus = { soil: "none", ndvi_history: "none", polygon_info: "none", weather: "none", forecast: "none", indices: "none" };
+    
+    // Check if data was provided in request body (from frontend or for testing)
+    if (body && body.soilData) {
+      console.log("✅ Using soilData from request body (frontend provided)");
+      soilData = body.soilData;
+      cacheStatus.soil = "request";
+    }
+    
+    if (body && body.ndviHistory) {
+      console.log("✅✅✅ Using ndviHistory from request body (frontend provided) ✅✅✅");
+      ndviHistory = body.ndviHistory;
+      cacheStatus.ndvi_history = "request";
+      console.log("NDVI history from body type:", typeof ndviHistory, Array.isArray(ndviHistory) ? "Array" : "Object");
+      if (Array.isArray(ndviHistory)) {
+        console.log(`NDVI history array has ${ndviHistory.length} entries`);
+        if (ndviHistory.length > 0) {
+          console.log("First NDVI entry from body:", JSON.stringify(ndviHistory[0]).substring(0, 300));
+        }
+      }
+    }
+    
+    // Fetch data from API only if not provided in body
+    // IMPORTANT: Don't fetch if data was provided - use what frontend sent
+    const needSoilData = !soilData;
+    const needNdviData = !ndviHistory;
+    
+    if (needSoilData || needNdviData) {
+      if (!getProvider().isConfigured()) {
+        return reply(500, { 
+          error: "Server configuration error", 
+          message: "API_KEY not found. Please add it to backend/.env" 
+        });
+      }
+      
+      try {
+        // Fetch soil data from API only if not provided in request body
+        if (needSoilData) {
+          console.log(`Fetching soil data from API for polyid: ${polyid}`);
+          try {
+            const soilResult = await fetchSoil(polyid);
+            soilData = soilResult.value;
+            cacheStatus.soil = soilResult.cache;
+            console.log(`Soil data fetched successfully (cache ${soilResult.cache}):`, Object.keys(soilData));
+          } catch (soilError) {
+            if (!soilError.status) throw soilError;
+            const errorData = soilError.details || {};
+            console.error("Error fetching soil data for analysis:", errorData);
+            return reply(soilError.status, { 
+              error: "Failed to fetch soil data", 
+              message: errorData.message || "Could not fetch soil data from API",
+              details: errorData
+            });
+          }
+        } else {
+          console.log("⏭️  Skipping soil data fetch - using data from request body");
+        }
+        
+        // Fetch NDVI history from API only if not provided in request body
+        if (needNdviData) {
+          console.log(`Fetching NDVI history from API for polyid: ${polyid}`);
+          
+          const ndviResult = await fetchNdviHistory(polyid, ndviWindow);
+          const ndviFetched = hasNdviValues(ndviResult.history);
+
+          if (ndviFetched) {
+            ndviHistory = ndviResult.history;
+            ndviWindowUsed = ndviResult.window;
+            cacheStatus.ndvi_history = ndviResult.cache;
+            console.log("NDVI history raw response (first 1000 chars):", JSON.stringify(ndviHistory).substring(0, 1000));
+
+            if (Array.isArray(ndviHistory) && ndviHistory.length > 0) {
+              console.log(`NDVI array has ${ndviHistory.length} entries`);
+              console.log("First NDVI entry (full):", JSON.stringify(ndviHistory[0], null, 2));
+            }
+          }
+          
+          if (!ndviFetched) {
+            console.warn("⚠️  Could not fetch NDVI data with any time range. Possible reasons:");
+            console.warn("   1. Polygon is too new (NDVI data takes 3-5 days to process after creation)");
+            console.warn("   2. Polygon is too small (< 1 hectare - Sentinel-2 has 10m resolution)");
+            console.warn("   3. Polygon location has no satellite coverage");
+            console.warn("   4. Time range doesn't include any NDVI captures (Sentinel-2 revisits every 5 days)");
+            console.warn("   5. Cloud cover prevented satellite data collection");
+            console.warn("");
+            console.warn("💡 Solutions:");
+            console.warn("   - Wait 3-5 days after polygon creation");
+            console.warn("   - Ensure polygon covers at least 1-2 hectares");
+            console.warn("   - Try a wider date range (6+ months)");
+            console.warn("   - Check polygon coordinates are valid");
+            console.warn("");
+            console.warn("   Analysis will continue without NDVI data");
+            ndviHistory = null;
+          }
+        } else {
+          console.log("⏭️  Skipping NDVI fetch - using data from request body");
+          console.log("✅ NDVI data from frontend will be used for analysis");
+        }
+      } catch (fetchError) {
+        console.error("Error fetching data for analysis:", fetchError);
+        console.error("Error stack:", fetchError.stack);
+        return reply(500, { 
+          error: "Failed to fetch data for analysis", 
+          message: fetchError.message || "Network error while fetching data from API"
+        });
+      }
+    }
+    
+    // Validate that we have soil data
+    if (!soilData || typeof soilData !== 'object') {
+      console.error("Invalid soilData:", soilData);
+      return reply(404, { 
+        error: "Soil data not available", 
+        message: "Could not fetch soil data for analysis. Please ensure the polygon ID is valid.",
+        received: soilData
+      });
+    }
+    
+    console.log("Processing soil data:", {
+      hasT0: soilData.t0 !== undefined,
+      hasT10: soilData.t10 !== undefined,
+      hasMoisture: soilData.moisture !== undefined,
+      keys: Object.keys(soilData)
+    });
+    
+    // Every depth the snapshot has (API returns Kelvin and m3/m3), see services/soil.js
+    const soilProfile = parseSoilProfile(soilData);
+    const celsiusAt = (depth) => atDepth(soilProfile.temperatures, depth)?.celsius ?? null;
+    const temp0cm = celsiusAt(0);
+    const temp10cm = celsiusAt(10);
+    const temp100cm = celsiusAt(100);
+    // Scored moisture: the plain reading, otherwise the shallowest one
+    const moisture = topMoisture(soilProfile.moisture);
+    
+    console.log("Extracted values:", {
+      temp0cm,
+      temp10cm,
+      temp100cm,
+      moisture,
+      moistureDepths: soilProfile.moisture.map((m) => depthLabel(m.depth)),
+      soilDataKeys: Object.keys(soilData)
+    });
+    
+    // Process NDVI data with extensive logging
+    console.log("=".repeat(60));
+    console.log("PROCESSING NDVI DATA");
+    console.log("=".repeat(60));
+    console.log("ndviHistory type:", typeof ndviHistory);
+    console.log("ndviHistory is null?", ndviHistory === null);
+    console.log("ndviHistory is array?", Array.isArray(ndviHistory));
+    if (ndviHistory) {
+      console.log("ndviHistory value (first 500 chars):", JSON.stringify(ndviHistory).substring(0, 500));
+      if (Array.isArray(ndviHistory)) {
+        console.log(`ndviHistory is array with ${ndviHistory.length} entries`);
+        if (ndviHistory.length > 0) {
+          console.log("First entry structure:", JSON.stringify(ndviHistory[0]));
+        }
+      } else if (typeof ndviHistory === 'object') {
+        console.log("ndviHistory object keys:", Object.keys(ndviHistory));
+      }
+    } else {
+      console.error("❌ ndviHistory is null or undefined!");
+    }
+    
+    let ndviMean = null;
+    let ndviMedian = null;
+    let ndviMin = null;
+    let ndviMax = null;
+    let ndviStd = null;
+    
+    let ndviArray = null;
+    if (ndviHistory) {
+      if (Array.isArray(ndviHistory)) {
+        ndviArray = ndviHistory;
+        console.log(`✅ NDVI is array with ${ndviArray.length} entries`);
+      } else if (typeof ndviHistory === 'object') {
+        // Try different possible structures from AgroMonitoring API
+        if (ndviHistory.data && Array.isArray(ndviHistory.data)) {
+          ndviArray = ndviHistory.data;
+          console.log("✅ Found NDVI data in ndviHistory.data array");
+        } else if (ndviHistory.data && typeof ndviHistory.data === 'object') {
+          ndviArray = [ndviHistory];
+          console.log("✅ Found NDVI data as single object");
+        } else if (ndviHistory.value !== undefined) {
+          ndviArray = [ndviHistory];
+          console.log("✅ Found NDVI value directly in object");
+        } else {
+          console.warn("⚠️  Unknown NDVI object structure. Keys:", Object.keys(ndviHistory));
+          // Try to use it as-is
+          ndviArray = [ndviHistory];
+        }
+      }
+    } else {
+      console.error("❌ ndviHistory is null/undefined - cannot process NDVI data");
+    }
+    
+    // Extract NDVI values from array
+    // The API can return multiple formats:
+    // 1. [{ dt: timestamp, data: { mean, median, min, max, std } }] - Pre-calculated stats
+    // 2. [{ dt: timestamp, data: { value: number } }] - Single value per entry
+    // 3. [{ value: number }] - Direct value
+    // 4. [] - Empty (polygon too new or no data)
+    if (ndviArray && ndviArray.length > 0) {
+      console.log(`Processing ${ndviArray.length} NDVI entries...`);
+      
+      const firstEntry = ndviArray[0];
+      console.log("First entry structure:", JSON.stringify(firstEntry));
+      
+      if (firstEntry && typeof firstEntry === 'object') {
+        // Try Format 1: Pre-calculated statistics in data object
+        // Structure: { dt: timestamp, data: { mean, median, min, max, std } }
+        if (firstEntry.data && typeof firstEntry.data === 'object') {
+          const dataObj = firstEntry.data;
+          
+          // Check for mean (primary method)
+          if (dataObj.mean !== undefined && typeof dataObj.mean === 'number' && !isNaN(dataObj.mean)) {
+            console.log("✅ Found NDVI statistics with 'mean' in data object");
+            
+            // Use the latest entry's statistics (most recent data)
+            const latestEntry = ndviArray[ndviArray.length - 1];
+            if (latestEntry && latestEntry.data) {
+              const stats = latestEntry.data;
+              
+              // Extract all available statistics
+              if (stats.mean !== undefined && typeof stats.mean === 'number' && !isNaN(stats.mean)) {
+                ndviMean = stats.mean;
+                console.log(`  ✅ Mean: ${ndviMean}`);
+              }
+              if (stats.median !== undefined && typeof stats.median === 'number' && !isNaN(stats.median)) {
+                ndviMedian = stats.median;
+                console.log(`  ✅ Median: ${ndviMedian}`);
+              }
+              if (stats.min !== undefined && typeof stats.min === 'number' && !isNaN(stats.min)) {
+                ndviMin = stats.min;
+                console.log(`  ✅ Min: ${ndviMin}`);
+              }
+              if (stats.max !== undefined && typeof stats.max === 'number' && !isNaN(stats.max)) {
+                ndviMax = stats.max;
+                console.log(`  ✅ Max: ${ndviMax}`);
+              }
+              if (stats.std !== undefined && typeof stats.std === 'number' && !isNaN(stats.std)) {
+                ndviStd = stats.std;
+                console.log(`  ✅ Std: ${ndviStd}`);
+              }
+            }
+            
+            // If we have multiple entries, calculate average from all means
+            if (ndviArray.length > 1 && ndviMean !== null) {
+              const allMeans = ndviArray
+                .map(entry => entry.data?.mean)
+                .filter(val => val !== undefined && typeof val === 'number' && !isNaN(val) && val >= -1 && val <= 1);
+              
+              if (allMeans.length > 1) {
+                // Use average of all means for better accuracy
+                const avgMean = allMeans.reduce((a, b) => a + b, 0) / allMeans.length;
+                ndviMean = avgMean;
+                ndviMin = Math.min(...allMeans, ndviMin !== null ? ndviMin : Infinity);
+                ndviMax = Math.max(...allMeans, ndviMax !== null ? ndviMax : -Infinity);
+                
+                const sorted = [...allMeans].sort((a, b) => a - b);
+                ndviMedian = sorted.length % 2 === 0
+                  ? (sorted[sorted.length / 2 - 1] + sorted[sorted.length / 2]) / 2
+                  : sorted[Math.floor(sorted.length / 2)];
+                
+                if (allMeans.length > 1) {
+                  const variance = allMeans.reduce((acc, val) => acc + Math.pow(val - ndviMean, 2), 0) / allMeans.length;
+                  ndviStd = Math.sqrt(variance);
+                }
+                
+                console.log(`✅ Calculated aggregate statistics from ${allMeans.length} entries`);
+              }
+            }
+          }
+          // Try Format 2: Single value in data.value (fallback if mean doesn't exist)
+          else if (dataObj.value !== undefined && typeof dataObj.value === 'number' && !isNaN(dataObj.value)) {
+            console.log("✅ Found NDVI 'value' in data object (using as mean)");
+            console.log("Note: API returned 'value' instead of 'mean' - treating value as mean");
+            
+            // Extract all values from the array
+            const ndviValues = [];
+            for (let i = 0; i < ndviArray.length; i++) {
+              const item = ndviArray[i];
+              if (item.data && item.data.value !== undefined) {
+                const val = item.data.value;
+                if (typeof val === 'number' && !isNaN(val) && val >= -1 && val <= 1) {
+                  ndviValues.push(val);
+                  console.log(`  Entry ${i}: value = ${val}`);
+                }
+              }
+            }
+            
+            if (ndviValues.length > 0) {
+              ndviMean = ndviValues.reduce((a, b) => a + b, 0) / ndviValues.length;
+              const sorted = [...ndviValues].sort((a, b) => a - b);
+              ndviMedian = sorted.length % 2 === 0
+                ? (sorted[sorted.length / 2 - 1] + sorted[sorted.length / 2]) / 2
+                : sorted[Math.floor(sorted.length / 2)];
+              ndviMin = Math.min(...ndviValues);
+              ndviMax = Math.max(...ndviValues);
+              
+              if (ndviValues.length > 1) {
+                const variance = ndviValues.reduce((acc, val) => acc + Math.pow(val - ndviMean, 2), 0) / ndviValues.length;
+                ndviStd = Math.sqrt(variance);
+              } else {
+                ndviStd = 0;
+              }
+              
+              console.log(`✅ Calculated statistics from ${ndviValues.length} value entries`);
+            }
+          }
+        }
+        
+        // Try Format 3: Direct value property (no data object)
+        if (ndviMean === null && firstEntry.value !== undefined && typeof firstEntry.value === 'number' && !isNaN(firstEntry.value)) {
+          console.log("✅ Found NDVI 'value' directly in entry (using as mean)");
+          
+          const ndviValues = ndviArray
+            .map(item => item.value)
+            .filter(val => val !== undefined && typeof val === 'number' && !isNaN(val) && val >= -1 && val <= 1);
+          
+          if (ndviValues.length > 0) {
+            ndviMean = ndviValues.reduce((a, b) => a + b, 0) / ndviValues.length;
+            const sorted = [...ndviValues].sort((a, b) => a - b);
+            ndviMedian = sorted.length % 2 === 0
+              ? (sorted[sorted.length / 2 - 1] + sorted[sorted.length / 2]) / 2
+              : sorted[Math.floor(sorted.length / 2)];
+            ndviMin = Math.min(...ndviValues);
+            ndviMax = Math.max(...ndviValues);
+            
+            if (ndviValues.length > 1) {
+              const variance = ndviValues.reduce((acc, val) => acc + Math.pow(val - ndviMean, 2), 0) / ndviValues.length;
+              ndviStd = Math.sqrt(variance);
+            } else {
+              ndviStd = 0;
+            }
+            
+            console.log(`✅ Calculated statistics from ${ndviValues.length} direct value entries`);
+          }
+        }
+      }
+      
+      // Final check - if we still don't have NDVI data
+      if (ndviMean !== null) {
+        console.log("✅ NDVI statistics extracted successfully:");
+        console.log(`   Mean: ${ndviMean.toFixed(4)}`);
+        console.log(`   Median: ${ndviMedian !== null ? ndviMedian.toFixed(4) : 'N/A'}`);
+        console.log(`   Min: ${ndviMin !== null ? ndviMin.toFixed(4) : 'N/A'}`);
+        console.log(`   Max: ${ndviMax !== null ? ndviMax.toFixed(4) : 'N/A'}`);
+        console.log(`   Std: ${ndviStd !== null ? ndviStd.toFixed(4) : 'N/A'}`);
+      } else {
+        console.error("❌ Failed to extract NDVI statistics from any structure");
+        console.error("Sample entry structure:", JSON.stringify(firstEntry));
+        console.error("Available keys in first entry:", firstEntry ? Object.keys(firstEntry) : "N/A");
+        if (firstEntry && firstEntry.data) {
+          console.error("Available keys in firstEntry.data:", Object.keys(firstEntry.data));
+        }
+      }
+    } else {
+      console.error("❌ No NDVI array to process - ndviArray is null or empty");
+      console.error("This usually means:");
+      console.error("  1. Polygon is too new (wait 3-5 days for NDVI data)");
+      console.error("  2. Polygon is too small (< 1 hectare)");
+      console.error("  3. No satellite coverage for this area");
+      console.error("  4. Time range doesn't include any NDVI captures");
+    }
+    
+    const currentNDVI = ndviMean !== null && !isNaN(ndviMean) ? ndviMean : null;
+    console.log("Final NDVI values summary:");
+    console.log(`  ndviMean: ${ndviMean} (${typeof ndviMean})`);
+    console.log(`  ndviMedian: ${ndviMedian} (${typeof ndviMedian})`);
+    console.log(`  ndviMin: ${ndviMin} (${typeof ndviMin})`);
+    console.log(`  ndviMax: ${ndviMax} (${typeof ndviMax})`);
+    console.log(`  ndviStd: ${ndviStd} (${typeof ndviStd})`);
+    console.log(`  currentNDVI: ${currentNDVI} (${typeof currentNDVI})`);
+    console.log("=".repeat(60));
+    
+    // Final validation - if we have NDVI data, log it clearly
+    if (ndviMean !== null && !isNaN(ndviMean)) {
+      console.log("✅✅✅ NDVI DATA IS AVAILABLE AND WILL BE SENT TO THE MODEL ✅✅✅");
+      console.log(`   Mean NDVI: ${ndviMean.toFixed(4)}`);
+    } else {
+      console.error("❌❌❌ NDVI DATA IS MISSING - WILL SHOW AS N/A ❌❌❌");
+      console.error("   This means the model will see NDVI as unavailable");
+    }
+    console.log("=".repeat(60));
+    
+    // Fetch polygon information for the prompt (optional, can work without it)
+    let polygonInfo = null;
+    
+    // Check if polygon info was provided in request body (optional)
+    if (body && body.polygonInfo && typeof body.polygonInfo === 'object') {
+      console.log("Using polygonInfo from request body");
+      polygonInfo = body.polygonInfo;
+      cacheStatus.polygon_info = "request";
+    }
+    
+    // Fetch polygon info from API if not provided and the provider is configured
+    if (!polygonInfo && getProvider().isConfigured()) {
+      try {
+        console.log(`Fetching polygon info from API for polyid: ${polyid}`);
+        const polygonResult = await cached(cacheKey(polyid, "polygon"), CACHE_POLICIES.polygon, () =>
+          getProvider().getPolygon(polyid)
+        );
+        const polygonData = polygonResult.value;
+        cacheStatus.polygon_info = polygonResult.cache;
+        console.log("Polygon data fetched:", Object.keys(polygonData));
+
+        if (polygonData.geo_json && polygonData.geo_json.geometry && polygonData.geo_json.geometry.coordinates) {
+          const coords = polygonData.geo_json.geometry.coordinates[0];
+          if (Array.isArray(coords) && coords.length > 0) {
+            // Convert from [lon, lat] to [lat, lon] for display
+            const latLonCoords = coords.map(([lon, lat]) => [lat, lon]);
+
+            polygonInfo = {
+              shapeType: polygonData.geo_json.geometry.type === "Polygon" ? "Polygon" : "Rectangle",
+              area: polygonData.area ? (polygonData.area / 10000).toFixed(2) : null,
+              center: polygonData.center || null,
+              coordinates: latLonCoords
+            };
+
+            // Calculate width and height if it's a rectangle (4-5 points)
+            if (latLonCoords.length === 4 || latLonCoords.length === 5) {
+              const lats = latLonCoords.map(c => c[0]).filter(c => typeof c === 'number');
+              const lngs = latLonCoords.map(c => c[1]).filter(c => typeof c === 'number');
+
+              if (lats.length > 0 && lngs.length > 0) {
+                const minLat = Math.min(...lats);
+                const maxLat = Math.max(...lats);
+                const minLng = Math.min(...lngs);
+                const maxLng = Math.max(...lngs);
+
+                const R = 6371000; // Earth radius in meters
+                const latDiff = (maxLat - minLat) * Math.PI / 180;
+                const lngDiff = (maxLng - minLng) * Math.PI / 180;
+                const avgLat = ((minLat + maxLat) / 2) * Math.PI / 180;
+
+                polygonInfo.width = (lngDiff * R * Math.cos(avgLat)).toFixed(2);
+                polygonInfo.height = (latDiff * R).toFixed(2);
+              }
+            }
+
+            console.log("Polygon info extracted:", {
+              shapeType: polygonInfo.shapeType,
+              area: polygonInfo.area,
+              hasCenter: !!polygonInfo.center,
+              coordinatesCount: polygonInfo.coordinates.length
+            });
+          }
+        }
+      } catch (polyError) {
+        if (polyError.status) {
+          console.warn("Could not fetch polygon info:", polyError.details);
+        } else {
+          console.error("Error fetching polygon info:", polyError);
+        }
+        // Continue without polygon info - it's optional for analysis
+      }
+    }
+    
+    // If still no polygon info, create a minimal one
+    if (!polygonInfo) {
+      polygonInfo = {
+        shapeType: "Rectangle",
+        area: null,
+        center: null,
+        coordinates: []
+      };
+      console.log("Using minimal polygon info (no polygon data available)");
+    }
+    
+    // Weather is optional - the analysis goes ahead without it
+    let weather = null;
+    if (getProvider().isConfigured()) {
+      const weatherResult = await fetchWeatherSummary(polyid);
+      weather = weatherResult.weather;
+      cacheStatus.weather = weatherResult.cache.current;
+      cacheStatus.forecast = weatherResult.cache.forecast;
+      console.log("Weather for analysis:", weather.current ? `${weather.current.temperature}°C, ${weather.current.description}` : "N/A",
+        "| rain next 48h:", weather.forecast ? `${weather.forecast.rain_next_48h} mm` : "N/A");
+    }
+    
+    // EVI / NDWI / SAVI are optional as well
+    let indices = null;
+    if (getProvider().isConfigured()) {
+      const indexResult = await fetchIndexSummaries(polyid, ndviWindow);
+      indices = indexResult.indices;
+      cacheStatus.indices = indexResult.cache;
+      console.log(`Indices for analysis (${indexResult.scenes} scenes):`,
+        VEGETATION_INDICES.map((index) => `${index} ${indices[index] ? indices[index].mean.toFixed(4) : "N/A"}`).join(", "));
+    }
+    
+    // Catalogue crops scored on the same soil and NDVI data (services/crops.js)
+    const cropConditions = fieldConditions(soilProfile, ndviArray);
+    const suitability = rankCrops(cropConditions);
+    console.log("Crop suitability:", suitability.slice(0, 4).map((crop) => `${crop.crop} ${crop.score}`).join(", "));
+    
+    // Call the LLM, falling back to the rule engine
+    const llm = getLlmProvider();
+    console.log(llm.isConfigured()
+      ? `Calling ${llm.label} with data from API...`
+      : `LLM provider ${llm.name} not configured - using rule engine`);
+    
+    const modelInput = {
+      polyid: polyid || "N/A",
+      polygonInfo: polygonInfo || {},
+      soilData: soilData,
+      temp0cm: temp0cm,
+      temp10cm: temp10cm,
+      temp100cm: temp100cm,
+      moisture: moisture,
+      soilProfile: soilProfile,
+      ndviMean: ndviMean,
+      ndviMedian: ndviMedian,
+      ndviMin: ndviMin,
+      ndviMax: ndviMax,
+      ndviStd: ndviStd,
+      indices: indices,
+      suitability: suitability,
+      weather: weather
+    };
+    
+    const modelResult = llm.isConfigured() ? await callAnalysisModel(modelInput) : null;
+    let analysis;
+    let analysisSource;
+    let analysisModel;
+    
+    if (modelResult) {
+      analysis = modelResult.analysis;
+      analysisSource = llm.label;
+      analysisModel = modelResult.model;
+      console.log(`${llm.label} analysis received successfully`);
+    } else {
+      if (llm.isConfigured()) {
+        console.warn(`⚠️  ${llm.label} analysis failed - falling back to rule engine`);
+      }
+      analysis = analyzeWithRules(modelInput);
+      analysisSource = "Rule Engine";
+      analysisModel = "rule-engine";
+      console.log(`Rule engine analysis: SQI ${analysis.Soil_Quality_Index} (${analysis.Soil_Quality_Level})`);
+    }
+    
+    // Build response from the analysis
+    // Both sources return a schema-shaped analysis (see schemas/analysisSchema.js),
+    // so the index, level and confidence can be used as they are
+    const soilQualityLevel = analysis.Soil_Quality_Level;
+    const confidenceValue = analysis.Confidence;
+    
+    const analysisResult = {
+      Soil_Quality_Index: analysis.Soil_Quality_Index,
+      Fertility_Level: soilQualityLevel, // Kept for backward compatibility
+      Soil_Quality_Level: soilQualityLevel,
+      Summary: analysis.Field_Summary,
+      Field_Summary: analysis.Field_Summary,
+      Confidence: confidenceValue,
+      Current_Conditions: {
+        temperature: {
+          surface: temp0cm !== null && !isNaN(temp0cm) ? `${temp0cm.toFixed(2)}°C` : "N/A",
+          depth_10cm: temp10cm !== null && !isNaN(temp10cm) ? `${temp10cm.toFixed(2)}°C` : "N/A",
+          depth_100cm: temp100cm !== null && !isNaN(temp100cm) ? `${temp100cm.toFixed(2)}°C` : "N/A",
+          status: temp0cm !== null ? temperatureStatus(temp0cm) : "unknown",
+          // Every depth with a reading, shallowest first
+          profile: soilProfile.temperatures.map((t) => ({
+            depth_cm: t.depth,
+            label: depthLabel(t.depth),
+            value: `${t.celsius.toFixed(2)}°C`,
+            status: temperatureStatus(t.celsius)
+          }))
+        },
+        moisture: {
+          value: moisture !== null && !isNaN(moisture) ? `${moisture.toFixed(1)}%` : "N/A",
+          status: moisture !== null ? moistureStatus(moisture) : "unknown",
+          profile: soilProfile.moisture.map((m) => ({
+            depth_cm: m.depth,
+            label: depthLabel(m.depth),
+            value: `${m.percent.toFixed(1)}%`,
+            status: moistureStatus(m.percent)
+          }))
+        },
+        vegetation: {
+          ndvi_mean: ndviMean !== null && !isNaN(ndviMean) ? ndviMean.toFixed(4) : "N/A",
+          ndvi_median: ndviMedian !== null && !isNaN(ndviMedian) ? ndviMedian.toFixed(4) : "N/A",
+          ndvi_min: ndviMin !== null && !isNaN(ndviMin) ? ndviMin.toFixed(4) : "N/A",
+          ndvi_max: ndviMax !== null && !isNaN(ndviMax) ? ndviMax.toFixed(4) : "N/A",
+          ndvi_std: ndviStd !== null && !isNaN(ndviStd) ? ndviStd.toFixed(4) : "N/A",
+          status: ndviMean !== null && !isNaN(ndviMean)
+            ? (ndviMean < 0.1 ? "very_poor" : ndviMean < 0.3 ? "poor" : ndviMean < 0.5 ? "moderate" : ndviMean < 0.7 ? "good" : "excellent")
+            : "unknown"
+        },
+        indices: Object.fromEntries(VEGETATION_INDICES.map((index) => {
+          const summary = indices && indices[index];
+          const stat = (value) => (summary && value !== null && !isNaN(value) ? value.toFixed(4) : "N/A");
+          return [index, {
+            mean: stat(summary && summary.mean),
+            median: stat(summary && summary.median),
+            min: stat(summary && summary.min),
+            max: stat(summary && summary.max),
+            std: stat(summary && summary.std),
+            scenes: summary ? summary.scenes : 0
+          }];
+        })),
+        weather: weather
+      },
+      Predicted_Yield_Quality: analysis.Predicted_Yield,
+      Predicted_Yield: analysis.Predicted_Yield,
+      Predicted_Crops: Array.isArray(analysis.Predicted_Crops) && analysis.Predicted_Crops.length > 0
+        ? analysis.Predicted_Crops
+        : ["No crop recommendations available"],
+      Recommendations: Array.isArray(analysis.Recommendations) && analysis.Recommendations.length > 0
+        ? analysis.Recommendations
+        : ["No recommendations available"],
+      Crop_Suitability: suitability,
+      // What the crops were scored on - peak NDVI, not the mean reported above
+      Crop_Conditions: cropConditions,
+      AI_Confidence_Score: confidenceValue, // Use parsed confidence value
+      ...(analysis.Score_Breakdown ? { Score_Breakdown: analysis.Score_Breakdown } : {}),
+      Predictions: {
+        ndvi_with_moisture_increase_10pct: "N/A",
+        current_ndvi: currentNDVI !== null && !isNaN(currentNDVI) ? currentNDVI.toFixed(4) : "N/A"
+      },
+      Data_Timestamp: soilData && soilData.dt 
+        ? new Date(soilData.dt * 1000).toISOString() 
+        : "N/A",
+      Analysis_Source: analysisSource,
+      Analysis_Model: analysisModel,
+      Cache_Status: cacheStatus
+    };
+    
+    // SAVING THE ANALYSIS
+    // History must never cost the caller the result, so a failed save is only logged
+    try {
+      const field = findFieldByPolyid(polyid);
+      const saved = saveAnalysis({
+        fieldId: field ? field.id : null,
+        polyid,
+        source: analysisSource,
+        model: analysisModel,
+        promptVersion: modelResult ? PROMPT_VERSION : null,
+        inputs: {
+          soil: soilData,
+          soilProfile,
+          ndvi: {
+            mean: ndviMean,
+            median: ndviMedian,
+            min: ndviMin,
+            max: ndviMax,
+            std: ndviStd,
+            current: currentNDVI,
+            entries: Array.isArray(ndviHistory) ? ndviHistory.length : 0,
+            window: ndviWindowUsed
+              ? { start: new Date(ndviWindowUsed.start * 1000).toISOString(), end: new Date(ndviWindowUsed.end * 1000).toISOString() }
+              : null,
+          },
+          indices,
+          polygon: { area: polygonInfo.area ?? null, center: polygonInfo.center ?? null },
+          weather,
+        },
+        result: analysisResult,
+      });
+      analysisResult.Analysis_Id = saved.id;
+      console.log(`💾 Analysis saved: ${saved.id}${field ? ` (field ${field.id})` : ""}`);
+    } catch (saveError) {
+      console.error("⚠️  Could not save analysis:", saveError.message);
+    }
+    
+    return reply(200, analysisResult);
+    
+  } catch (error) {
+    console.error("Error in AI analysis:", error);
+    return reply(500, { 
+      error: "AI analysis failed", 
+      message: error.message 
+    });
+  }
+}
@@ -0,0 +1,286 @@
+/**
+ * Batch Analysis
+ * Analyzes many fields through one queue instead of one browser request per field. Items are polyids or
+ * shapes (a polygon is created - or reused - first, like POST /api/soil/polygon), run by a fixed number
+ * of workers per batch. Every item of every batch (nearby-area comparisons included) also takes one of
+ * MAX_ACTIVE_ITEMS slots shared across the server, so the upstream APIs never see more fields at once,
+ * however many batches run side by side.
+ *
+ * A batch is a job kept in memory: it is returned right away and can be polled for per-item status,
+ * results and errors while it runs. Items the provider rate limits (429) are retried after a pause.
+ * An item's polygon is held (services/polygonQuota.js) until the item finishes, so making room for
+ * another batch's polygon never deletes it mid-analysis.
+ * Finished jobs are dropped after an hour, or earlier to make room; running jobs are never dropped -
+ * a new batch is refused (error with status 503) while MAX_JOBS are running.
+ */
+
+import crypto from "crypto";
+import { createPolygonFromBody } from "./polygonCreation.js";
+import { runAnalysis } from "./analysis.js";
+import { holdPolygon, releasePolygon } from "./polygonQuota.js";
+import { toPolygonGeometry, toLatLonCoordinates } from "../utils/geometry.js";
+
+export const MAX_BATCH_ITEMS = 50;
+export const MAX_CONCURRENCY = 4;
+const DEFAULT_CONCURRENCY = 2;
+
+const RATE_LIMIT_RETRIES = 2;
+const RATE_LIMIT_DELAY_MS = 5000; // times the attempt number
+
+const JOB_TTL_MS = 60 * 60 * 1000;
+const MAX_JOBS = 100;
+
+// Items analyzed at once across all batches
+export const MAX_ACTIVE_ITEMS = MAX_CONCURRENCY;
+
+// Keys of an item passed on when its polygon is created
+const POLYGON_KEYS = ["name", "register", "temporary", "fieldId", "shapeType", "areaInSquareMeters", "locationName"];
+
+const jobs = new Map(); // id -> { job, done }
+
+let activeItems = 0;
+const slotWaiters = []; // resolve functions, first come first served
+
+// Take one of the shared item slots, waiting for one to be released when all are busy
+async function acquireSlot() {
+  if (activeItems < MAX_ACTIVE_ITEMS) {
+    activeItems += 1;
+    return;
+  }
+  await new Promise((resolve) => slotWaiters.push(resolve));
+}
+
+// Hand the slot straight to the next waiting item, or free it
+function releaseSlot() {
+  const next = slotWaiters.shift();
+  if (next) next();
+  else activeItems -= 1;
+}
+
+const wait = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Check a batch request body
+ * @param {object} body - { items: [polyid | { polyid } | { coordinates } | { geometry }], polyids, concurrency }
+ * @returns {object} { specs: [{ ref, polyid } | { ref, polygon }], concurrency }
+ * @throws {Error} With a user-facing message naming the first invalid item
+ */
+export function validateBatch(body = {}) {
+  const items = [
+    ...(Array.isArray(body.polyids) ? body.polyids : []),
+    ...(Array.isArray(body.items) ? body.items : []),
+  ];
+  if (items.length === 0) {
+    throw new Error("Provide `items` (polyids or { coordinates } / { geometry } shapes) or `polyids`");
+  }
+  if (items.length > MAX_BATCH_ITEMS) {
+    throw new Error(`A batch takes at most ${MAX_BATCH_ITEMS} items, got ${items.length}`);
+  }
+
+  const concurrency = body.concurrency === undefined ? DEFAULT_CONCURRENCY : Number(body.concurrency);
+  if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_CONCURRENCY) {
+    throw new Error(`concurrency must be an integer between 1 and ${MAX_CONCURRENCY}`);
+  }
+
+  const specs = items.map((item, index) => {
+    if (typeof item === "string" && item.trim()) return { ref: null, polyid: item.trim() };
+    if (!item || typeof item !== "object") {
+      throw new Error(`Item ${index}: expected a polyid or an object`);
+    }
+    const ref = item.ref ?? null;
+    if (typeof item.polyid === "string" && item.polyid.trim()) return { ref, polyid: item.polyid.trim() };
+
+    let coordinates = item.coordinates;
+    if (!coordinates && item.geometry) {
+      try {
+        coordinates = toLatLonCoordinates(toPolygonGeometry(item.geometry));
+      } catch (geometryError) {
+        throw new Error(`Item ${index}: ${geometryError.message}`);
+      }
+    }
+    if (!Array.isArray(coordinates)) {
+      throw new Error(`Item ${index}: needs a polyid, coordinates ([lat, lon] pairs) or a GeoJSON Polygon geometry`);
+    }
+
+    const polygon = { coordinates };
+    for (const key of POLYGON_KEYS) {
+      if (item[key] !== undefined) polygon[key] = item[key];
+    }
+    return { ref, polygon };
+  });
+
+  return { specs, concurrency };
+}
+
+function itemError(status, body) {
+  const error = new Error(body.message || body.error || `Request failed (${status})`);
+  error.status = status;
+  error.body = body;
+  return error;
+}
+
+// Retry what the provider rate limited, everything else fails the item right away
+async function withRateLimitRetry(item, run) {
+  for (let attempt = 0; ; attempt++) {
+    const { status, body } = await run();
+    if (status !== 429 || attempt >= RATE_LIMIT_RETRIES) return { status, body };
+    item.retries += 1;
+    console.warn(`⏳ Batch item ${item.index} rate limited, retrying in ${(RATE_LIMIT_DELAY_MS * (attempt + 1)) / 1000}s`);
+    await wait(RATE_LIMIT_DELAY_MS * (attempt + 1));
+  }
+}
+
+async function processItem(job, item, spec, { query, precheck }) {
+  await acquireSlot();
+  item.startedAt = new Date().toISOString();
+  let polyid = spec.polyid;
+  if (polyid) holdPolygon(polyid);
+  try {
+
+    if (!polyid) {
+      item.status = "creating";
+      const created = await withRateLimitRetry(item, () => createPolygonFromBody(spec.polygon));
+      // A duplicated shape answers with the polygon that already exists
+      if (created.status >= 400 && !created.body.existingPolyid) throw itemError(created.status, created.body);
+      polyid = created.status >= 400 ? created.body.existingPolyid : created.body.polyid;
+      holdPolygon(polyid);
+      item.fieldId = created.body.fieldId ?? null;
+      item.reused = created.status >= 400 || !!created.body.reused;
+    }
+    item.polyid = polyid;
+
+    // Items the caller's check turns down are not analyzed
+    if (precheck) {
+      item.status = "checking";
+      const rejection = await precheck(polyid, item);
+      if (rejection) {
+        item.status = "rejected";
+        item.rejection = rejection;
+        job.rejected += 1;
+        return;
+      }
+    }
+
+    item.status = "analyzing";
+    const analysis = await withRateLimitRetry(item, () => runAnalysis(polyid, { query }));
+    if (analysis.status >= 400) throw itemError(analysis.status, analysis.body);
+
+    item.result = analysis.body;
+    item.status = "done";
+    job.succeeded += 1;
+  } catch (error) {
+    item.status = "failed";
+    item.error = {
+      status: error.status || 500,
+      error: (error.body && error.body.error) || "Analysis failed",
+      message: error.message,
+    };
+    job.failed += 1;
+    console.warn(`⚠️  Batch ${job.id} item ${item.index} failed:`, error.message);
+  } finally {
+    if (polyid) releasePolygon(polyid);
+    item.finishedAt = new Date().toISOString();
+    job.completed += 1;
+    releaseSlot();
+  }
+}
+
+// Bounded-concurrency queue: `concurrency` workers take the next waiting item until none is left,
+// each item also waiting for a shared slot (acquireSlot)
+async function runJob(job, specs, concurrency, options) {
+  let next = 0;
+  const worker = async () => {
+    while (next < specs.length) {
+      const index = next++;
+      await processItem(job, job.items[index], specs[index], options);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, specs.length) }, worker));
+
+  job.status = "done";
+  job.finishedAt = new Date().toISOString();
+  console.log(`✅ Batch ${job.id} done: ${job.succeeded} analyzed, ${job.failed} failed${job.rejected ? `, ${job.rejected} rejected` : ""}`);
+  setTimeout(() => jobs.delete(job.id), JOB_TTL_MS).unref();
+}
+
+/**
+ * Queue a batch and start working on it
+ * @param {object} batch - From validateBatch
+ * @param {object} [query] - NDVI window (start / end / range) for every analysis
+ * @param {object} [options]
+ * @param {Function} [options.precheck] - async (polyid, item) => rejection or null, run before each analysis;
+ *   a rejection ({ reason, message, ... }) marks the item "rejected" and skips its analysis
+ * @returns {object} Job snapshot (see getBatch)
+ * @throws {Error} With status 503 when MAX_JOBS batches are running
+ */
+export function startBatch({ specs, concurrency }, query = {}, { precheck = null } = {}) {
+  // Make room by dropping the oldest finished jobs - a running job stays pollable until it is done
+  for (const [id, entry] of jobs) {
+    if (jobs.size < MAX_JOBS) break;
+    if (entry.job.status === "done") jobs.delete(id);
+  }
+  if (jobs.size >= MAX_JOBS) {
+    const error = new Error(`${MAX_JOBS} batches are already running - try again once one has finished`);
+    error.status = 503;
+    throw error;
+  }
+
+  const job = {
+    id: crypto.randomUUID(),
+    status: "running",
+    createdAt: new Date().toISOString(),
+    finishedAt: null,
+    concurrency,
+    total: specs.length,
+    completed: 0,
+    succeeded: 0,
+    failed: 0,
+    rejected: 0,
+    items: specs.map((spec, index) => ({
+      index,
+      ref: spec.ref,
+      input: spec.polyid ? "polyid" : "geometry",
+      polyid: spec.polyid || null,
+      fieldId: null,
+      reused: null,
+      status: "queued",
+      retries: 0,
+      result: null,
+      error: null,
+      rejection: null,
+      startedAt: null,
+      finishedAt: null,
+    })),
+  };
+
+  const done = runJob(job, specs, concurrency, { query, precheck }).catch((error) => {
+    console.error(`Batch ${job.id} crashed:`, error);
+    job.status = "done";
+    job.finishedAt = new Date().toISOString();
+  });
+  jobs.set(job.id, { job, done });
+  console.log(`📦 Batch ${job.id}: ${specs.length} items, ${concurrency} at a time`);
+  return structuredClone(job);
+}
+
+/**
+ * Current state of a batch
+ * @param {string} id - Job id
+ * @returns {object|null} { id, status: "running"|"done", total, completed, succeeded, failed, rejected, items: [...] }
+ */
+export function getBatch(id) {
+  const entry = jobs.get(id);
+  return entry ? structuredClone(entry.job) : null;
+}
+
+/**
+ * Wait until a batch has finished
+ * @param {string} id - Job id
+ * @returns {Promise<object|null>} Final job snapshot
+ */
+export async function waitForBatch(id) {
+  const entry = jobs.get(id);
+  if (!entry) return null;
+  await entry.done;
+  return getBatch(id);
+}
@@ -0,0 +1,124 @@
+/**
+ * In-memory cache for AgroMonitoring responses
+ * Keyed by polyid + endpoint + time range, with stale-while-revalidate:
+ * - fresh entries are served straight from memory ("hit")
+ * - stale entries are served immediately and refreshed in the background ("stale")
+ * - missing/expired entries are fetched from upstream ("miss")
+ */
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// TTLs follow the upstream update cadence:
+// soil data is recalculated a few times a day, NDVI only changes when a satellite passes (every few days),
+// current weather changes within the hour and forecasts are re-run every few hours
+export const CACHE_POLICIES = {
+  soil: { freshMs: 3 * HOUR, staleMs: 12 * HOUR },
+  weather: { freshMs: 30 * MINUTE, staleMs: 2 * HOUR },
+  forecast: { freshMs: 3 * HOUR, staleMs: 6 * HOUR },
+  weatherHistory: { freshMs: 6 * HOUR, staleMs: 24 * HOUR },
+  imagery: { freshMs: 6 * HOUR, staleMs: 3 * 24 * HOUR },
+  indexStats: { freshMs: 24 * HOUR, staleMs: 7 * 24 * HOUR },
+  ndvi: { freshMs: 6 * HOUR, staleMs: 3 * 24 * HOUR },
+  polygon: { freshMs: 24 * HOUR, staleMs: 7 * 24 * HOUR },
+};
+
+// Rolling ranges are bucketed so "last 30 days until now" maps to the same key for a while
+const RANGE_BUCKET_SECONDS = 6 * 60 * 60;
+const MAX_ENTRIES = 1000;
+
+const entries = new Map(); // key -> { value, storedAt }
+const inflight = new Map(); // key -> Promise, so identical concurrent requests share one upstream call
+
+/**
+ * Build a cache key
+ * @param {string} polyid - AgroMonitoring polygon id
+ * @param {string} endpoint - Upstream endpoint name (soil, ndvi, polygon, ...)
+ * @param {object} [range] - Optional { start, end, rolling } in unix seconds; only a rolling range
+ *   (ending now, see utils/timeWindow.js) is bucketed, explicit bounds are keyed as given
+ * @returns {string} Cache key
+ */
+export function cacheKey(polyid, endpoint, range) {
+  if (!range) return `${polyid}:${endpoint}`;
+  if (!range.rolling) return `${polyid}:${endpoint}:${range.start}-${range.end}`;
+  const bucket = (ts) => Math.floor(ts / RANGE_BUCKET_SECONDS) * RANGE_BUCKET_SECONDS;
+  return `${polyid}:${endpoint}:${bucket(range.start)}-${bucket(range.end)}`;
+}
+
+function store(key, value) {
+  // Map keeps insertion order - drop the oldest entry when full
+  entries.delete(key);
+  entries.set(key, { value, storedAt: Date.now() });
+  if (entries.size > MAX_ENTRIES) {
+    entries.delete(entries.keys().next().value);
+  }
+}
+
+function load(key, loader) {
+  if (inflight.has(key)) return inflight.get(key);
+
+  const promise = Promise.resolve()
+    .then(loader)
+    .then((value) => {
+      store(key, value);
+      return value;
+    })
+    .finally(() => inflight.delete(key));
+
+  inflight.set(key, promise);
+  return promise;
+}
+
+/**
+ * Read a value through the cache
+ * Errors thrown by the loader are never cached
+ * @param {string} key - Cache key from cacheKey()
+ * @param {object} policy - One of CACHE_POLICIES
+ * @param {Function} loader - Async function fetching the value from upstream
+ * @returns {Promise<{value: any, cache: "hit"|"stale"|"miss", ageSeconds: number}>}
+ */
+export async function cached(key, policy, loader) {
+  const entry = entries.get(key);
+  const age = entry ? Date.now() - entry.storedAt : Infinity;
+
+  if (entry && age < policy.freshMs) {
+    return { value: entry.value, cache: "hit", ageSeconds: Math.round(age / 1000) };
+  }
+
+  if (entry && age < policy.freshMs + policy.staleMs) {
+    // Serve the stale copy now and refresh it for the next caller
+    load(key, loader).catch((error) => {
+      console.warn(`⚠️  Background refresh failed for ${key}:`, error.message);
+    });
+    return { value: entry.value, cache: "stale", ageSeconds: Math.round(age / 1000) };
+  }
+
+  const value = await load(key, loader);
+  return { value, cache: "miss", ageSeconds: 0 };
+}
+
+/**
+ * Drop every entry whose key starts with the given prefix (e.g. a polyid)
+ * @param {string} prefix - Key prefix
+ * @returns {number} Number of entries removed
+ */
+export function invalidate(prefix) {
+  let removed = 0;
+  for (const key of entries.keys()) {
+    if (key.startsWith(prefix)) {
+      entries.delete(key);
+      removed++;
+    }
+  }
+  return removed;
+}
+
+/**
+ * Set the X-Cache / Age headers describing where a response came from
+ * @param {object} res - Express response object
+ * @param {object} result - Result of cached()
+ */
+export function setCacheHeaders(res, result) {
+  res.set("X-Cache", result.cache.toUpperCase());
+  res.set("Age", String(result.ageSeconds));
+}
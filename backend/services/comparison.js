@@ -0,0 +1,384 @@
+/**
+ * Nearby-Area Comparison
+ * Reproducible neighbours for a field: candidate areas are drawn around the field's center by a seeded
+ * random generator, so the same field, radius, sample count, strategy and seed always give the same
+ * areas - for everyone, on every run. The candidates are analyzed through the batch queue
+ * (services/batchAnalysis.js).
+ *
+ * Footprints - what is drawn around each point:
+ *   - square: a 3 ha square, whatever the field's size
+ *   - area:   a square with the field's own area, so NDVI and soil statistics cover as much ground as the field's
+ *   - shape:  the field's outline moved to the point (distances kept in meters, not degrees)
+ *
+ * Strategies:
+ *   - random: uniform over the disk of `radiusKm`, at least min(5 km, 10% of the radius) apart (50 tries per point)
+ *   - grid:   a regular grid over the disk (cells of equal area, seeded offset), points taken in a seeded order
+ *   - rings:  points evenly spaced on concentric rings at 1/3, 2/3 and all of the radius, more on the outer rings
+ *
+ * Cropland only: three times as many candidates are drawn and taken in order until `samples` pass the land
+ * cover checks (services/landCover.js) - the local cropland mask first, then an NDVI pre-check of the
+ * candidate's polygon before it is analyzed. Candidates turned down are returned with the reason.
+ */
+
+import { ringCenter, ringAreaSquareMeters } from "../utils/geometry.js";
+import { validateBatch, startBatch, waitForBatch } from "./batchAnalysis.js";
+import { hasCroplandMask, checkCroplandMask, checkCroplandNdvi } from "./landCover.js";
+import { listFieldAnalyses } from "../store/analysisStore.js";
+
+export const DEFAULT_RADIUS_KM = 100;
+export const DEFAULT_SAMPLES = 4;
+export const SAMPLING_STRATEGIES = ["random", "grid", "rings"];
+export const FOOTPRINTS = ["square", "area", "shape"];
+const RADIUS_LIMITS = { min: 1, max: 200 };
+const SAMPLE_LIMITS = { min: 1, max: 12 };
+const MAX_SEED_LENGTH = 100;
+
+const EARTH_RADIUS_KM = 6371;
+// Same sphere as the area computation, so a square of the field's area measures the same
+const KM_PER_DEGREE = (Math.PI * EARTH_RADIUS_KM) / 180;
+const AREA_SQUARE_METERS = 30000; // 3 ha
+const MAX_TRIES = 50;
+const MAX_RINGS = 3;
+const CROPLAND_POOL_FACTOR = 3; // candidates drawn per wanted area in cropland-only mode
+
+const toRad = (deg) => (deg * Math.PI) / 180;
+const round = (value, digits) => Number(value.toFixed(digits));
+
+/**
+ * Random number generator (mulberry32) seeded from any string or number
+ * @param {string|number} seed
+ * @returns {Function} () => number in [0, 1)
+ */
+export function seededRandom(seed) {
+  // FNV-1a hash of the seed text
+  let state = 0x811c9dc5;
+  for (const char of String(seed)) {
+    state ^= char.codePointAt(0);
+    state = Math.imul(state, 0x01000193) >>> 0;
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Great-circle distance (haversine)
+ * @param {Array} a - [lat, lon]
+ * @param {Array} b - [lat, lon]
+ * @returns {number} km
+ */
+export function distanceKm([lat1, lon1], [lat2, lon2]) {
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+/**
+ * Field center as [lat, lon]
+ * @param {object} field - Field with a GeoJSON Polygon geometry
+ * @returns {Array|null}
+ */
+export function fieldCenter(field) {
+  const ring = field.geometry && field.geometry.coordinates && field.geometry.coordinates[0];
+  if (!Array.isArray(ring) || ring.length < 3) return null;
+  const [lon, lat] = ringCenter(ring);
+  return [lat, lon];
+}
+
+/**
+ * Check the comparison options from a request body
+ * @param {object} body - { radiusKm, samples, seed, strategy, croplandOnly, footprint }
+ * @param {object} field - Field compared (its id is the default seed)
+ * @returns {object} { radiusKm, samples, seed, strategy, croplandOnly, footprint }
+ * @throws {Error} With a user-facing message when an option is invalid
+ */
+export function validateComparison(body, field) {
+  const radiusKm = body.radiusKm === undefined ? DEFAULT_RADIUS_KM : Number(body.radiusKm);
+  if (!Number.isFinite(radiusKm) || radiusKm < RADIUS_LIMITS.min || radiusKm > RADIUS_LIMITS.max) {
+    throw new Error(`radiusKm must be between ${RADIUS_LIMITS.min} and ${RADIUS_LIMITS.max}`);
+  }
+
+  const samples = body.samples === undefined ? DEFAULT_SAMPLES : Number(body.samples);
+  if (!Number.isInteger(samples) || samples < SAMPLE_LIMITS.min || samples > SAMPLE_LIMITS.max) {
+    throw new Error(`samples must be an integer between ${SAMPLE_LIMITS.min} and ${SAMPLE_LIMITS.max}`);
+  }
+
+  // Without a seed the field id is used, so a field always gets the same neighbours by default
+  let seed = body.seed === undefined || body.seed === null || body.seed === "" ? field.id : body.seed;
+  if (typeof seed === "number" && Number.isFinite(seed)) seed = String(seed);
+  if (typeof seed !== "string" || seed.length > MAX_SEED_LENGTH) {
+    throw new Error(`seed must be a number or a string of at most ${MAX_SEED_LENGTH} characters`);
+  }
+
+  const strategy = body.strategy === undefined ? "random" : body.strategy;
+  if (!SAMPLING_STRATEGIES.includes(strategy)) {
+    throw new Error(`strategy must be one of ${SAMPLING_STRATEGIES.join(", ")}`);
+  }
+
+  const croplandOnly = body.croplandOnly === undefined ? false : body.croplandOnly;
+  if (typeof croplandOnly !== "boolean") throw new Error("croplandOnly must be true or false");
+
+  const footprint = body.footprint === undefined ? "square" : body.footprint;
+  if (!FOOTPRINTS.includes(footprint)) {
+    throw new Error(`footprint must be one of ${FOOTPRINTS.join(", ")}`);
+  }
+
+  return { radiusKm, samples, seed, strategy, croplandOnly, footprint };
+}
+
+/**
+ * Square of a given area centered on a point
+ * @param {Array} center - [lat, lon]
+ * @returns {Array} [lat, lon] corners (open ring)
+ */
+export function squareAround([lat, lon], areaSquareMeters = AREA_SQUARE_METERS) {
+  const halfSideKm = Math.sqrt(areaSquareMeters) / 1000 / 2;
+  const dLat = halfSideKm / KM_PER_DEGREE;
+  const dLon = halfSideKm / (KM_PER_DEGREE * Math.cos(toRad(lat)));
+  return [
+    [lat - dLat, lon - dLon],
+    [lat + dLat, lon - dLon],
+    [lat + dLat, lon + dLon],
+    [lat - dLat, lon + dLon],
+  ].map(([a, b]) => [round(a, 6), round(b, 6)]);
+}
+
+// Point `northKm` / `eastKm` away from a center, clamped to valid coordinates
+function offsetPoint([lat, lon], northKm, eastKm) {
+  const pointLat = lat + northKm / KM_PER_DEGREE;
+  const pointLon = lon + eastKm / (KM_PER_DEGREE * Math.cos(toRad(lat)));
+  return [round(Math.max(-90, Math.min(90, pointLat)), 6), round(Math.max(-180, Math.min(180, pointLon)), 6)];
+}
+
+function randomPoints(center, radiusKm, count, random) {
+  const minSpacingKm = Math.min(5, radiusKm * 0.1);
+  const randomPoint = () => {
+    const angle = random() * 2 * Math.PI;
+    // Square root for a uniform spread over the disk's area
+    const distance = Math.sqrt(random()) * radiusKm;
+    return offsetPoint(center, distance * Math.cos(angle), distance * Math.sin(angle));
+  };
+
+  const points = [];
+  for (let i = 0; i < count; i++) {
+    let point = randomPoint();
+    for (let tries = 1; tries < MAX_TRIES && points.some((p) => distanceKm(p.point, point) < minSpacingKm); tries++) {
+      point = randomPoint();
+    }
+    points.push({ point });
+  }
+  return points;
+}
+
+function gridPoints(center, radiusKm, count, random) {
+  // Cells of equal area, about `count` of them inside the disk
+  let spacing = radiusKm * Math.sqrt(Math.PI / count);
+  // Seeded shift of the whole grid, as a share of a cell
+  const shiftNorth = random() - 0.5;
+  const shiftEast = random() - 0.5;
+
+  let cells = [];
+  // The shift can leave a cell or two short - tighten the grid until the disk holds enough
+  for (let attempt = 0; attempt < 20; attempt++) {
+    cells = [];
+    const steps = Math.ceil(radiusKm / spacing) + 1;
+    for (let row = -steps; row <= steps; row++) {
+      for (let col = -steps; col <= steps; col++) {
+        const north = (row + shiftNorth) * spacing;
+        const east = (col + shiftEast) * spacing;
+        if (Math.hypot(north, east) <= radiusKm) cells.push([north, east]);
+      }
+    }
+    if (cells.length >= count) break;
+    spacing *= 0.9;
+  }
+
+  // Seeded shuffle (Fisher-Yates), so the cells taken are spread over the disk
+  for (let i = cells.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [cells[i], cells[j]] = [cells[j], cells[i]];
+  }
+  const gridSpacingKm = round(spacing, 2);
+  return cells.slice(0, count).map(([north, east]) => ({
+    point: offsetPoint(center, north, east),
+    grid_spacing_km: gridSpacingKm,
+  }));
+}
+
+function ringPoints(center, radiusKm, count, random) {
+  const ringCount = Math.min(MAX_RINGS, count);
+  // Points per ring grow with its circumference (largest remainder)
+  const weights = Array.from({ length: ringCount }, (_, i) => i + 1);
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  const shares = weights.map((w) => (count * w) / totalWeight);
+  const perRing = shares.map(Math.floor);
+  const byRemainder = shares.map((share, i) => [share - perRing[i], i]).sort((a, b) => b[0] - a[0] || a[1] - b[1]);
+  for (let k = 0; perRing.reduce((sum, n) => sum + n, 0) < count; k++) perRing[byRemainder[k][1]] += 1;
+
+  const rings = perRing.map((n, i) => {
+    const distance = (radiusKm * (i + 1)) / ringCount;
+    const rotation = random() * 2 * Math.PI;
+    return Array.from({ length: n }, (_, j) => {
+      const angle = rotation + (2 * Math.PI * j) / n;
+      return {
+        point: offsetPoint(center, distance * Math.cos(angle), distance * Math.sin(angle)),
+        ring: i + 1,
+        ring_km: round(distance, 2),
+      };
+    });
+  });
+
+  // Inner ring first, then round-robin, so the first points taken cover every ring
+  const points = [];
+  for (let j = 0; points.length < count; j++) {
+    for (const ring of rings) if (j < ring.length) points.push(ring[j]);
+  }
+  return points;
+}
+
+const SAMPLERS = { random: randomPoints, grid: gridPoints, rings: ringPoints };
+
+/**
+ * Footprint drawn around each candidate point
+ * @param {object} field - Field compared, with geometry
+ * @param {string} footprint - One of FOOTPRINTS
+ * @returns {Function} ([lat, lon]) => [lat, lon] corners (open ring)
+ */
+export function footprintOf(field, footprint) {
+  const ring = field.geometry.coordinates[0];
+  if (footprint === "area") {
+    const area = ringAreaSquareMeters(ring);
+    return (point) => squareAround(point, area);
+  }
+  if (footprint === "shape") {
+    // Vertices as km north / east of the field's center, re-applied at every point
+    const [centerLat, centerLon] = fieldCenter(field);
+    const closed = ring.length > 1 && ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1];
+    const offsets = (closed ? ring.slice(0, -1) : ring).map(([lon, lat]) => [
+      (lat - centerLat) * KM_PER_DEGREE,
+      (lon - centerLon) * KM_PER_DEGREE * Math.cos(toRad(centerLat)),
+    ]);
+    return (point) => offsets.map(([north, east]) => offsetPoint(point, north, east));
+  }
+  return (point) => squareAround(point);
+}
+
+// Area of a [lat, lon] ring in hectares
+const hectaresOf = (coordinates) => round(ringAreaSquareMeters(coordinates.map(([lat, lon]) => [lon, lat])) / 10000, 2);
+
+/**
+ * Seeded candidate areas around a center, in the order they are used
+ * @param {Array} center - [lat, lon]
+ * @param {object} options - { radiusKm, seed, strategy } from validateComparison
+ * @param {number} count - Number of candidates
+ * @param {Function} [shapeAt] - Footprint from footprintOf, a 3 ha square by default
+ * @returns {object[]} [{ index, center, coordinates, distance_km, area_ha, ...strategy details }]
+ */
+export function sampleCandidates(center, { radiusKm, seed, strategy = "random" }, count, shapeAt = squareAround) {
+  const random = seededRandom(seed);
+  return SAMPLERS[strategy](center, radiusKm, count, random).map(({ point, ...details }, index) => {
+    const coordinates = shapeAt(point);
+    return {
+      index,
+      center: point,
+      coordinates,
+      distance_km: round(distanceKm(center, point), 2),
+      // Of the polygon actually drawn - what the analysis is computed over
+      area_ha: hectaresOf(coordinates),
+      ...details,
+    };
+  });
+}
+
+// Analyzed (or failed) area as returned to the client
+function toArea(candidate, item) {
+  const analysis = item.result;
+  return {
+    ...candidate,
+    polyid: item.polyid,
+    status: item.status,
+    score: analysis && typeof analysis.Soil_Quality_Index === "number" ? analysis.Soil_Quality_Index : null,
+    fertility_level: analysis ? analysis.Fertility_Level || analysis.Soil_Quality_Level || "Unknown" : null,
+    summary: analysis ? analysis.Field_Summary || analysis.Summary || null : null,
+    analysisId: analysis ? analysis.Analysis_Id || null : null,
+    error: item.error,
+  };
+}
+
+/**
+ * Sample, analyze and rank the neighbours of a field
+ * @param {object} field - Field with geometry
+ * @param {object} options - { radiusKm, samples, seed, strategy, croplandOnly } from validateComparison
+ * @param {object} [query] - NDVI window (start / end / range) for the analyses
+ * @returns {Promise<object>} { fieldId, polyid, ...options, field, candidatesTried, croplandChecks, batchIds, areas, rejected }
+ */
+export async function compareField(field, options, query = {}) {
+  const center = fieldCenter(field);
+  const { samples, croplandOnly, footprint } = options;
+  const count = croplandOnly ? samples * CROPLAND_POOL_FACTOR : samples;
+  const candidates = sampleCandidates(center, options, count, footprintOf(field, footprint));
+
+  const areas = [];
+  const rejected = [];
+  const batchIds = [];
+  let next = 0;
+
+  // One batch per round: take the next candidates the mask lets through, analyze the ones whose NDVI
+  // passes too, and go again while areas are missing (without cropland checks one round does it all)
+  while (areas.length < samples && next < candidates.length) {
+    const batchCandidates = [];
+    while (batchCandidates.length < samples - areas.length && next < candidates.length) {
+      const candidate = candidates[next++];
+      const rejection = croplandOnly ? checkCroplandMask(candidate.center) : null;
+      if (rejection) rejected.push({ ...candidate, polyid: null, ...rejection });
+      else batchCandidates.push(candidate);
+    }
+    if (batchCandidates.length === 0) break;
+
+    // Comparison areas are throwaway polygons - not saved as fields, recycled when the quota runs out
+    const batch = validateBatch({
+      items: batchCandidates.map((candidate) => ({
+        ref: candidate.index,
+        coordinates: candidate.coordinates,
+        register: false,
+        temporary: true,
+      })),
+    });
+    const job = startBatch(batch, query, croplandOnly ? { precheck: checkCroplandNdvi } : {});
+    batchIds.push(job.id);
+    const done = await waitForBatch(job.id);
+
+    batchCandidates.forEach((candidate, i) => {
+      const item = done.items[i];
+      if (item.status === "rejected") rejected.push({ ...candidate, polyid: item.polyid, ...item.rejection });
+      else areas.push(toArea(candidate, item));
+    });
+  }
+
+  // Best first, failed areas last, the sample order breaks ties
+  areas.sort((a, b) => (b.score ?? -1) - (a.score ?? -1) || a.index - b.index);
+  rejected.sort((a, b) => a.index - b.index);
+
+  const [latest] = listFieldAnalyses(field, { limit: 1 }).items;
+  return {
+    fieldId: field.id,
+    polyid: field.polyid,
+    ...options,
+    field: {
+      center,
+      area_ha: round(ringAreaSquareMeters(field.geometry.coordinates[0]) / 10000, 2),
+      score: latest && typeof latest.result.Soil_Quality_Index === "number" ? latest.result.Soil_Quality_Index : null,
+      analysisId: latest ? latest.id : null,
+    },
+    candidatesTried: next,
+    croplandChecks: croplandOnly ? { mask: hasCroplandMask(), ndvi: true } : null,
+    batchIds,
+    areas,
+    rejected,
+  };
+}
@@ -0,0 +1,148 @@
+/**
+ * Crop Catalogue and Suitability Scoring
+ *
+ * Each crop has the 10 cm soil temperature (°C) and soil moisture (%) it grows best in, and the
+ * mean NDVI a healthy stand reaches at the peak of its season.
+ *
+ * A factor scores 100 inside the crop's range and falls linearly to 0 at the tolerance outside it:
+ *
+ *   Factor             Weight   Field value                                Tolerance
+ *   Soil temperature     40     10 cm (surface when there is no 10 cm)      10°C
+ *   Soil moisture        40     shallowest reading (services/soil.js)       15 %
+ *   Peak NDVI            20     highest scene mean in the NDVI history      0.3
+ *
+ * Suitability is the weighted average of the factors that have data (the weights of the others are
+ * scaled up, Confidence is the share of weight used). Factors below 100 are the limiting factors,
+ * worst first. Levels follow the Soil Quality Index: >= 70 High, >= 45 Moderate, otherwise Low.
+ */
+
+import { atDepth, topMoisture } from "./soil.js";
+import { peakNdvi, meanNdvi } from "./ndviHistory.js";
+
+export const CROP_CATALOGUE = [
+  { name: "barley", temp: [6, 18], moisture: [12, 35], ndvi: [0.6, 0.85] },
+  { name: "rye", temp: [4, 16], moisture: [10, 35], ndvi: [0.55, 0.8] },
+  { name: "oats", temp: [7, 18], moisture: [18, 40], ndvi: [0.6, 0.85] },
+  { name: "wheat", temp: [8, 22], moisture: [15, 35], ndvi: [0.6, 0.85] },
+  { name: "peas", temp: [8, 20], moisture: [20, 40], ndvi: [0.55, 0.8] },
+  { name: "canola", temp: [10, 22], moisture: [18, 38], ndvi: [0.6, 0.85] },
+  { name: "potatoes", temp: [12, 22], moisture: [22, 42], ndvi: [0.6, 0.85] },
+  { name: "soybeans", temp: [15, 28], moisture: [20, 40], ndvi: [0.65, 0.9] },
+  { name: "corn", temp: [16, 30], moisture: [20, 40], ndvi: [0.65, 0.9] },
+  { name: "sunflower", temp: [15, 30], moisture: [12, 32], ndvi: [0.55, 0.8] },
+  { name: "sorghum", temp: [20, 34], moisture: [8, 30], ndvi: [0.55, 0.8] },
+  { name: "millet", temp: [20, 35], moisture: [6, 28], ndvi: [0.45, 0.75] },
+  { name: "rice", temp: [20, 35], moisture: [40, 60], ndvi: [0.6, 0.85] },
+];
+
+const FACTORS = {
+  temperature: { weight: 40, tolerance: 10, range: "temp", unit: "°C", digits: 1, label: "Soil temperature" },
+  moisture: { weight: 40, tolerance: 15, range: "moisture", unit: "%", digits: 1, label: "Soil moisture" },
+  ndvi: { weight: 20, tolerance: 0.3, range: "ndvi", unit: "", digits: 2, label: "Peak NDVI" },
+};
+
+const LEVELS = [
+  { min: 70, level: "High" },
+  { min: 45, level: "Moderate" },
+  { min: 0, level: "Low" },
+];
+
+const isNumber = (value) => typeof value === "number" && !isNaN(value);
+
+/**
+ * Field conditions the crops are scored against
+ * @param {object} soilProfile - From parseSoilProfile (services/soil.js)
+ * @param {Array|null} ndviHistory - NDVI history entries
+ * @returns {object} { temperature, temperature_depth, moisture, ndvi, ndvi_mean } - null when unknown
+ *   ndvi is the peak NDVI the crops are scored on (the catalogue ranges are peak values);
+ *   ndvi_mean is only returned so the ranking can be shown next to the mean NDVI the analysis reports
+ */
+export function fieldConditions(soilProfile, ndviHistory) {
+  const temperature = atDepth(soilProfile.temperatures, 10) || atDepth(soilProfile.temperatures, 0);
+  const moisture = topMoisture(soilProfile.moisture);
+  const ndvi = peakNdvi(ndviHistory);
+  const mean = meanNdvi(ndviHistory);
+  return {
+    temperature: temperature ? Number(temperature.celsius.toFixed(2)) : null,
+    temperature_depth: temperature ? temperature.depth : null,
+    moisture: moisture !== null ? Number(moisture.toFixed(1)) : null,
+    ndvi: ndvi !== null ? Number(ndvi.toFixed(4)) : null,
+    ndvi_mean: mean !== null ? Number(mean.toFixed(4)) : null,
+  };
+}
+
+/**
+ * Look up a crop by name (case-insensitive)
+ * @returns {object|null} Catalogue entry
+ */
+export const findCrop = (name) =>
+  CROP_CATALOGUE.find((crop) => crop.name === String(name).trim().toLowerCase()) || null;
+
+// 1 inside [low, high], linear down to 0 at the tolerance outside
+function rangeScore(value, [low, high], tolerance) {
+  if (value < low) return Math.max(0, 1 - (low - value) / tolerance);
+  if (value > high) return Math.max(0, 1 - (value - high) / tolerance);
+  return 1;
+}
+
+/**
+ * Score one crop against the field
+ * @param {object} crop - Catalogue entry
+ * @param {object} conditions - { temperature (°C), moisture (%), ndvi } - null when unknown
+ * @returns {object} { crop, score, level, confidence, factors, limiting_factors }
+ */
+export function scoreCrop(crop, conditions) {
+  const factors = {};
+  for (const [name, factor] of Object.entries(FACTORS)) {
+    const value = conditions[name];
+    const range = crop[factor.range];
+    if (!isNumber(value)) {
+      factors[name] = { value: null, range, score: null };
+      continue;
+    }
+    factors[name] = {
+      value: Number(value.toFixed(factor.digits + 1)),
+      range,
+      score: Math.round(rangeScore(value, range, factor.tolerance) * 100),
+    };
+  }
+
+  const scored = Object.entries(factors).filter(([, f]) => f.score !== null);
+  const usedWeight = scored.reduce((sum, [name]) => sum + FACTORS[name].weight, 0);
+  const totalWeight = Object.values(FACTORS).reduce((sum, f) => sum + f.weight, 0);
+  const score = usedWeight > 0
+    ? Math.round(scored.reduce((sum, [name, f]) => sum + f.score * FACTORS[name].weight, 0) / usedWeight)
+    : null;
+
+  const limiting = scored
+    .filter(([, f]) => f.score < 100)
+    .sort((a, b) => a[1].score - b[1].score)
+    .map(([name, f]) => {
+      const { label, unit, digits } = FACTORS[name];
+      const [low, high] = f.range;
+      const direction = f.value < low ? "below" : "above";
+      return `${label} ${f.value.toFixed(digits)}${unit} is ${direction} the ${low}-${high}${unit} ${crop.name} needs`;
+    });
+
+  return {
+    crop: crop.name,
+    score,
+    level: score === null ? "Unknown" : LEVELS.find((band) => score >= band.min).level,
+    confidence: Number((usedWeight / totalWeight).toFixed(2)),
+    factors,
+    limiting_factors: limiting,
+  };
+}
+
+/**
+ * Score crops against the field, best first
+ * @param {object} conditions - See scoreCrop
+ * @param {object[]} [crops] - Catalogue entries, all crops by default
+ * @returns {object[]} scoreCrop results
+ */
+export function rankCrops(conditions, crops = CROP_CATALOGUE) {
+  return crops
+    .map((crop, index) => ({ index, result: scoreCrop(crop, conditions) }))
+    .sort((a, b) => (b.result.score ?? -1) - (a.result.score ?? -1) || a.index - b.index)
+    .map(({ result }) => result);
+}
@@ -0,0 +1,196 @@
+/**
+ * Field Export
+ * Saved fields and their analysis history in formats GIS and spreadsheet tools read:
+ * a GeoJSON FeatureCollection or CSV (geometry as a WKT column) of the fields with their latest analysis,
+ * and a CSV of every analysis of one field
+ */
+
+import { listFields } from "../store/fieldStore.js";
+import { listAllFieldAnalyses } from "../store/analysisStore.js";
+import { ringAreaSquareMeters, ringCenter } from "../utils/geometry.js";
+import { toCsv } from "../utils/csv.js";
+import { parseSoilProfile, atDepth } from "./soil.js";
+
+export const EXPORT_FORMATS = ["geojson", "csv"];
+
+// Columns of one analysis, shared by the field export (latest analysis) and the history export
+export const ANALYSIS_COLUMNS = [
+  "analysis_id",
+  "analyzed_at",
+  "source",
+  "model",
+  "prompt_version",
+  "soil_quality_index",
+  "soil_quality_level",
+  "fertility_level",
+  "confidence",
+  "ndvi_current",
+  "ndvi_mean",
+  "ndvi_median",
+  "ndvi_min",
+  "ndvi_max",
+  "ndvi_std",
+  "ndvi_scenes",
+  "ndvi_start",
+  "ndvi_end",
+  "evi_mean",
+  "ndwi_mean",
+  "savi_mean",
+  "moisture_pct",
+  "soil_temp_surface_c",
+  "soil_temp_10cm_c",
+  "soil_temp_100cm_c",
+  "moisture_10cm_pct",
+  "moisture_100cm_pct",
+  "soil_temperature_profile",
+  "soil_moisture_profile",
+  "air_temp_c",
+  "soil_data_at",
+];
+
+const FIELD_COLUMNS = [
+  "field_id",
+  "name",
+  "location_name",
+  "polyid",
+  "area_ha",
+  "center_lat",
+  "center_lon",
+  "created_at",
+  "updated_at",
+  "analyses",
+];
+
+const round = (value, digits) => {
+  const number = typeof value === "string" ? Number(value) : value;
+  if (typeof number !== "number" || !Number.isFinite(number)) return null;
+  const factor = 10 ** digits;
+  return Math.round(number * factor) / factor;
+};
+
+const kelvinToCelsius = (kelvin) => (typeof kelvin === "number" ? round(kelvin - 273.15, 2) : null);
+
+// Every depth of a profile in one cell, e.g. "0cm:8.61;10cm:8.26;100cm:6.1" ("top" when the depth is unknown)
+const profileCell = (readings, key, digits) =>
+  readings.length > 0
+    ? readings.map((reading) => `${reading.depth === null ? "top" : `${reading.depth}cm`}:${round(reading[key], digits)}`).join(";")
+    : null;
+
+/**
+ * Flatten a stored analysis into ANALYSIS_COLUMNS
+ * Measurements come from the inputs the analysis was computed from, scores from its result
+ * @param {object|null} record - Analysis record (store/analysisStore.js)
+ * @returns {object} Column -> value (all null without a record)
+ */
+export function analysisRow(record) {
+  if (!record) return Object.fromEntries(ANALYSIS_COLUMNS.map((column) => [column, null]));
+
+  const { inputs = {}, result = {} } = record;
+  const soil = inputs.soil || {};
+  const ndvi = inputs.ndvi || {};
+  const indices = inputs.indices || {};
+  const sqi = result.Soil_Quality_Index;
+  // Analyses saved before the profile was stored only have the raw snapshot
+  const profile = inputs.soilProfile || parseSoilProfile(soil);
+  const topMoisture = profile.moisture[0] || null;
+
+  return {
+    analysis_id: record.id,
+    analyzed_at: record.createdAt,
+    source: record.source ?? null,
+    model: record.model ?? null,
+    prompt_version: record.promptVersion ?? null,
+    soil_quality_index: typeof sqi === "number" ? sqi : round(sqi, 1),
+    soil_quality_level: result.Soil_Quality_Level ?? null,
+    fertility_level: result.Fertility_Level ?? null,
+    confidence: round(result.Confidence, 2),
+    ndvi_current: round(ndvi.current, 4),
+    ndvi_mean: round(ndvi.mean, 4),
+    ndvi_median: round(ndvi.median, 4),
+    ndvi_min: round(ndvi.min, 4),
+    ndvi_max: round(ndvi.max, 4),
+    ndvi_std: round(ndvi.std, 4),
+    ndvi_scenes: ndvi.entries ?? null,
+    ndvi_start: ndvi.window ? ndvi.window.start : null,
+    ndvi_end: ndvi.window ? ndvi.window.end : null,
+    evi_mean: round(indices.evi?.mean, 4),
+    ndwi_mean: round(indices.ndwi?.mean, 4),
+    savi_mean: round(indices.savi?.mean, 4),
+    moisture_pct: topMoisture ? round(topMoisture.percent, 1) : null,
+    soil_temp_surface_c: kelvinToCelsius(soil.t0),
+    soil_temp_10cm_c: kelvinToCelsius(soil.t10),
+    soil_temp_100cm_c: round(atDepth(profile.temperatures, 100)?.celsius, 2),
+    moisture_10cm_pct: round(atDepth(profile.moisture, 10)?.percent, 1),
+    moisture_100cm_pct: round(atDepth(profile.moisture, 100)?.percent, 1),
+    soil_temperature_profile: profileCell(profile.temperatures, "celsius", 2),
+    soil_moisture_profile: profileCell(profile.moisture, "percent", 1),
+    air_temp_c: round(inputs.weather?.current?.temperature, 1),
+    soil_data_at: typeof soil.dt === "number" ? new Date(soil.dt * 1000).toISOString() : null,
+  };
+}
+
+// Field attributes plus its latest analysis
+function fieldRow(field) {
+  const ring = field.geometry?.coordinates?.[0] || null;
+  const analyses = listAllFieldAnalyses(field);
+  const areaInSquareMeters = field.areaInSquareMeters ?? (ring ? ringAreaSquareMeters(ring) : null);
+  const [lon, lat] = ring ? ringCenter(ring) : [null, null];
+
+  return {
+    field_id: field.id,
+    name: field.name ?? null,
+    location_name: field.locationName ?? null,
+    polyid: field.polyid ?? null,
+    area_ha: areaInSquareMeters !== null ? round(areaInSquareMeters / 10000, 4) : null,
+    center_lat: round(lat, 6),
+    center_lon: round(lon, 6),
+    created_at: field.createdAt,
+    updated_at: field.updatedAt,
+    analyses: analyses.length,
+    ...analysisRow(analyses[0] || null),
+  };
+}
+
+// GeoJSON Polygon -> WKT POLYGON
+const toWkt = (geometry) =>
+  geometry?.type === "Polygon"
+    ? `POLYGON (${geometry.coordinates.map((ring) => `(${ring.map(([lon, lat]) => `${lon} ${lat}`).join(", ")})`).join(", ")})`
+    : null;
+
+/**
+ * Export every saved field with its latest analysis
+ * @param {string} format - One of EXPORT_FORMATS
+ * @returns {object} GeoJSON FeatureCollection (geojson) or CSV text (csv)
+ */
+export function exportFields(format) {
+  const fields = listFields();
+
+  if (format === "csv") {
+    return toCsv(
+      [...FIELD_COLUMNS, ...ANALYSIS_COLUMNS, "wkt"],
+      fields.map((field) => ({ ...fieldRow(field), wkt: toWkt(field.geometry) }))
+    );
+  }
+
+  return {
+    type: "FeatureCollection",
+    features: fields.map((field) => ({
+      type: "Feature",
+      id: field.id,
+      geometry: field.geometry || null,
+      properties: fieldRow(field),
+    })),
+  };
+}
+
+/**
+ * A field's analysis history as CSV, newest first
+ * @param {object} field - Field record
+ * @returns {string} CSV text
+ */
+export const exportFieldAnalyses = (field) =>
+  toCsv(["field_id", "field_name", ...ANALYSIS_COLUMNS], listAllFieldAnalyses(field).map((record) => ({
+    field_id: field.id,
+    field_name: field.name ?? null,
+    ...analysisRow(record),
+  })));
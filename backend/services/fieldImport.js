@@ -0,0 +1,319 @@
+/**
+ * Field Import
+ * Creates fields from the boundary files farm-management software exports, instead of redrawing them:
+ *
+ *   - GeoJSON: FeatureCollection, Feature or bare geometry (a legacy `crs` member is honored)
+ *   - KML / KMZ: the polygons of every Placemark, named by its <name>
+ *   - Shapefile: a .zip with .shp + .dbf, plus .prj for projected files and .cpg for the text encoding
+ *
+ * Coordinates are reprojected to WGS84 (utils/projection.js) and every polygon is validated on its own -
+ * a bad feature is reported and skipped, the rest are still imported. Multi-part features become one field
+ * per part; holes are dropped, as fields are simple polygons. A shape that is already saved as a field
+ * (same outline, see geometryHash) is not imported twice.
+ */
+
+import path from "path";
+import { createField, listFields } from "../store/fieldStore.js";
+import { toPolygonGeometry, ringAreaSquareMeters, ringSelfIntersects, geometryHash } from "../utils/geometry.js";
+import { resolveCrs } from "../utils/projection.js";
+import { isZip, unzip } from "../utils/zip.js";
+import { readShp, readDbf } from "../utils/shapefile.js";
+import { readKml } from "../utils/kml.js";
+
+export const IMPORT_FORMATS = ["geojson", "kml", "kmz", "shapefile"];
+export const MAX_IMPORT_FEATURES = 500;
+
+const MAX_FIELD_HECTARES = 10000;
+// Property keys tried for a field's name, in order (case-insensitive)
+const NAME_KEYS = ["name", "field_name", "fieldname", "field", "title", "label", "id"];
+
+const EXTENSIONS = { ".geojson": "geojson", ".json": "geojson", ".kml": "kml", ".kmz": "kmz", ".zip": "shapefile" };
+
+/**
+ * Work out the format of an upload
+ * @param {Buffer|object} input - Raw file, or a GeoJSON object already parsed from a JSON body
+ * @param {object} [hints]
+ * @param {string} [hints.format] - Format named by the client
+ * @param {string} [hints.filename] - Original file name
+ * @returns {string} One of IMPORT_FORMATS
+ * @throws {Error} When the format is unknown
+ */
+export function detectFormat(input, { format, filename } = {}) {
+  if (format) {
+    const named = String(format).toLowerCase();
+    if (!IMPORT_FORMATS.includes(named)) throw new Error(`format must be one of ${IMPORT_FORMATS.join(", ")}`);
+    return named;
+  }
+  if (!Buffer.isBuffer(input)) return "geojson";
+
+  const byExtension = filename && EXTENSIONS[path.extname(filename).toLowerCase()];
+  if (byExtension) return byExtension;
+
+  // Sniff the contents
+  if (isZip(input)) {
+    return [...unzip(input).keys()].some((name) => name.toLowerCase().endsWith(".kml")) ? "kmz" : "shapefile";
+  }
+  const head = input.subarray(0, 1024).toString("utf8").trimStart();
+  if (head.startsWith("{")) return "geojson";
+  if (/<(?:[\w-]+:)?kml\b/.test(head) || head.startsWith("<?xml")) return "kml";
+  throw new Error("Unrecognized file - upload GeoJSON, KML, KMZ or a zipped shapefile");
+}
+
+// Polygons of a GeoJSON geometry as [outer, ...holes] ring lists
+function geoJsonPolygons(geometry) {
+  if (!geometry) throw new Error("Feature has no geometry");
+  switch (geometry.type) {
+    case "Polygon":
+      return [geometry.coordinates];
+    case "MultiPolygon":
+      return geometry.coordinates;
+    case "GeometryCollection":
+      return (geometry.geometries || []).flatMap((part) => (/Polygon$/.test(part.type) ? geoJsonPolygons(part) : []));
+    default:
+      throw new Error(`${geometry.type} is not a polygon`);
+  }
+}
+
+function readGeoJson(input) {
+  let geojson = input;
+  if (Buffer.isBuffer(input)) {
+    try {
+      geojson = JSON.parse(input.toString("utf8"));
+    } catch (parseError) {
+      throw new Error(`Invalid GeoJSON: ${parseError.message}`);
+    }
+  }
+  if (!geojson || typeof geojson !== "object" || !geojson.type) throw new Error("Invalid GeoJSON: no `type`");
+
+  const features = geojson.type === "FeatureCollection" ? geojson.features || []
+    : geojson.type === "Feature" ? [geojson]
+    : [{ type: "Feature", properties: {}, geometry: geojson }];
+  const crs = resolveCrs(geojson.crs && geojson.crs.properties ? geojson.crs.properties.name : null);
+
+  return {
+    crs,
+    features: features.map((feature) => {
+      try {
+        return { properties: feature.properties || {}, polygons: geoJsonPolygons(feature.geometry) };
+      } catch (featureError) {
+        return { properties: (feature && feature.properties) || {}, polygons: [], error: featureError.message };
+      }
+    }),
+  };
+}
+
+function fromKmlText(text) {
+  return {
+    crs: resolveCrs(null), // KML is always WGS84
+    features: readKml(text).map(({ properties, polygons, geometryTypes }) => ({
+      properties,
+      polygons,
+      error: polygons.length === 0 ? `${geometryTypes.join(" / ") || "Placemark without geometry"} is not a polygon` : undefined,
+    })),
+  };
+}
+
+function readShapefileZip(buffer) {
+  const files = unzip(buffer);
+  const byLowerName = new Map([...files.keys()].map((name) => [name.toLowerCase(), name]));
+  const sibling = (base, extension) => {
+    const name = byLowerName.get(`${base}${extension}`);
+    return name ? files.get(name) : null;
+  };
+
+  const layers = [...byLowerName.keys()].filter((name) => name.endsWith(".shp")).map((name) => name.slice(0, -4));
+  if (layers.length === 0) throw new Error("The archive has no .shp file");
+
+  const crsNames = new Set();
+  const features = [];
+  for (const base of layers) {
+    const layer = path.basename(byLowerName.get(`${base}.shp`), path.extname(base + ".shp"));
+    const prj = sibling(base, ".prj");
+    const cpg = sibling(base, ".cpg");
+    const dbf = sibling(base, ".dbf");
+
+    let crs;
+    try {
+      crs = resolveCrs(prj ? prj.toString("utf8") : null);
+    } catch (crsError) {
+      throw new Error(`${layer}: ${crsError.message}`);
+    }
+    crsNames.add(crs.name);
+
+    const records = readShp(sibling(base, ".shp"));
+    const rows = dbf ? readDbf(dbf, cpg ? cpg.toString("utf8").trim() : "utf-8") : [];
+    records.forEach((polygons, i) => {
+      features.push({
+        layer,
+        crs,
+        properties: rows[i] || {},
+        polygons: polygons || [],
+        error: polygons ? undefined : "Empty (null) shape",
+      });
+    });
+  }
+  return { crs: { name: [...crsNames].join(", ") }, features, layers: layers.length };
+}
+
+/**
+ * Read the features of a boundary file
+ * @param {Buffer|object} input - Raw file, or parsed GeoJSON
+ * @param {string} format - One of IMPORT_FORMATS (see detectFormat)
+ * @returns {object} { crs: { name }, features: [{ properties, polygons: [[outer, ...holes] of [lon, lat] rings], error? }] }
+ * @throws {Error} With a user-facing message when the file cannot be read
+ */
+export function readBoundaryFile(input, format) {
+  let parsed;
+  if (format === "geojson") parsed = readGeoJson(input);
+  else if (format === "kml") parsed = fromKmlText(Buffer.isBuffer(input) ? input.toString("utf8") : String(input));
+  else if (format === "kmz") {
+    const files = unzip(input);
+    const kml = [...files.keys()].find((name) => name.toLowerCase() === "doc.kml") ||
+      [...files.keys()].find((name) => name.toLowerCase().endsWith(".kml"));
+    if (!kml) throw new Error("The KMZ archive has no .kml document");
+    parsed = fromKmlText(files.get(kml).toString("utf8"));
+  } else parsed = readShapefileZip(input);
+
+  if (parsed.features.length === 0) throw new Error("The file has no features");
+  if (parsed.features.length > MAX_IMPORT_FEATURES) {
+    throw new Error(`The file has ${parsed.features.length} features - import at most ${MAX_IMPORT_FEATURES} at a time`);
+  }
+
+  // Shapefile layers each carry their own CRS, the other formats one for the whole file
+  const features = parsed.features.map(({ crs = parsed.crs, ...feature }) => ({
+    ...feature,
+    polygons: feature.polygons.map((rings) => rings.map((ring) => ring.map((point) => crs.toLonLat(point.slice(0, 2))))),
+  }));
+  return { crs: { name: parsed.crs.name }, features };
+}
+
+// Open ring without repeated vertices
+function distinctVertices(ring) {
+  const points = ring.filter((point, i) => i === 0 || point[0] !== ring[i - 1][0] || point[1] !== ring[i - 1][1]);
+  if (points.length > 1 && points[0][0] === points[points.length - 1][0] && points[0][1] === points[points.length - 1][1]) {
+    points.pop();
+  }
+  return points;
+}
+
+/**
+ * Check one polygon and turn it into a field geometry
+ * @param {Array} rings - [outer, ...holes] of [lon, lat] rings
+ * @returns {object} { geometry, areaInSquareMeters, warnings }
+ * @throws {Error} With a user-facing message when the polygon cannot be a field
+ */
+export function validateImportedPolygon(rings) {
+  const outer = distinctVertices(rings[0] || []);
+  if (outer.some(([lon, lat]) => !Number.isFinite(lon) || !Number.isFinite(lat))) {
+    throw new Error("Coordinates are not numbers");
+  }
+  if (outer.some(([lon, lat]) => Math.abs(lon) > 180 || Math.abs(lat) > 90)) {
+    throw new Error("Coordinates are out of range - the file looks projected, include its .prj (or GeoJSON `crs`)");
+  }
+  if (outer.length < 3) throw new Error("A polygon needs at least 3 distinct points");
+  if (ringSelfIntersects(outer)) throw new Error("The outline crosses itself");
+
+  const areaInSquareMeters = ringAreaSquareMeters(outer);
+  if (areaInSquareMeters < 1) throw new Error("The polygon has no area");
+  if (areaInSquareMeters / 10000 > MAX_FIELD_HECTARES) {
+    throw new Error(`Larger than ${MAX_FIELD_HECTARES.toLocaleString("en-US")} ha - check the file's coordinate system`);
+  }
+
+  const warnings = [];
+  if (rings.length > 1) warnings.push(`${rings.length - 1} hole(s) dropped - fields are stored without holes`);
+  return {
+    geometry: toPolygonGeometry({ type: "Polygon", coordinates: [outer] }),
+    areaInSquareMeters: Math.round(areaInSquareMeters),
+    warnings,
+  };
+}
+
+function fieldName(properties, nameProperty, fallback) {
+  if (nameProperty) {
+    const value = properties[nameProperty];
+    return value !== undefined && value !== null && String(value).trim() ? String(value).trim() : fallback;
+  }
+  const keys = Object.keys(properties);
+  for (const wanted of NAME_KEYS) {
+    const key = keys.find((k) => k.toLowerCase() === wanted);
+    if (key && properties[key] !== null && properties[key] !== undefined && String(properties[key]).trim()) {
+      return String(properties[key]).trim();
+    }
+  }
+  return fallback;
+}
+
+/**
+ * Validate the features of a boundary file and create a field for every valid polygon
+ * @param {object} file - From readBoundaryFile
+ * @param {object} [options]
+ * @param {boolean} [options.dryRun=false] - Only validate, create nothing
+ * @param {string} [options.nameProperty] - Property to name fields by (default: name, field_name, ... )
+ * @param {string} [options.baseName="Imported field"] - Name prefix for features without a name
+ * @returns {object} { total, created, valid, duplicates, invalid, results: [{ feature, part, name, status, fieldId, ... }] }
+ */
+export function importFields(file, { dryRun = false, nameProperty, baseName = "Imported field" } = {}) {
+  const known = new Map(); // geometry hash -> field id
+  for (const field of listFields()) {
+    if (field.geometry && field.geometry.coordinates) known.set(geometryHash(field.geometry.coordinates[0]), field.id);
+  }
+
+  const results = [];
+  file.features.forEach((feature, index) => {
+    const name = fieldName(feature.properties, nameProperty, `${baseName} ${index + 1}`);
+    const layer = feature.layer ? { layer: feature.layer } : {};
+
+    if (feature.error) {
+      results.push({ feature: index, part: null, ...layer, name, status: "invalid", message: feature.error });
+      return;
+    }
+
+    feature.polygons.forEach((rings, part) => {
+      const partName = feature.polygons.length > 1 ? `${name} (${part + 1}/${feature.polygons.length})` : name;
+      const entry = { feature: index, part: feature.polygons.length > 1 ? part : null, ...layer, name: partName };
+
+      let checked;
+      try {
+        checked = validateImportedPolygon(rings);
+      } catch (validationError) {
+        results.push({ ...entry, status: "invalid", message: validationError.message });
+        return;
+      }
+
+      const hash = geometryHash(checked.geometry.coordinates[0]);
+      if (known.has(hash)) {
+        results.push({ ...entry, status: "duplicate", fieldId: known.get(hash), message: "Already saved as a field", areaInSquareMeters: checked.areaInSquareMeters });
+        return;
+      }
+
+      let fieldId = null;
+      if (!dryRun) {
+        fieldId = createField({
+          name: partName,
+          geometry: checked.geometry,
+          areaInSquareMeters: checked.areaInSquareMeters,
+          shapeType: "Polygon",
+        }).id;
+      }
+      known.set(hash, fieldId);
+      results.push({
+        ...entry,
+        status: dryRun ? "valid" : "created",
+        fieldId,
+        areaInSquareMeters: checked.areaInSquareMeters,
+        geometry: checked.geometry,
+        warnings: checked.warnings,
+      });
+    });
+  });
+
+  const count = (status) => results.filter((result) => result.status === status).length;
+  return {
+    total: results.length,
+    created: count("created"),
+    valid: count("valid") + count("created"),
+    duplicates: count("duplicate"),
+    invalid: count("invalid"),
+    results,
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * Satellite Imagery
+ * Scene search for a polygon and the images of one scene. Image URLs handed to the
+ * frontend point back at this backend, so the AgroMonitoring key never leaves the server.
+ */
+
+import { cached, cacheKey, CACHE_POLICIES } from "./cache.js";
+import { getProvider } from "../providers/index.js";
+
+// Layers the map can show
+export const IMAGE_LAYERS = ["ndvi", "truecolor"];
+
+// "Sentinel-2" -> "sentinel-2", so scene ids are URL-safe
+const slug = (value) => String(value || "scene").toLowerCase().replace(/[^a-z0-9]+/g, "-");
+
+/**
+ * Scene id used in image URLs: acquisition time and satellite, e.g. 1790937000-sentinel-2
+ */
+export const sceneIdOf = (scene) => `${scene.dt}-${slug(scene.type)}`;
+
+export const searchScenes = (polyid, window) =>
+  cached(cacheKey(polyid, "imagery", window), CACHE_POLICIES.imagery, () =>
+    getProvider().searchImagery(polyid, { start: window.start, end: window.end })
+  );
+
+/**
+ * Scene summary for the frontend
+ * @param {object} scene - Provider scene
+ * @param {Function} imageUrl - (sceneId, layer) => URL of the image endpoint
+ * @returns {object} { id, dt, date, source, cloud_cover, data_coverage, layers: { ndvi, truecolor } }
+ */
+export function toSceneSummary(scene, imageUrl) {
+  const id = sceneIdOf(scene);
+  return {
+    id,
+    dt: scene.dt,
+    date: new Date(scene.dt * 1000).toISOString(),
+    source: scene.type || null,
+    cloud_cover: typeof scene.cl === "number" ? scene.cl : null,
+    data_coverage: typeof scene.dc === "number" ? scene.dc : null,
+    layers: Object.fromEntries(
+      IMAGE_LAYERS.filter((layer) => scene.image && scene.image[layer]).map((layer) => [layer, imageUrl(id, layer)])
+    ),
+  };
+}
+
+/**
+ * Find a scene by id - searches the second it was taken
+ * @param {string} polyid - Polygon id
+ * @param {string} sceneId - Id from sceneIdOf
+ * @returns {Promise<object|null>} Provider scene, or null when there is none
+ */
+export async function findScene(polyid, sceneId) {
+  const dt = Number(String(sceneId).split("-")[0]);
+  if (!Number.isInteger(dt) || dt <= 0) return null;
+
+  const { value } = await searchScenes(polyid, { start: dt - 1, end: dt + 1 });
+  return (Array.isArray(value) ? value : []).find((scene) => sceneIdOf(scene) === sceneId) || null;
+}
@@ -0,0 +1,141 @@
+/**
+ * Vegetation and Water Indices
+ * EVI, NDWI and SAVI for the analysis, next to NDVI. NDVI saturates over dense canopies (EVI
+ * does not) and is skewed by bare soil in sparse or young crops (SAVI corrects for it); NDWI
+ * tracks canopy water content, which helps in irrigated fields.
+ *
+ * Statistics come from the most recent clear satellite scenes (AgroMonitoring image stats) and are
+ * summarized the same way as the NDVI history in the analysis: the latest scene's statistics,
+ * replaced by mean / median / min / max / std across scene means when there are several scenes.
+ *
+ * AgroMonitoring publishes no SAVI, so it is derived per scene from the NDVI and EVI2 means:
+ * both are functions of the red and near infrared reflectances, which fixes NIR + Red and so
+ * SAVI = 1.5 (NIR - Red) / (NIR + Red + 0.5). It is exact for a uniform field and close otherwise.
+ */
+
+import { cached, cacheKey, CACHE_POLICIES } from "./cache.js";
+import { getProvider } from "../providers/index.js";
+import { searchScenes } from "./imagery.js";
+
+// Indices reported next to NDVI
+export const VEGETATION_INDICES = ["evi", "ndwi", "savi"];
+
+// Scene stats to fetch per scene (SAVI is derived from ndvi + evi2)
+const FETCHED_INDICES = ["ndvi", "evi", "evi2", "ndwi"];
+
+// Only the most recent clear scenes, to keep the number of stats requests down
+const MAX_SCENES = 6;
+const MAX_CLOUD = 30;
+
+const isNumber = (value) => typeof value === "number" && !isNaN(value);
+
+/**
+ * SAVI (L = 0.5) from NDVI and EVI2 of the same pixels
+ * @returns {number|null} null when the pair does not correspond to real reflectances
+ */
+export function saviFromNdviAndEvi2(ndvi, evi2) {
+  if (!isNumber(ndvi) || !isNumber(evi2)) return null;
+  // EVI2 = 2.5 (NIR - Red) / (NIR + 2.4 Red + 1) with NIR - Red = NDVI * (NIR + Red), solved for NIR + Red
+  const denominator = 2.5 * ndvi - evi2 * (1.7 - 0.7 * ndvi);
+  if (denominator === 0) return null;
+  const sum = evi2 / denominator;
+  if (!(sum > 0)) return null;
+  return (1.5 * ndvi * sum) / (sum + 0.5);
+}
+
+/**
+ * Summarize one index over scenes, like the NDVI history
+ * @param {Array} history - [{ dt, data: { mean, median, min, max, std } }], oldest first
+ * @returns {object|null} { mean, median, min, max, std, scenes }, null without any mean
+ */
+export function summarizeIndexHistory(history) {
+  const entries = history.filter((entry) => entry.data && isNumber(entry.data.mean));
+  if (entries.length === 0) return null;
+
+  const latest = entries[entries.length - 1].data;
+  const pick = (value) => (isNumber(value) ? value : null);
+  const summary = {
+    mean: latest.mean,
+    median: pick(latest.median),
+    min: pick(latest.min),
+    max: pick(latest.max),
+    std: pick(latest.std),
+    scenes: entries.length,
+  };
+
+  if (entries.length > 1) {
+    const means = entries.map((entry) => entry.data.mean);
+    const sorted = [...means].sort((a, b) => a - b);
+    const mean = means.reduce((a, b) => a + b, 0) / means.length;
+
+    summary.mean = mean;
+    summary.median = sorted.length % 2 === 0
+      ? (sorted[sorted.length / 2 - 1] + sorted[sorted.length / 2]) / 2
+      : sorted[Math.floor(sorted.length / 2)];
+    summary.min = Math.min(...means, summary.min !== null ? summary.min : Infinity);
+    summary.max = Math.max(...means, summary.max !== null ? summary.max : -Infinity);
+    summary.std = Math.sqrt(means.reduce((acc, value) => acc + Math.pow(value - mean, 2), 0) / means.length);
+  }
+  return summary;
+}
+
+// Stats of one published scene never change
+const fetchSceneStats = (polyid, scene, index) =>
+  cached(cacheKey(polyid, `stats-${index}-${scene.dt}`), CACHE_POLICIES.indexStats, () =>
+    getProvider().getIndexStats(polyid, scene, index)
+  );
+
+/**
+ * EVI, NDWI and SAVI summaries for the analysis
+ * Indices are optional input, so failures are logged and leave the index null
+ * @param {string} polyid - Polygon id
+ * @param {{ start: number, end: number }} window - Time window (unix seconds)
+ * @returns {Promise<object>} { indices: { evi, ndwi, savi }, scenes, cache }
+ */
+export async function fetchIndexSummaries(polyid, window) {
+  const empty = Object.fromEntries(VEGETATION_INDICES.map((index) => [index, null]));
+
+  let search;
+  try {
+    search = await searchScenes(polyid, window);
+  } catch (error) {
+    console.warn(`⚠️  Could not search scenes for indices of ${polyid}:`, error.details || error.message);
+    return { indices: empty, scenes: 0, cache: "none" };
+  }
+
+  const scenes = (Array.isArray(search.value) ? search.value : [])
+    .filter((scene) => scene.stats && (typeof scene.cl !== "number" || scene.cl <= MAX_CLOUD))
+    .sort((a, b) => a.dt - b.dt)
+    .slice(-MAX_SCENES);
+
+  // One row per scene: { dt, ndvi, evi, evi2, ndwi } with the stats that could be fetched
+  const rows = await Promise.all(
+    scenes.map(async (scene) => {
+      const row = { dt: scene.dt };
+      const results = await Promise.allSettled(
+        FETCHED_INDICES.filter((index) => scene.stats[index]).map(async (index) => {
+          row[index] = (await fetchSceneStats(polyid, scene, index)).value;
+        })
+      );
+      const failed = results.filter((result) => result.status === "rejected");
+      if (failed.length > 0) {
+        console.warn(`⚠️  ${failed.length} index stats missing for scene ${scene.dt}:`, failed[0].reason.details || failed[0].reason.message);
+      }
+      return row;
+    })
+  );
+
+  const historyOf = (index) =>
+    rows.map((row) => ({
+      dt: row.dt,
+      data: index === "savi"
+        ? { mean: saviFromNdviAndEvi2(row.ndvi && row.ndvi.mean, row.evi2 && row.evi2.mean) }
+        : row[index] || null,
+    }));
+
+  return {
+    indices: Object.fromEntries(VEGETATION_INDICES.map((index) => [index, summarizeIndexHistory(historyOf(index))])),
+    scenes: rows.length,
+    cache: search.cache,
+  };
+}
@@ -0,0 +1,109 @@
+/**
+ * Irrigation Requirement
+ * Soil water deficit of the root zone and the water needed to refill it, per hectare and for the field.
+ *
+ *   deficit (mm)   = (field capacity - soil moisture) [% by volume] / 100 * root depth [mm]
+ *   net (mm)       = deficit - effective forecast rain (80% of the rain forecast in the next 48 hours)
+ *   gross (mm)     = net / application efficiency
+ *   litres per ha  = gross * 10 000   (1 mm over 1 ha is 10 m³)
+ *
+ * Field capacity and wilting point per texture are the midpoints of FAO-56 Table 19. Irrigation is
+ * due once half of the plant-available water (field capacity - wilting point) is used up.
+ */
+
+// Volumetric water content (%) at field capacity and wilting point
+export const SOIL_TEXTURES = {
+  sand: { label: "Sand", fieldCapacity: 12, wiltingPoint: 4.5 },
+  loamy_sand: { label: "Loamy sand", fieldCapacity: 15, wiltingPoint: 6.5 },
+  sandy_loam: { label: "Sandy loam", fieldCapacity: 23, wiltingPoint: 11 },
+  loam: { label: "Loam", fieldCapacity: 25, wiltingPoint: 12 },
+  silt_loam: { label: "Silt loam", fieldCapacity: 29, wiltingPoint: 15 },
+  silty_clay_loam: { label: "Silty clay loam", fieldCapacity: 33.5, wiltingPoint: 20.5 },
+  clay: { label: "Clay", fieldCapacity: 36, wiltingPoint: 22 },
+};
+
+export const DEFAULT_TEXTURE = "loam";
+export const DEFAULT_ROOT_DEPTH_CM = 30;
+export const DEFAULT_EFFICIENCY = 0.75;
+
+// Share of forecast rain that reaches the root zone (the rest runs off or evaporates)
+const RAIN_EFFECTIVENESS = 0.8;
+// Irrigate once this share of the plant-available water is used
+const ALLOWED_DEPLETION = 0.5;
+
+const round = (value, digits = 1) => Number(value.toFixed(digits));
+
+/**
+ * Irrigation needed to bring the root zone back to field capacity
+ * @param {object} input
+ * @param {number} input.moisture - Soil moisture, % by volume
+ * @param {string} input.texture - Key of SOIL_TEXTURES
+ * @param {number} input.rootDepthCm - Depth of the root zone to refill
+ * @param {number|null} input.areaSquareMeters - Field area, null when unknown
+ * @param {number|null} input.rainForecastMm - Rain forecast in the next 48 hours, null when unknown
+ * @param {number} input.efficiency - Application efficiency (0-1)
+ * @returns {object} Deficit, water to apply, recommendation and the assumptions behind them
+ */
+export function calculateIrrigation({ moisture, texture, rootDepthCm, areaSquareMeters, rainForecastMm, efficiency }) {
+  const soil = SOIL_TEXTURES[texture];
+  const rootDepthMm = rootDepthCm * 10;
+
+  const availableWater = ((soil.fieldCapacity - soil.wiltingPoint) / 100) * rootDepthMm;
+  const deficit = Math.max(0, ((soil.fieldCapacity - moisture) / 100) * rootDepthMm);
+  const depletion = availableWater > 0 ? Math.min(1, deficit / availableWater) : 0;
+  const effectiveRain = Math.min(deficit, (rainForecastMm || 0) * RAIN_EFFECTIVENESS);
+  const net = Math.max(0, deficit - effectiveRain);
+  const gross = net / efficiency;
+  const litresPerHectare = gross * 10000;
+  const areaHectares = areaSquareMeters ? areaSquareMeters / 10000 : null;
+
+  let status;
+  let recommendation;
+  if (deficit === 0) {
+    status = "none";
+    recommendation = `No irrigation needed - soil moisture (${round(moisture)}%) is at or above field capacity (${soil.fieldCapacity}%).`;
+  } else if (net === 0) {
+    status = "rain_expected";
+    recommendation = `Hold off - ${round(rainForecastMm)} mm of forecast rain should cover the ${round(deficit)} mm deficit.`;
+  } else if (depletion < ALLOWED_DEPLETION) {
+    status = "not_yet";
+    recommendation = `Not needed yet - ${Math.round(depletion * 100)}% of the available water is used; irrigate ${round(gross)} mm once it passes ${ALLOWED_DEPLETION * 100}%.`;
+  } else {
+    status = "irrigate";
+    recommendation = `Irrigate ${round(gross)} mm (${Math.round(litresPerHectare).toLocaleString("en-US")} L/ha) to refill the top ${rootDepthCm} cm.`;
+  }
+
+  const assumptions = [
+    `${soil.label}: field capacity ${soil.fieldCapacity}%, wilting point ${soil.wiltingPoint}% by volume (FAO-56 typical values)`,
+    `The moisture reading (${round(moisture)}%) holds for the whole ${rootDepthCm} cm root zone and the whole field`,
+    rainForecastMm === null
+      ? "No rain forecast was available, so no rain is counted"
+      : `${RAIN_EFFECTIVENESS * 100}% of the ${round(rainForecastMm)} mm forecast for the next 48 hours reaches the roots`,
+    `Application efficiency ${Math.round(efficiency * 100)}% (losses to evaporation, drift and runoff)`,
+    `Irrigation is due once ${ALLOWED_DEPLETION * 100}% of the plant-available water is used`,
+    "Crop water use (evapotranspiration) until the water is applied is not included",
+  ];
+  if (areaHectares === null) {
+    assumptions.push("Field area unknown - only per-hectare amounts are given");
+  }
+
+  return {
+    soil: { texture, label: soil.label, field_capacity: soil.fieldCapacity, wilting_point: soil.wiltingPoint },
+    moisture: round(moisture),
+    root_depth_cm: rootDepthCm,
+    efficiency,
+    area_ha: areaHectares !== null ? round(areaHectares, 2) : null,
+    available_water_mm: round(availableWater),
+    depletion_pct: Math.round(depletion * 100),
+    deficit_mm: round(deficit),
+    rain_forecast_mm: rainForecastMm !== null ? round(rainForecastMm) : null,
+    effective_rain_mm: round(effectiveRain),
+    net_mm: round(net),
+    gross_mm: round(gross),
+    litres_per_hectare: Math.round(litresPerHectare),
+    total_litres: areaHectares !== null ? Math.round(litresPerHectare * areaHectares) : null,
+    status,
+    recommendation,
+    assumptions,
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * Land Cover Checks
+ * Tell cropland from water, towns and forest before a comparison area is analyzed:
+ *
+ *   - mask:  LANDCOVER_MASK points at a local GeoJSON file of cropland polygons (Polygon / MultiPolygon
+ *            features, [lon, lat]). Points outside every polygon are rejected - no upstream call needed.
+ *   - NDVI:  one year of NDVI of the area's polygon. Cropland greens up and goes bare again within a
+ *            year; water, roads and roofs never get green, forest never gets bare.
+ *
+ *     peak NDVI < 0.4                       -> "ndvi_low"         (water, built-up or bare ground)
+ *     peak - low < 0.25 (low = 10th pct)    -> "ndvi_flat"        (no season: forest, permanent grass)
+ *     no clear scene in the year            -> inconclusive, the area is kept
+ *
+ * A polygon created for the comparison usually has no NDVI history yet, so without a mask most
+ * candidates are inconclusive and only polygons the account already watched can be told apart.
+ */
+
+import fs from "fs";
+import { pointInRing, ringBbox } from "../utils/geometry.js";
+import { fetchNdviHistory, parseNdviWindow } from "./ndviHistory.js";
+
+const MIN_PEAK_NDVI = 0.4;
+const MIN_SEASONAL_RANGE = 0.25;
+const MAX_CLOUD = 30;
+
+let mask = null; // { path, polygons: [{ bbox, rings }] } of the last file loaded
+
+// Resolved lazily so LANDCOVER_MASK from .env is picked up after dotenv has run
+const maskPath = () => process.env.LANDCOVER_MASK || null;
+
+function loadMask(path) {
+  if (mask && mask.path === path) return mask;
+
+  const polygons = [];
+  try {
+    const geojson = JSON.parse(fs.readFileSync(path, "utf8"));
+    const features = geojson.type === "FeatureCollection" ? geojson.features : [geojson];
+    for (const feature of features) {
+      const geometry = feature && feature.type === "Feature" ? feature.geometry : feature;
+      if (!geometry) continue;
+      const shapes = geometry.type === "Polygon" ? [geometry.coordinates]
+        : geometry.type === "MultiPolygon" ? geometry.coordinates
+        : [];
+      for (const rings of shapes) {
+        if (Array.isArray(rings) && Array.isArray(rings[0]) && rings[0].length >= 3) {
+          polygons.push({ bbox: ringBbox(rings[0]), rings });
+        }
+      }
+    }
+    console.log(`🗺️  Cropland mask loaded: ${polygons.length} polygons from ${path}`);
+  } catch (error) {
+    console.error(`⚠️  Could not read the cropland mask ${path}, ignoring it:`, error.message);
+  }
+
+  mask = { path, polygons };
+  return mask;
+}
+
+/**
+ * Whether a cropland mask is configured and has polygons
+ * @returns {boolean}
+ */
+export function hasCroplandMask() {
+  const path = maskPath();
+  return !!path && loadMask(path).polygons.length > 0;
+}
+
+/**
+ * Check a point against the cropland mask
+ * @param {Array} point - [lat, lon]
+ * @returns {object|null} Rejection ({ reason, message }), null when the point is on cropland or no mask is set
+ */
+export function checkCroplandMask([lat, lon]) {
+  if (!hasCroplandMask()) return null;
+
+  const inside = mask.polygons.some(({ bbox, rings }) => {
+    const [minLon, minLat, maxLon, maxLat] = bbox;
+    if (lon < minLon || lon > maxLon || lat < minLat || lat > maxLat) return false;
+    // Inside the outer ring and in none of the holes
+    return pointInRing([lon, lat], rings[0]) && !rings.slice(1).some((hole) => pointInRing([lon, lat], hole));
+  });
+  return inside ? null : { reason: "landcover", message: "Outside the cropland mask" };
+}
+
+/**
+ * Check one year of a polygon's NDVI for a cropland season
+ * @param {string} polyid - Polygon id
+ * @returns {Promise<object|null>} Rejection ({ reason, message, ndvi }), null when it looks like cropland
+ *   or there is no clear scene to tell (new polygon, clouds)
+ * @throws Upstream errors (with `status`) when the NDVI could not be fetched
+ */
+export async function checkCroplandNdvi(polyid) {
+  const result = await fetchNdviHistory(polyid, parseNdviWindow({ range: "1y" }), { fallback: false });
+  if (result.error) throw result.error;
+
+  const means = (Array.isArray(result.history) ? result.history : [])
+    .filter((entry) => entry && entry.data && (typeof entry.cl !== "number" || entry.cl <= MAX_CLOUD))
+    .map((entry) => entry.data.mean ?? entry.data.value)
+    .filter((value) => typeof value === "number" && value >= -1 && value <= 1)
+    .sort((a, b) => a - b);
+
+  // No history says nothing about the ground - the mask (when set) already had its say
+  if (means.length === 0) {
+    console.log(`Cropland NDVI check inconclusive for ${polyid}: no clear scene in the last year`);
+    return null;
+  }
+
+  const peak = means[means.length - 1];
+  // 10th percentile, so one cloudy scene does not pass for a bare field
+  const low = means[Math.floor((means.length - 1) * 0.1)];
+  const ndvi = { peak: Number(peak.toFixed(3)), low: Number(low.toFixed(3)), scenes: means.length };
+
+  if (peak < MIN_PEAK_NDVI) {
+    return {
+      reason: "ndvi_low",
+      message: `Peak NDVI ${ndvi.peak} is below ${MIN_PEAK_NDVI} - likely water, built-up or bare ground`,
+      ndvi,
+    };
+  }
+  if (peak - low < MIN_SEASONAL_RANGE) {
+    return {
+      reason: "ndvi_flat",
+      message: `NDVI stays between ${ndvi.low} and ${ndvi.peak} all year - likely forest or permanent grassland`,
+      ndvi,
+    };
+  }
+  return null;
+}
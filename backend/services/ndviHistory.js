@@ -0,0 +1,145 @@
+/**
+ * NDVI History
+ * One place that fetches NDVI history for a polygon, used by both the NDVI endpoint
+ * and the AI analysis. When the requested window has no usable NDVI entries
+ * (new polygon, clouds, no pass yet) the window is widened step by step -
+ * always ending at the same date - until data turns up or the widest window was tried.
+ * The history finally returned - fetched or cached - is checked against the field's alert rules (services/alerts.js).
+ */
+
+import { cached, cacheKey, CACHE_POLICIES } from "./cache.js";
+import { getProvider } from "../providers/index.js";
+import { parseTimeWindow } from "../utils/timeWindow.js";
+import { evaluateNdviAlerts } from "./alerts.js";
+
+const DAY = 60 * 60 * 24;
+
+// Windows tried, in order, when a narrower one has no data
+const FALLBACK_WINDOWS = [
+  { label: "Last 30 days", seconds: 30 * DAY },
+  { label: "Last 3 months", seconds: 90 * DAY },
+  { label: "Last 6 months", seconds: 180 * DAY },
+  { label: "Last 1 year", seconds: 365 * DAY },
+];
+
+/**
+ * Build an NDVI window from `start` / `end` / `range` query parameters (see utils/timeWindow.js)
+ * @param {object} query - Request query (or body)
+ * @param {string} [defaultRange="30d"] - Range used when neither start nor range is given
+ * @returns {object} { start, end, label } in unix seconds
+ * @throws {Error} With a user-facing message when the parameters are invalid
+ */
+export const parseNdviWindow = (query, defaultRange = "30d") => parseTimeWindow(query, defaultRange);
+
+/**
+ * Whether an NDVI response has at least one entry with a usable value
+ * Valid means: array with entries containing data.mean/data.value, or object with data
+ */
+export function hasNdviValues(responseData) {
+  if (Array.isArray(responseData)) {
+    return responseData.some((item) => {
+      if (!item || typeof item !== "object") return false;
+      if (item.data && typeof item.data === "object") {
+        return item.data.mean !== undefined || item.data.value !== undefined;
+      }
+      return item.value !== undefined || item.mean !== undefined;
+    });
+  }
+  if (responseData && typeof responseData === "object") {
+    return Object.keys(responseData).length > 0 &&
+      !!(responseData.data || responseData.mean !== undefined || responseData.value !== undefined);
+  }
+  return false;
+}
+
+/**
+ * Fetch NDVI history, widening the window when it has no data
+ * @param {string} polyid - Polygon id
+ * @param {object} window - { start, end, label } from parseNdviWindow
+ * @param {object} [options]
+ * @param {boolean} [options.fallback=true] - Widen the window when it has no data
+ * @returns {Promise<object>} { history, window, fallback, cache, ageSeconds, error }
+ *   history is the provider response of the first window with data, otherwise the last
+ *   response seen (usually []), or null when every attempt failed - error then holds the last failure
+ */
+export async function fetchNdviHistory(polyid, window, { fallback = true } = {}) {
+  const requested = window.end - window.start;
+  const windows = [
+    window,
+    ...(fallback ? FALLBACK_WINDOWS : [])
+      .filter((w) => w.seconds > requested)
+      .map((w) => ({ start: window.end - w.seconds, end: window.end, label: w.label, rolling: window.rolling })),
+  ];
+
+  let history = null;
+  let cache = null;
+  let ageSeconds = 0;
+  let lastError = null;
+  let used = window;
+
+  for (const attempt of windows) {
+    try {
+      console.log(`Trying NDVI fetch with ${attempt.label} range...`);
+      const result = await cached(cacheKey(polyid, "ndvi", attempt), CACHE_POLICIES.ndvi, () =>
+        getProvider().getNdviHistory(polyid, { start: attempt.start, end: attempt.end })
+      );
+
+      history = result.value;
+      cache = result.cache;
+      ageSeconds = result.ageSeconds;
+      used = attempt;
+
+      if (hasNdviValues(history)) {
+        console.log(`✅ NDVI history fetched with ${attempt.label} range (cache ${result.cache})`);
+        // Once, on the window actually used - not on the empty windows tried before it
+        evaluateNdviAlerts(polyid, history, attempt);
+        return { history, window: attempt, fallback: attempt !== window, cache, ageSeconds, error: null };
+      }
+
+      if (Array.isArray(history) && history.length > 0) {
+        console.log(`⚠️  NDVI API returned ${history.length} entries but none have valid NDVI structure`);
+      } else {
+        console.log(`⚠️  No NDVI data for ${attempt.label} range`);
+      }
+    } catch (fetchError) {
+      if (fetchError.status === 404) {
+        console.log(`⚠️  NDVI not found (404) for ${attempt.label} range - polygon may be too new or no NDVI data available`);
+      } else if (fetchError.status) {
+        console.warn(`⚠️  NDVI API error (${fetchError.status}) for ${attempt.label}:`, fetchError.details);
+      } else {
+        console.warn(`⚠️  Error fetching NDVI with ${attempt.label} range:`, fetchError.message);
+      }
+      lastError = fetchError;
+    }
+  }
+
+  return { history, window: used, fallback: used !== window, cache, ageSeconds, error: history === null ? lastError : null };
+}
+
+// Valid scene means of an NDVI history ({ data: { mean } } or { data: { value } } entries)
+function sceneMeans(history) {
+  if (!Array.isArray(history)) return [];
+  return history
+    .map((entry) => (entry && entry.data ? entry.data.mean ?? entry.data.value : undefined))
+    .filter((value) => typeof value === "number" && !isNaN(value) && value >= -1 && value <= 1);
+}
+
+/**
+ * Highest scene mean in an NDVI history - the peak of the season when the window covers one
+ * @param {Array} history - NDVI history entries ({ data: { mean } } or { data: { value } })
+ * @returns {number|null}
+ */
+export function peakNdvi(history) {
+  const means = sceneMeans(history);
+  return means.length > 0 ? Math.max(...means) : null;
+}
+
+/**
+ * Average of the scene means in an NDVI history - the mean NDVI the analysis reports
+ * @param {Array} history - NDVI history entries
+ * @returns {number|null}
+ */
+export function meanNdvi(history) {
+  const means = sceneMeans(history);
+  return means.length > 0 ? means.reduce((sum, value) => sum + value, 0) / means.length : null;
+}
@@ -0,0 +1,155 @@
+/**
+ * Polygon Creation
+ * Creates (or reuses) the AgroMonitoring polygon of a drawn shape and saves its field
+ */
+
+import { toGeoJsonRing, ringAreaSquareMeters } from "../utils/geometry.js";
+import { registerField } from "../store/fieldStore.js";
+import { findMatchingPolygon, recordPolygon, touchPolygon } from "../store/polygonStore.js";
+import { getProvider } from "../providers/index.js";
+import { createPolygonWithinQuota, isQuotaError } from "./polygonQuota.js";
+
+// Result of createPolygonFromBody: what the endpoint answers with
+const reply = (status, body) => ({ status, body });
+
+/**
+ * Create (or reuse) the polygon of a shape and save its field
+ * Shared by the endpoint and the batch analysis (services/batchAnalysis.js)
+ * @param {object} body - createPolygon request body: coordinates ([lat, lon]), temporary, register, fieldId, name, ...
+ * @returns {Promise<{status: number, body: object}>} HTTP status and the polygon (or error) body
+ */
+export async function createPolygonFromBody(body = {}) {
+  try {
+    if (!getProvider().isConfigured()) {
+      console.error("API_KEY is not set in environment variables");
+      return reply(500, { error: "Server configuration error: API_KEY not found" });
+    }
+
+    const { coordinates } = body;
+    // Temporary polygons (e.g. comparison areas) may be recycled when the quota runs out
+    const temporary = body.temporary === true;
+
+    // Validate and convert coordinates from [lat, lon] to a closed [lon, lat] ring (GeoJSON format)
+    let properCoords;
+    try {
+      properCoords = toGeoJsonRing(coordinates);
+    } catch (coordError) {
+      console.error("Coordinate validation error:", coordError.message);
+      return reply(400, {
+        error: "Invalid coordinates",
+        message: coordError.message,
+        received: coordinates
+      });
+    }
+
+    const payload = {
+      name: "User Polygon fixed",
+      geo_json: {
+        type: "Feature",
+        properties: {},
+        geometry: {
+          type: "Polygon",
+          coordinates: [properCoords],
+        },
+      },
+    };
+
+    // Reuse the polygon of an identical or near-identical shape instead of spending quota
+    const provider = getProvider();
+    const match = findMatchingPolygon(properCoords, provider.name);
+    if (match) {
+      touchPolygon(match.id, { temporary });
+      console.log(`♻️  Reusing polygon ${match.polyid} (${match.match} geometry match)`);
+
+      const field = registerField(body, {
+        polyid: match.polyid,
+        geometry: payload.geo_json.geometry,
+        area: match.area,
+      });
+
+      return reply(200, {
+        polyid: match.polyid,
+        center: match.center,
+        area: match.area,
+        fieldId: field ? field.id : null,
+        reused: true,
+      });
+    }
+
+    console.log("Creating polygon with payload:", JSON.stringify(payload, null, 2));
+
+    let data;
+    try {
+      data = await createPolygonWithinQuota(payload, ringAreaSquareMeters(properCoords) / 10000);
+    } catch (createError) {
+      if (!createError.status) throw createError;
+
+      const errorData = createError.details || {};
+      console.error("Polygon creation failed - Status:", createError.status);
+      console.error("Polygon creation failed - Response:", JSON.stringify(errorData, null, 2));
+      console.error("Polygon creation failed - Request payload:", JSON.stringify(payload, null, 2));
+      
+      // Handle duplicate polygon error - extract existing polygon ID if mentioned
+      let errorMessage = errorData.message || errorData.error || "Unknown error from AgroMonitoring API";
+      let existingPolyid = null;
+      
+      if (errorData.message && errorData.message.includes("duplicated")) {
+        // Extract polygon ID from error message if present
+        const polyidMatch = errorData.message.match(/([a-f0-9]{24})/i);
+        if (polyidMatch) {
+          existingPolyid = polyidMatch[1];
+          errorMessage = `Polygon already exists. Using existing polygon ID: ${existingPolyid}`;
+          console.log("Found existing polygon ID in error:", existingPolyid);
+        }
+      }
+
+      if (existingPolyid) {
+        recordPolygon({ polyid: existingPolyid, ring: properCoords, provider: provider.name, temporary });
+      }
+
+      const existingField = existingPolyid
+        ? registerField(body, { polyid: existingPolyid, geometry: payload.geo_json.geometry })
+        : null;
+      
+      return reply(createError.status || 500, { 
+          error: "Failed to create polygon", 
+          details: errorData,
+          status: createError.status,
+          message: errorMessage,
+          existingPolyid: existingPolyid,
+          fieldId: existingField ? existingField.id : null,
+          quotaExceeded: isQuotaError(createError)
+        });
+    }
+
+    console.log("Polygon created successfully:", data.id);
+
+    recordPolygon({
+      polyid: data.id,
+      ring: properCoords,
+      center: data.center,
+      area: data.area,
+      provider: provider.name,
+      temporary,
+    });
+
+    // Save the field so it can be reopened later by its id
+    const field = registerField(body, {
+      polyid: data.id,
+      geometry: payload.geo_json.geometry,
+      area: data.area,
+    });
+
+    // send back the polygon id to the frontend
+    return reply(200, {
+      polyid: data.id,
+      center: data.center,
+      area: data.area,
+      fieldId: field ? field.id : null,
+      reused: false,
+    });
+  } catch (err) {
+    console.error("Error creating polygon:", err);
+    return reply(500, { error: "Server error", message: err.message });
+  }
+}
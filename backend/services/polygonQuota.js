@@ -0,0 +1,204 @@
+/**
+ * Polygon Quota Manager
+ * AgroMonitoring accounts cap the total area (and on some plans the number) of polygons.
+ * This keeps track of what is used, deletes polygons on request and recycles
+ * temporary polygons - least recently used first - when a new one does not fit.
+ * Polygons a running batch or comparison item is working on are held and never deleted meanwhile.
+ */
+
+import { getProvider, getPolygonQuotaLimits } from "../providers/index.js";
+import { findFieldByPolyid } from "../store/fieldStore.js";
+import { findPolygonRecord, forgetPolygon } from "../store/polygonStore.js";
+import { invalidate } from "./cache.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = (value) => Math.round(value * 100) / 100;
+
+const held = new Map(); // polyid -> number of running items using it
+
+/**
+ * Keep a polygon from being recycled or cleaned up while an item works on it
+ * Every holdPolygon needs a matching releasePolygon
+ * @param {string} polyid - Polygon id
+ */
+export function holdPolygon(polyid) {
+  held.set(polyid, (held.get(polyid) || 0) + 1);
+}
+
+/**
+ * Let a held polygon be recycled again once no item uses it
+ * @param {string} polyid - Polygon id
+ */
+export function releasePolygon(polyid) {
+  const count = (held.get(polyid) || 0) - 1;
+  if (count > 0) held.set(polyid, count);
+  else held.delete(polyid);
+}
+
+const isHeld = (polyid) => held.has(polyid);
+
+/**
+ * Whether a failed createPolygon call was refused because of the account limits
+ * @param {Error} error - upstreamError from the provider
+ * @returns {boolean}
+ */
+export function isQuotaError(error) {
+  const message = error?.details?.message || "";
+  return !!error?.status && (message.includes("can not create polygons") || message.includes("polygon creation limit"));
+}
+
+// When a polygon was last used: registry first, upstream creation time otherwise
+function lastUsedOf(polygon, record) {
+  if (record?.lastUsedAt) return record.lastUsedAt;
+  return polygon.created_at ? new Date(polygon.created_at * 1000).toISOString() : null;
+}
+
+/**
+ * List the account's polygons with what we know about each of them
+ * @returns {Promise<Array>} Polygons, least recently used first
+ */
+export async function listAccountPolygons() {
+  const polygons = await getProvider().listPolygons();
+
+  return polygons
+    .map((polygon) => {
+      const record = findPolygonRecord(polygon.id);
+      const field = findFieldByPolyid(polygon.id);
+      return {
+        polyid: polygon.id,
+        name: polygon.name || null,
+        center: polygon.center || null,
+        area: polygon.area ?? null,
+        createdAt: polygon.created_at ? new Date(polygon.created_at * 1000).toISOString() : null,
+        lastUsedAt: lastUsedOf(polygon, record),
+        temporary: record ? record.temporary === true : false,
+        fieldId: field ? field.id : null,
+      };
+    })
+    .sort((a, b) => (a.lastUsedAt || "").localeCompare(b.lastUsedAt || ""));
+}
+
+/**
+ * How much of the polygon quota is in use
+ * @param {Array} [polygons] - Result of listAccountPolygons() when already fetched
+ * @returns {Promise<object>} { limits, used, remaining, usedPercent }
+ */
+export async function getQuotaUsage(polygons) {
+  const list = polygons || (await listAccountPolygons());
+  const limits = getPolygonQuotaLimits();
+  const areaHectares = round(list.reduce((sum, p) => sum + (p.area || 0), 0));
+
+  return {
+    limits,
+    used: {
+      areaHectares,
+      count: list.length,
+      temporaryCount: list.filter((p) => p.temporary).length,
+    },
+    remaining: {
+      areaHectares: round(Math.max(0, limits.areaHectares - areaHectares)),
+      count: limits.count ? Math.max(0, limits.count - list.length) : null,
+    },
+    usedPercent: round((areaHectares / limits.areaHectares) * 100),
+  };
+}
+
+/**
+ * Delete a polygon upstream and forget everything cached about it
+ * @param {string} polyid - Polygon id
+ */
+export async function deletePolygon(polyid) {
+  await getProvider().deletePolygon(polyid);
+  forgetPolygon(polyid);
+  invalidate(`${polyid}:`);
+  console.log(`🗑️  Deleted polygon ${polyid}`);
+}
+
+/**
+ * Delete polygons nobody has used for a while
+ * Polygons that belong to a saved field or are held by a running item are never touched
+ * @param {object} [options]
+ * @param {number} [options.olderThanDays=30] - Minimum days since last use
+ * @param {boolean} [options.dryRun=false] - Only report what would be deleted
+ * @returns {Promise<object>} { deleted, failed }
+ */
+export async function deleteStalePolygons({ olderThanDays = 30, dryRun = false } = {}) {
+  const cutoff = new Date(Date.now() - olderThanDays * DAY_MS).toISOString();
+  const stale = (await listAccountPolygons()).filter(
+    (p) => !p.fieldId && !isHeld(p.polyid) && p.lastUsedAt && p.lastUsedAt < cutoff
+  );
+
+  if (dryRun) return { deleted: stale, failed: [] };
+
+  const deleted = [];
+  const failed = [];
+  for (const polygon of stale) {
+    try {
+      await deletePolygon(polygon.polyid);
+      deleted.push(polygon);
+    } catch (error) {
+      console.error(`Could not delete stale polygon ${polygon.polyid}:`, error.details || error.message);
+      failed.push({ ...polygon, error: error.message });
+    }
+  }
+  return { deleted, failed };
+}
+
+/**
+ * Make room for a new polygon by deleting temporary ones, least recently used first
+ * Only polygons marked temporary that no field refers to and no running item holds are recycled
+ * @param {number} areaHectares - Area of the polygon about to be created
+ * @returns {Promise<Array>} Polyids that were deleted
+ */
+export async function freeSpaceFor(areaHectares) {
+  const polygons = await listAccountPolygons();
+  const { limits, used } = await getQuotaUsage(polygons);
+  const candidates = polygons.filter((p) => p.temporary && !p.fieldId && !isHeld(p.polyid));
+
+  let area = used.areaHectares;
+  let count = used.count;
+  const fits = () => area + areaHectares <= limits.areaHectares && (!limits.count || count < limits.count);
+
+  const recycled = [];
+  // The account refused the polygon even though our numbers say it fits,
+  // so the configured limits are off - recycle at least one to make progress
+  const mustFreeOne = fits();
+
+  for (const polygon of candidates) {
+    if (fits() && !(mustFreeOne && recycled.length === 0)) break;
+    try {
+      await deletePolygon(polygon.polyid);
+      area -= polygon.area || 0;
+      count -= 1;
+      recycled.push(polygon.polyid);
+    } catch (error) {
+      console.error(`Could not recycle polygon ${polygon.polyid}:`, error.details || error.message);
+    }
+  }
+
+  if (recycled.length) {
+    console.log(`♻️  Recycled ${recycled.length} temporary polygon(s) to make room for ${round(areaHectares)} ha`);
+  }
+  return recycled;
+}
+
+/**
+ * Create a polygon, recycling temporary polygons once if the account is full
+ * @param {object} payload - { name, geo_json }
+ * @param {number} areaHectares - Area of the polygon, used to decide how much to free
+ * @returns {Promise<object>} Provider createPolygon response
+ */
+export async function createPolygonWithinQuota(payload, areaHectares) {
+  const provider = getProvider();
+  try {
+    return await provider.createPolygon(payload);
+  } catch (error) {
+    if (!isQuotaError(error)) throw error;
+
+    console.warn("⚠️  Polygon quota reached, recycling temporary polygons");
+    const recycled = await freeSpaceFor(areaHectares);
+    if (!recycled.length) throw error;
+    return provider.createPolygon(payload);
+  }
+}
@@ -0,0 +1,256 @@
+/**
+ * Rule-Based Soil Quality Engine
+ * Deterministic scoring used when Gemini is not configured or fails, so an analysis
+ * can always be returned. Same inputs always give the same result.
+ *
+ * Soil Quality Index (0-100) is a weighted average of four component scores (0-1).
+ * Each score is 1 inside the optimal band and falls linearly to 0 at the limits:
+ *
+ *   Component              Weight   Zero at   Optimal band   Zero at
+ *   Soil moisture (%)        30        5       20 - 40         55
+ *   Surface temp t0 (°C)     15        0       10 - 30         40
+ *   10 cm temp t10 (°C)      15        2       10 - 25         35
+ *   NDVI mean                40       0.1      0.6 and up       -
+ *
+ * NDVI std above 0.1 (patchy vegetation) takes up to 20% off the NDVI score (at 0.25).
+ * Missing inputs are left out and the weights of the others are scaled up;
+ * Confidence is the share of the total weight that had data.
+ *
+ * Levels: SQI >= 70 High, >= 45 Moderate, otherwise Low.
+ *
+ * Weather does not change the score (it says nothing about the soil itself) but shapes the
+ * recommendations: no irrigation advice when 10 mm or more of rain is forecast within 48 hours,
+ * and warnings for forecast frost (<= 0°C) or heat (>= 35°C).
+ *
+ * EVI / NDWI / SAVI do not change the score either: NDWI below 0 (little water in the canopy)
+ * adds an irrigation check unless rain is on the way, and SAVI is quoted for sparse vegetation.
+ *
+ * Deeper soil readings (soilProfile, see services/soil.js) refine the advice too: dry topsoil over
+ * a moist root zone (>= 20% at 30 cm or deeper) gets light irrigation advice instead of a full one,
+ * and cold deep soil (< 8°C at 30 cm or deeper) delays planting.
+ */
+
+import { CROP_CATALOGUE } from "./crops.js";
+
+const THRESHOLDS = {
+  moisture: { weight: 30, zeroLow: 5, optimalLow: 20, optimalHigh: 40, zeroHigh: 55 },
+  temp0cm: { weight: 15, zeroLow: 0, optimalLow: 10, optimalHigh: 30, zeroHigh: 40 },
+  temp10cm: { weight: 15, zeroLow: 2, optimalLow: 10, optimalHigh: 25, zeroHigh: 35 },
+  ndviMean: { weight: 40, zeroLow: 0.1, optimalLow: 0.6, optimalHigh: Infinity, zeroHigh: Infinity },
+};
+
+const NDVI_STD_PATCHY = 0.1;
+const NDVI_STD_MAX_PENALTY_AT = 0.25;
+const NDVI_STD_MAX_PENALTY = 0.2;
+
+const RAIN_SKIP_IRRIGATION_MM = 10;
+const FROST_C = 0;
+const HEAT_C = 35;
+const NDWI_WATER_STRESS = 0;
+const ROOT_ZONE_MIN_DEPTH_CM = 30;
+
+const LEVELS = [
+  { min: 70, level: "High" },
+  { min: 45, level: "Moderate" },
+  { min: 0, level: "Low" },
+];
+
+const GENERAL_RECOMMENDATIONS = [
+  "Take a soil test each season to keep track of nutrients and pH.",
+  "Keep the soil covered between crops (residue or cover crops) to limit erosion and moisture loss.",
+];
+
+const clamp01 = (value) => Math.min(1, Math.max(0, value));
+const isNumber = (value) => typeof value === "number" && !isNaN(value);
+
+// 1 inside the optimal band, linear down to 0 at the zero points
+function bandScore(value, { zeroLow, optimalLow, optimalHigh, zeroHigh }) {
+  if (value < optimalLow) return clamp01((value - zeroLow) / (optimalLow - zeroLow));
+  if (value > optimalHigh) return clamp01((zeroHigh - value) / (zeroHigh - optimalHigh));
+  return 1;
+}
+
+function levelFor(sqi) {
+  return LEVELS.find((band) => sqi >= band.min).level;
+}
+
+// How far a value is outside a [low, high] range, relative to the range width
+function rangeDistance(value, [low, high]) {
+  if (!isNumber(value)) return 0;
+  if (value < low) return (low - value) / (high - low);
+  if (value > high) return (value - high) / (high - low);
+  return 0;
+}
+
+/**
+ * Score each available input
+ * @returns {object} Component name -> { value, score, weight }
+ */
+function scoreComponents({ moisture, temp0cm, temp10cm, ndviMean, ndviStd }) {
+  const values = { moisture, temp0cm, temp10cm, ndviMean };
+  const components = {};
+
+  for (const [name, value] of Object.entries(values)) {
+    if (!isNumber(value)) continue;
+    let score = bandScore(value, THRESHOLDS[name]);
+
+    if (name === "ndviMean" && isNumber(ndviStd) && ndviStd > NDVI_STD_PATCHY) {
+      const patchiness = clamp01((ndviStd - NDVI_STD_PATCHY) / (NDVI_STD_MAX_PENALTY_AT - NDVI_STD_PATCHY));
+      score *= 1 - NDVI_STD_MAX_PENALTY * patchiness;
+    }
+
+    components[name] = { value: Number(value.toFixed(3)), score: Number(score.toFixed(3)), weight: THRESHOLDS[name].weight };
+  }
+  return components;
+}
+
+/**
+ * Crops whose temperature and moisture ranges fit the field best
+ * Without temperature or moisture every crop fits that dimension equally
+ */
+function pickCrops({ temp10cm, temp0cm, moisture }) {
+  const temp = isNumber(temp10cm) ? temp10cm : temp0cm;
+  if (!isNumber(temp) && !isNumber(moisture)) return [];
+
+  return CROP_CATALOGUE
+    .map((crop, index) => ({
+      name: crop.name,
+      index,
+      distance: rangeDistance(temp, crop.temp) + rangeDistance(moisture, crop.moisture),
+    }))
+    .sort((a, b) => a.distance - b.distance || a.index - b.index)
+    .slice(0, 4)
+    .map((crop) => crop.name);
+}
+
+// Deepest reading at root depth, or null
+function rootZoneReading(readings) {
+  const deep = (readings || []).filter((reading) => reading.depth !== null && reading.depth >= ROOT_ZONE_MIN_DEPTH_CM);
+  return deep.length > 0 ? deep[deep.length - 1] : null;
+}
+
+function buildRecommendations({ moisture, temp0cm, temp10cm, ndviMean, ndviStd, indices, soilProfile, weather }, sqi) {
+  const recommendations = [];
+  const rootMoisture = rootZoneReading(soilProfile && soilProfile.moisture);
+  const rootTemperature = rootZoneReading(soilProfile && soilProfile.temperatures);
+  const forecast = weather && weather.forecast;
+  const rainSoon = forecast && isNumber(forecast.rain_next_48h) ? forecast.rain_next_48h : null;
+  const ndwi = indices && indices.ndwi ? indices.ndwi.mean : null;
+  const savi = indices && indices.savi ? indices.savi.mean : null;
+
+  if (isNumber(moisture)) {
+    if (moisture < 20 && rainSoon !== null && rainSoon >= RAIN_SKIP_IRRIGATION_MM) {
+      recommendations.push(`Hold off irrigating - ${rainSoon} mm of rain is forecast in the next 48 hours; check soil moisture (${moisture.toFixed(1)}% now) again after it.`);
+    } else if (moisture < 20 && rootMoisture && rootMoisture.percent >= 20) {
+      recommendations.push(`Irrigate lightly for shallow-rooted crops only - the topsoil is dry (${moisture.toFixed(1)}%) but the root zone at ${rootMoisture.depth} cm still holds ${rootMoisture.percent.toFixed(1)}%.`);
+    } else if (moisture < 15) {
+      recommendations.push(`Irrigate soon - soil moisture is ${moisture.toFixed(1)}%, well below the 20-40% range most crops need.`);
+    } else if (moisture < 20) {
+      recommendations.push(`Plan irrigation - soil moisture (${moisture.toFixed(1)}%) is just below the 20-40% target range.`);
+    } else if (moisture > 45) {
+      const moreRain = rainSoon !== null && rainSoon >= RAIN_SKIP_IRRIGATION_MM ? `, with ${rainSoon} mm more rain forecast in 48 hours` : "";
+      recommendations.push(`Improve drainage and avoid heavy machinery - soil moisture is high (${moisture.toFixed(1)}%)${moreRain}.`);
+    }
+  }
+
+  if (forecast && isNumber(forecast.temp_min) && forecast.temp_min <= FROST_C) {
+    recommendations.push(`Protect young plants from frost - air temperatures down to ${forecast.temp_min}°C are forecast.`);
+  } else if (forecast && isNumber(forecast.temp_max) && forecast.temp_max >= HEAT_C) {
+    recommendations.push(`Plan for heat stress - air temperatures up to ${forecast.temp_max}°C are forecast; irrigate early in the day.`);
+  }
+
+  if (isNumber(temp10cm) && temp10cm < 8) {
+    recommendations.push(`Hold off planting warm-season crops until soil at 10 cm stays above 10°C (now ${temp10cm.toFixed(1)}°C).`);
+  } else if (rootTemperature && rootTemperature.celsius < 8) {
+    recommendations.push(`Expect slow root growth - soil at ${rootTemperature.depth} cm is still ${rootTemperature.celsius.toFixed(1)}°C; favour cool-season crops for now.`);
+  }
+  if (isNumber(temp0cm) && temp0cm > 35) {
+    recommendations.push(`Mulch or keep residue cover to protect the surface from heat (${temp0cm.toFixed(1)}°C at the surface).`);
+  }
+
+  if (!isNumber(ndviMean)) {
+    recommendations.push("Check vegetation (NDVI) again after the next cloud-free satellite pass.");
+  } else if (ndviMean < 0.3) {
+    const soilAdjusted = isNumber(savi) ? ` (SAVI ${savi.toFixed(2)})` : "";
+    recommendations.push(`Scout the field for poor emergence or nutrient stress and take a soil test - vegetation is sparse${soilAdjusted}.`);
+  }
+  if (isNumber(ndwi) && ndwi < NDWI_WATER_STRESS && !(rainSoon !== null && rainSoon >= RAIN_SKIP_IRRIGATION_MM)) {
+    recommendations.push(`Check irrigation coverage - canopy water content is low (NDWI ${ndwi.toFixed(2)}), a sign of water stress.`);
+  }
+  if (isNumber(ndviStd) && ndviStd > 0.15) {
+    recommendations.push("Vegetation is uneven - look for low spots, compaction or drainage problems in the weaker zones.");
+  }
+
+  if (sqi < 45) {
+    recommendations.push("Add organic matter such as compost or cover crops to build soil structure and water holding capacity.");
+  }
+  recommendations.push("Monitor soil moisture and NDVI again next week to track changes.");
+
+  // Always give at least three actions, like the model is asked to
+  for (const general of GENERAL_RECOMMENDATIONS) {
+    if (recommendations.length >= 3) break;
+    recommendations.push(general);
+  }
+
+  return recommendations.slice(0, 4);
+}
+
+function buildSummary({ moisture, temp10cm, temp0cm, ndviMean }, level) {
+  const parts = [];
+  if (isNumber(moisture)) {
+    parts.push(moisture < 20 ? "the soil is dry" : moisture > 45 ? "the soil is very wet" : "soil moisture is adequate");
+  }
+  const temp = isNumber(temp10cm) ? temp10cm : temp0cm;
+  if (isNumber(temp)) {
+    parts.push(temp < 10 ? "soil temperatures are cool" : temp > 28 ? "soil temperatures are high" : "soil temperatures are favourable");
+  }
+  if (isNumber(ndviMean)) {
+    parts.push(ndviMean < 0.3 ? "vegetation is sparse" : ndviMean < 0.5 ? "vegetation is moderate" : "vegetation is healthy");
+  } else {
+    parts.push("vegetation data is unavailable");
+  }
+
+  const conditions = parts.length > 1
+    ? `${parts.slice(0, -1).join(", ")} and ${parts[parts.length - 1]}`
+    : parts[0];
+  return `${level} soil quality: ${conditions}.`;
+}
+
+/**
+ * Analyze a field with the rule engine
+ * @param {object} data - { moisture (%), temp0cm, temp10cm (°C), soilProfile, ndviMean, ndviStd, indices, weather, ... }
+ * @returns {object} Analysis matching ANALYSIS_SCHEMA (schemas/analysisSchema.js), plus Score_Breakdown
+ */
+export function analyzeWithRules(data) {
+  const components = scoreComponents(data);
+  const totalWeight = Object.values(THRESHOLDS).reduce((sum, t) => sum + t.weight, 0);
+  const usedWeight = Object.values(components).reduce((sum, c) => sum + c.weight, 0);
+
+  if (usedWeight === 0) {
+    return {
+      Soil_Quality_Index: 0,
+      Soil_Quality_Level: "Unknown",
+      Confidence: 0,
+      Field_Summary: "Not enough soil or vegetation data to assess this field.",
+      Predicted_Yield: "Unknown",
+      Predicted_Crops: [],
+      Recommendations: ["Check the field again once soil and NDVI data are available."],
+      Score_Breakdown: components,
+    };
+  }
+
+  const weighted = Object.values(components).reduce((sum, c) => sum + c.score * c.weight, 0);
+  const sqi = Math.round((weighted / usedWeight) * 100);
+  const level = levelFor(sqi);
+
+  return {
+    Soil_Quality_Index: sqi,
+    Soil_Quality_Level: level,
+    Confidence: Number((usedWeight / totalWeight).toFixed(2)),
+    Field_Summary: buildSummary(data, level),
+    Predicted_Yield: level === "Moderate" ? "Medium" : level,
+    Predicted_Crops: pickCrops(data),
+    Recommendations: buildRecommendations(data, sqi),
+    Score_Breakdown: components,
+  };
+}
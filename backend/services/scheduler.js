@@ -0,0 +1,278 @@
+/**
+ * Monitoring Scheduler
+ * Keeps monitored fields up to date without anyone opening the analysis page. Every tick it walks the
+ * fields with monitoring enabled and, for each one that is due:
+ *
+ *   1. pulls soil and NDVI (last 30 days) through the cache and stores new readings (store/readingStore.js) -
+ *      fetching also evaluates the field's alert rules (services/alerts.js)
+ *   2. re-runs the analysis when the last one is older than `analysisIntervalHours` (0 = never)
+ *   3. drops the field's readings observed more than READING_RETENTION_DAYS (default 365) ago, so the
+ *      readings store does not grow without bound (analyses are capped per field in store/analysisStore.js)
+ *
+ * Fields run one after the other to go easy on the upstream API. A failed run waits 2x, 4x, 8x ... the
+ * field's interval before the next try (at most a day, or the interval when that is longer). When the
+ * provider answers 429 (rate limited) every field waits the same way.
+ *
+ * State lives in memory: after a restart every monitored field is due once, the analysis cadence is
+ * picked up again from the stored analysis history.
+ */
+
+import { listMonitoredFields } from "../store/fieldStore.js";
+import { listFieldAnalyses } from "../store/analysisStore.js";
+import { saveReading, pruneFieldReadings } from "../store/readingStore.js";
+import { fetchSoil } from "./soil.js";
+import { parseNdviWindow, fetchNdviHistory } from "./ndviHistory.js";
+import { runAnalysis } from "./analysis.js";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export const DEFAULT_MONITORING = { enabled: true, intervalMinutes: 360, analysisIntervalHours: 24 };
+
+const INTERVAL_LIMITS = { min: 15, max: 7 * 24 * 60 }; // minutes
+const ANALYSIS_LIMITS = { min: 0, max: 30 * 24 }; // hours
+const MAX_BACKOFF_MS = 24 * HOUR;
+
+// Resolved lazily so values from .env are picked up after dotenv has run
+const isEnabled = () => process.env.MONITORING_ENABLED !== "false";
+const tickMs = () => Math.max(5, Number(process.env.MONITOR_TICK_SECONDS) || 60) * 1000;
+const retentionDays = () => Math.max(1, Number(process.env.READING_RETENTION_DAYS) || 365);
+
+const scheduler = {
+  timer: null,
+  startedAt: null,
+  lastTickAt: null,
+  lastTickMs: null,
+  ticking: false,
+  pausedUntil: null,
+  pauseReason: null,
+};
+
+const fieldStates = new Map(); // fieldId -> run state
+
+const iso = (ms) => (ms ? new Date(ms).toISOString() : null);
+
+/**
+ * Check a monitoring config from a request body, filling in what it leaves out
+ * @param {object} body - { enabled, intervalMinutes, analysisIntervalHours }
+ * @param {object} [current] - Config the body changes, the defaults otherwise
+ * @returns {object} Complete config
+ * @throws {Error} With a user-facing message when a value is invalid
+ */
+export function validateMonitoring(body = {}, current = DEFAULT_MONITORING) {
+  const config = { ...DEFAULT_MONITORING, ...current };
+
+  if (body.enabled !== undefined) {
+    if (typeof body.enabled !== "boolean") throw new Error("enabled must be true or false");
+    config.enabled = body.enabled;
+  }
+
+  const integer = (key, { min, max }, unit) => {
+    if (body[key] === undefined) return;
+    const value = Number(body[key]);
+    if (!Number.isInteger(value) || value < min || value > max) {
+      throw new Error(`${key} must be a whole number of ${unit} between ${min} and ${max}`);
+    }
+    config[key] = value;
+  };
+  integer("intervalMinutes", INTERVAL_LIMITS, "minutes");
+  integer("analysisIntervalHours", ANALYSIS_LIMITS, "hours");
+
+  return config;
+}
+
+function stateOf(field) {
+  let state = fieldStates.get(field.id);
+  if (!state) {
+    const [latest] = listFieldAnalyses(field, { limit: 1 }).items;
+    state = {
+      lastRunAt: null,
+      lastSuccessAt: null,
+      nextRunAt: Date.now(),
+      lastAnalysisAt: latest ? Date.parse(latest.createdAt) : null,
+      failures: 0,
+      lastError: null,
+      lastResult: null,
+    };
+    fieldStates.set(field.id, state);
+  }
+  return state;
+}
+
+// Delay before the next run: the interval, doubled for every failure in a row
+function nextDelay(config, failures) {
+  const interval = config.intervalMinutes * MINUTE;
+  if (failures === 0) return interval;
+  return Math.min(interval * 2 ** failures, Math.max(MAX_BACKOFF_MS, interval));
+}
+
+/**
+ * Pull soil and NDVI for one field, store new readings and re-run the analysis when it is due
+ * @param {object} field - Monitored field
+ * @param {object} state - Its run state
+ * @returns {Promise<object>} { soilReadings, ndviReadings, prunedReadings, analysisId }
+ * @throws Upstream and analysis errors (with `status` when there is one)
+ */
+async function refreshField(field, state) {
+  const { polyid } = field;
+  const observedAt = (dt) => new Date(dt * 1000).toISOString();
+
+  const soil = (await fetchSoil(polyid)).value;
+  const soilSaved = saveReading({
+    fieldId: field.id,
+    polyid,
+    kind: "soil",
+    observedAt: observedAt(typeof soil.dt === "number" ? soil.dt : Math.floor(Date.now() / 1000)),
+    data: soil,
+  });
+
+  const ndvi = await fetchNdviHistory(polyid, parseNdviWindow({ range: "30d" }));
+  if (ndvi.error) throw ndvi.error;
+  let ndviSaved = 0;
+  for (const entry of Array.isArray(ndvi.history) ? ndvi.history : []) {
+    if (!entry || typeof entry.dt !== "number") continue;
+    if (saveReading({ fieldId: field.id, polyid, kind: "ndvi", observedAt: observedAt(entry.dt), data: entry })) {
+      ndviSaved += 1;
+    }
+  }
+
+  let analysisId = null;
+  const { analysisIntervalHours } = field.monitoring;
+  if (analysisIntervalHours > 0 && (!state.lastAnalysisAt || Date.now() - state.lastAnalysisAt >= analysisIntervalHours * HOUR)) {
+    const { status, body } = await runAnalysis(polyid);
+    if (status >= 400) {
+      const error = new Error(body.message || body.error || `Analysis failed (${status})`);
+      error.status = status;
+      throw error;
+    }
+    state.lastAnalysisAt = Date.now();
+    analysisId = body.Analysis_Id || null;
+  }
+
+  const prunedReadings = pruneFieldReadings(field.id, iso(Date.now() - retentionDays() * DAY));
+
+  return { soilReadings: soilSaved ? 1 : 0, ndviReadings: ndviSaved, prunedReadings, analysisId };
+}
+
+async function runField(field, state) {
+  state.lastRunAt = Date.now();
+  try {
+    state.lastResult = await refreshField(field, state);
+    state.failures = 0;
+    state.lastError = null;
+    state.lastSuccessAt = Date.now();
+    const { soilReadings, ndviReadings, prunedReadings, analysisId } = state.lastResult;
+    console.log(`📡 Monitored ${field.name}: ${soilReadings} soil / ${ndviReadings} NDVI new readings${prunedReadings ? `, ${prunedReadings} old dropped` : ""}${analysisId ? `, analysis ${analysisId}` : ""}`);
+  } catch (error) {
+    state.failures += 1;
+    state.lastError = { message: error.message, status: error.status || null, at: iso(Date.now()) };
+    console.warn(`⚠️  Monitoring ${field.name} failed (${state.failures} in a row):`, error.details || error.message);
+
+    if (error.status === 429) {
+      scheduler.pausedUntil = Date.now() + nextDelay(field.monitoring, state.failures);
+      scheduler.pauseReason = "Upstream rate limit (429)";
+      console.warn(`⏸️  Monitoring paused until ${iso(scheduler.pausedUntil)}`);
+    }
+  }
+  state.nextRunAt = Date.now() + nextDelay(field.monitoring, state.failures);
+}
+
+async function tick() {
+  if (scheduler.ticking) return;
+  if (scheduler.pausedUntil && Date.now() < scheduler.pausedUntil) return;
+  scheduler.pausedUntil = null;
+  scheduler.pauseReason = null;
+
+  scheduler.ticking = true;
+  const started = Date.now();
+  scheduler.lastTickAt = started;
+  try {
+    for (const field of listMonitoredFields()) {
+      const state = stateOf(field);
+      if (state.nextRunAt > Date.now()) continue;
+      await runField(field, state);
+      if (scheduler.pausedUntil) break;
+    }
+  } catch (error) {
+    console.error("Monitoring tick failed:", error);
+  } finally {
+    scheduler.ticking = false;
+    scheduler.lastTickMs = Date.now() - started;
+  }
+}
+
+/**
+ * Start ticking (MONITORING_ENABLED=false keeps the scheduler off, MONITOR_TICK_SECONDS sets the tick)
+ */
+export function startScheduler() {
+  if (scheduler.timer || !isEnabled()) return;
+  scheduler.startedAt = Date.now();
+  scheduler.timer = setInterval(tick, tickMs());
+  // The first tick right away, so due fields do not wait a whole tick after a restart
+  setTimeout(tick, 0);
+  console.log(`📡 Monitoring scheduler started (tick ${tickMs() / 1000}s)`);
+}
+
+export function stopScheduler() {
+  clearInterval(scheduler.timer);
+  scheduler.timer = null;
+}
+
+/**
+ * Recompute when a field runs next after its monitoring config changed
+ * @param {object} field - Field with the new config
+ */
+export function rescheduleField(field) {
+  const state = fieldStates.get(field.id);
+  if (!state) return;
+  state.nextRunAt = state.lastRunAt
+    ? state.lastRunAt + nextDelay(field.monitoring, state.failures)
+    : Date.now();
+}
+
+/**
+ * Run state of one field
+ * @param {object} field - Field record
+ * @returns {object|null} Null while the scheduler has not looked at the field yet
+ */
+export function fieldMonitoringStatus(field) {
+  const state = fieldStates.get(field.id);
+  if (!state) return null;
+  return {
+    lastRunAt: iso(state.lastRunAt),
+    lastSuccessAt: iso(state.lastSuccessAt),
+    nextRunAt: iso(state.nextRunAt),
+    lastAnalysisAt: iso(state.lastAnalysisAt),
+    consecutiveFailures: state.failures,
+    lastError: state.lastError,
+    lastResult: state.lastResult,
+  };
+}
+
+/**
+ * Scheduler status for the admin endpoint
+ * @returns {object} { enabled, running, tickSeconds, startedAt, lastTickAt, lastTickMs, ticking, pausedUntil, pauseReason, fields }
+ */
+export function getSchedulerStatus() {
+  const monitored = listMonitoredFields();
+  return {
+    enabled: isEnabled(),
+    running: !!scheduler.timer,
+    tickSeconds: tickMs() / 1000,
+    startedAt: iso(scheduler.startedAt),
+    lastTickAt: iso(scheduler.lastTickAt),
+    lastTickMs: scheduler.lastTickMs,
+    ticking: scheduler.ticking,
+    pausedUntil: iso(scheduler.pausedUntil),
+    pauseReason: scheduler.pauseReason,
+    fields: monitored.map((field) => ({
+      fieldId: field.id,
+      name: field.name,
+      polyid: field.polyid,
+      monitoring: field.monitoring,
+      // null until the next tick looks at the field
+      status: fieldMonitoringStatus(field),
+    })),
+  };
+}
@@ -0,0 +1,102 @@
+/**
+ * Soil Readings
+ * Turns a soil snapshot into a per-depth profile, so deep readings are not flattened away.
+ *
+ * AgroMonitoring returns { dt, t0, t10, moisture } (Kelvin, m3/m3). Other sources and recorded
+ * data may add deeper readings: t100 (or any tN, N in cm), { depth, value } objects instead of
+ * plain numbers, and moisture per depth as { surface, depth10, depth100, moisture }.
+ */
+
+import { cached, cacheKey, CACHE_POLICIES } from "./cache.js";
+import { getProvider } from "../providers/index.js";
+import { evaluateSoilAlerts } from "./alerts.js";
+
+const KELVIN = 273.15;
+
+// Moisture object keys and the depth (cm) they describe; a plain `moisture` has no stated depth
+const MOISTURE_DEPTHS = { surface: 0, depth10: 10, depth100: 100, moisture: null };
+
+const toNumber = (value) => {
+  const number = typeof value === "string" ? parseFloat(value) : value;
+  return typeof number === "number" && !isNaN(number) ? number : null;
+};
+
+// Number or { depth, value } reading
+const readingValue = (reading) =>
+  reading !== null && typeof reading === "object" ? toNumber(reading.value) : toNumber(reading);
+
+// Soil moisture comes as a fraction (0-1) or already in %
+const toPercent = (value) => (value === null ? null : value < 1 ? value * 100 : value);
+
+/**
+ * Human readable name of a depth
+ * @param {number|null} depth - cm below the surface, null when unknown
+ */
+export const depthLabel = (depth) => (depth === null ? "Top layer" : depth === 0 ? "Surface" : `${depth} cm`);
+
+/**
+ * Soil temperature and moisture at every depth the snapshot has
+ * @param {object} soilData - Soil snapshot (provider or request body)
+ * @returns {object} { temperatures: [{ depth, celsius }], moisture: [{ depth, percent }] } - depths in cm, shallowest first
+ */
+export function parseSoilProfile(soilData) {
+  const temperatures = [];
+  const moisture = [];
+  if (!soilData || typeof soilData !== "object") return { temperatures, moisture };
+
+  for (const [key, reading] of Object.entries(soilData)) {
+    const match = /^t(\d+)$/.exec(key);
+    if (!match) continue;
+    const kelvin = readingValue(reading);
+    if (kelvin === null) continue;
+    const depth = reading && typeof reading === "object" && toNumber(reading.depth) !== null
+      ? toNumber(reading.depth)
+      : Number(match[1]);
+    temperatures.push({ depth, celsius: kelvin - KELVIN });
+  }
+
+  const rawMoisture = soilData.moisture;
+  if (rawMoisture !== null && typeof rawMoisture === "object") {
+    for (const [key, depth] of Object.entries(MOISTURE_DEPTHS)) {
+      const value = toPercent(toNumber(rawMoisture[key]));
+      if (value !== null) moisture.push({ depth, percent: value });
+    }
+  } else {
+    const value = toPercent(toNumber(rawMoisture));
+    if (value !== null) moisture.push({ depth: null, percent: value });
+  }
+
+  // Unknown depth sorts with the top layer
+  const byDepth = (a, b) => (a.depth ?? 0) - (b.depth ?? 0);
+  return { temperatures: temperatures.sort(byDepth), moisture: moisture.sort(byDepth) };
+}
+
+/**
+ * Reading at one depth
+ * @param {Array} readings - temperatures or moisture from parseSoilProfile
+ * @param {number} depth - cm
+ * @returns {object|null}
+ */
+export const atDepth = (readings, depth) => readings.find((reading) => reading.depth === depth) || null;
+
+/**
+ * Moisture used for scoring: the undated value, otherwise the shallowest reading
+ * @param {Array} moisture - moisture from parseSoilProfile
+ * @returns {number|null} %
+ */
+export function topMoisture(moisture) {
+  const reading = moisture.find((m) => m.depth === null) || moisture[0];
+  return reading ? reading.percent : null;
+}
+
+/**
+ * Cached soil snapshot of a polygon
+ * The snapshot is checked against the field's alert rules, cached or not (an observation alerts only once)
+ * @param {string} polyid - Polygon id
+ * @returns {Promise<{value: object, cache: string, ageSeconds: number}>} See services/cache.js
+ */
+export async function fetchSoil(polyid) {
+  const result = await cached(cacheKey(polyid, "soil"), CACHE_POLICIES.soil, () => getProvider().getSoil(polyid));
+  evaluateSoilAlerts(polyid, result.value);
+  return result;
+}
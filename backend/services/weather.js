@@ -0,0 +1,119 @@
+/**
+ * Weather for a polygon
+ * Current conditions, the 5-day forecast and past observations through the provider layer
+ * and the cache. Current weather and forecast are summarized for the analysis:
+ * air temperature, humidity, wind and how much rain is coming
+ */
+
+import { cached, cacheKey, CACHE_POLICIES } from "./cache.js";
+import { getProvider } from "../providers/index.js";
+
+const HOUR = 60 * 60;
+const KELVIN = 273.15;
+
+const round = (value, digits = 1) => Number(value.toFixed(digits));
+export const toCelsius = (kelvin) => (typeof kelvin === "number" ? round(kelvin - KELVIN) : null);
+// Rain is reported per 1h or 3h window depending on the endpoint
+export const rainOf = (entry) => (entry.rain ? entry.rain["3h"] ?? entry.rain["1h"] ?? 0 : 0);
+
+export const fetchCurrentWeather = (polyid) =>
+  cached(cacheKey(polyid, "weather"), CACHE_POLICIES.weather, () => getProvider().getWeather(polyid));
+
+export const fetchWeatherForecast = (polyid) =>
+  cached(cacheKey(polyid, "forecast"), CACHE_POLICIES.forecast, () => getProvider().getWeatherForecast(polyid));
+
+export const fetchWeatherHistory = (polyid, window) =>
+  cached(cacheKey(polyid, "weather-history", window), CACHE_POLICIES.weatherHistory, () =>
+    getProvider().getWeatherHistory(polyid, { start: window.start, end: window.end })
+  );
+
+/**
+ * Summarize current weather
+ * @param {object} current - Provider weather response
+ * @returns {object|null} { dt, temperature, feels_like (°C), humidity (%), pressure (hPa), wind_speed (m/s), clouds (%), rain (mm), description }
+ */
+export function summarizeCurrentWeather(current) {
+  if (!current || !current.main) return null;
+  return {
+    dt: current.dt,
+    temperature: toCelsius(current.main.temp),
+    feels_like: toCelsius(current.main.feels_like),
+    humidity: current.main.humidity ?? null,
+    pressure: current.main.pressure ?? null,
+    wind_speed: current.wind?.speed ?? null,
+    clouds: current.clouds?.all ?? null,
+    rain: round(rainOf(current)),
+    description: current.weather?.[0]?.description || null,
+  };
+}
+
+/**
+ * Summarize a forecast: rain totals for the next 24 h, 48 h and the whole forecast, and one row per day
+ * @param {Array} forecast - Provider forecast response (3-hourly entries)
+ * @param {number} [now] - Unix seconds the 24/48 h windows start from
+ * @returns {object|null} { from, to, rain_next_24h, rain_next_48h, rain_total (mm), temp_min, temp_max (°C), days: [...] }
+ */
+export function summarizeForecast(forecast, now = Math.floor(Date.now() / 1000)) {
+  if (!Array.isArray(forecast) || forecast.length === 0) return null;
+
+  const entries = [...forecast].sort((a, b) => a.dt - b.dt);
+  const rainWithin = (hours) =>
+    round(entries.filter((e) => e.dt < now + hours * HOUR).reduce((sum, e) => sum + rainOf(e), 0));
+
+  const byDay = new Map();
+  for (const entry of entries) {
+    const date = new Date(entry.dt * 1000).toISOString().slice(0, 10);
+    if (!byDay.has(date)) byDay.set(date, []);
+    byDay.get(date).push(entry);
+  }
+
+  const days = [...byDay.entries()].map(([date, dayEntries]) => {
+    const temps = dayEntries.map((e) => e.main.temp);
+    return {
+      date,
+      temp_min: toCelsius(Math.min(...temps)),
+      temp_max: toCelsius(Math.max(...temps)),
+      rain: round(dayEntries.reduce((sum, e) => sum + rainOf(e), 0)),
+      humidity: Math.round(dayEntries.reduce((sum, e) => sum + (e.main.humidity || 0), 0) / dayEntries.length),
+      description: dayEntries[Math.floor(dayEntries.length / 2)].weather?.[0]?.description || null,
+    };
+  });
+
+  return {
+    from: entries[0].dt,
+    to: entries[entries.length - 1].dt,
+    rain_next_24h: rainWithin(24),
+    rain_next_48h: rainWithin(48),
+    rain_total: round(entries.reduce((sum, e) => sum + rainOf(e), 0)),
+    temp_min: Math.min(...days.map((d) => d.temp_min)),
+    temp_max: Math.max(...days.map((d) => d.temp_max)),
+    days,
+  };
+}
+
+/**
+ * Current weather and forecast summary for the analysis
+ * Weather is optional input, so failures are logged and leave that part null
+ * @param {string} polyid - Polygon id
+ * @returns {Promise<object>} { weather: { current, forecast }, cache: { current, forecast } }
+ */
+export async function fetchWeatherSummary(polyid) {
+  const [current, forecast] = await Promise.allSettled([fetchCurrentWeather(polyid), fetchWeatherForecast(polyid)]);
+
+  for (const [name, result] of [["weather", current], ["forecast", forecast]]) {
+    if (result.status === "rejected") {
+      console.warn(`⚠️  Could not fetch ${name} for ${polyid}:`, result.reason.details || result.reason.message);
+    }
+  }
+
+  return {
+    weather: {
+      current: current.status === "fulfilled" ? summarizeCurrentWeather(current.value.value) : null,
+      forecast: forecast.status === "fulfilled" ? summarizeForecast(forecast.value.value) : null,
+    },
+    cache: {
+      current: current.status === "fulfilled" ? current.value.cache : "none",
+      forecast: forecast.status === "fulfilled" ? forecast.value.cache : "none",
+    },
+  };
+}
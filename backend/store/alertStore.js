@@ -0,0 +1,59 @@
+/**
+ * Alert Rules and Alerts
+ * Threshold rules set on a field, and the alerts recorded when a rule matched a soil or NDVI result (fresh or cached)
+ */
+
+import { createCollection } from "./jsonStore.js";
+
+const rules = createCollection("alertRules");
+const alerts = createCollection("alerts");
+
+const newestFirst = (a, b) => b.createdAt.localeCompare(a.createdAt);
+
+/**
+ * Save a rule on a field
+ * @param {object} rule - { fieldId, metric, operator, threshold, windowDays }
+ * @returns {object} Saved rule
+ */
+export const createAlertRule = ({ fieldId, metric, operator, threshold, windowDays = null }) =>
+  rules.insert({ fieldId, metric, operator, threshold, windowDays, enabled: true });
+
+export const getAlertRule = (id) => rules.get(id);
+
+export const listFieldAlertRules = (fieldId) =>
+  rules.list((rule) => rule.fieldId === fieldId).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+export const updateAlertRule = (id, patch) => rules.update(id, patch);
+
+export const deleteAlertRule = (id) => rules.remove(id);
+
+// Rules of a deleted field would never be evaluated again
+export function deleteFieldAlertRules(fieldId) {
+  for (const rule of listFieldAlertRules(fieldId)) rules.remove(rule.id);
+}
+
+/**
+ * Record a triggered alert
+ * @param {object} alert - { ruleId, fieldId, polyid, metric, operator, threshold, windowDays, value, observedAt, message }
+ * @returns {object} Saved alert
+ */
+export const recordAlert = (alert) => alerts.insert(alert);
+
+// One alert per rule and reading - the same data fetched again does not trigger twice
+export const hasAlertFor = (ruleId, observedAt) =>
+  !!alerts.find((alert) => alert.ruleId === ruleId && alert.observedAt === observedAt);
+
+/**
+ * Triggered alerts, newest first
+ * @param {object} [filter]
+ * @param {string} [filter.fieldId] - Only this field's alerts
+ * @param {string} [filter.since] - ISO timestamp, only alerts recorded after it
+ * @param {number} [filter.limit=50] - Maximum number of alerts
+ * @returns {object[]}
+ */
+export function listAlerts({ fieldId, since, limit = 50 } = {}) {
+  return alerts
+    .list((alert) => (!fieldId || alert.fieldId === fieldId) && (!since || alert.createdAt > since))
+    .sort(newestFirst)
+    .slice(0, limit);
+}
@@ -0,0 +1,72 @@
+/**
+ * Analysis History
+ * Every analysis returned by /api/ai-analysis, with the inputs it was computed from,
+ * the model and prompt version that produced it, so a field's results can be compared over time.
+ * Only the newest ANALYSIS_HISTORY_LIMIT analyses (default 500) of each field are kept.
+ */
+
+import { createCollection } from "./jsonStore.js";
+
+const analyses = createCollection("analyses");
+
+const newestFirst = (a, b) => b.createdAt.localeCompare(a.createdAt);
+
+// Resolved lazily so a value from .env is picked up after dotenv has run
+const historyLimit = () => Math.max(1, Number(process.env.ANALYSIS_HISTORY_LIMIT) || 500);
+
+// Drop the oldest analyses of a field (or of a polygon, for analyses without a field) beyond the limit
+function pruneHistory({ fieldId, polyid }) {
+  const sameOwner = (record) => (fieldId ? record.fieldId === fieldId : !record.fieldId && record.polyid === polyid);
+  const limit = historyLimit();
+  if (analyses.count(sameOwner) <= limit) return;
+
+  const dropped = new Set(analyses.list(sameOwner).sort(newestFirst).slice(limit).map((record) => record.id));
+  analyses.removeWhere((record) => dropped.has(record.id));
+}
+
+/**
+ * Save one analysis
+ * @param {object} entry - { fieldId, polyid, source, model, promptVersion, inputs, result }
+ * @returns {object} Saved record (with id and createdAt)
+ */
+export function saveAnalysis({ fieldId = null, polyid, source, model, promptVersion = null, inputs, result }) {
+  const saved = analyses.insert({ fieldId, polyid, source, model, promptVersion, inputs, result });
+  pruneHistory(saved);
+  return saved;
+}
+
+export const getAnalysis = (id) => analyses.get(id);
+
+/**
+ * One page of a field's analyses, newest first
+ * Analyses run on the field's polygon before it was saved as a field count too
+ * @param {object} field - Field record
+ * @param {object} [options]
+ * @param {number} [options.page=1] - 1-based page number
+ * @param {number} [options.limit=20] - Page size
+ * @returns {{ items: object[], page: number, limit: number, total: number, totalPages: number }}
+ */
+export function listFieldAnalyses(field, { page = 1, limit = 20 } = {}) {
+  const all = listAllFieldAnalyses(field);
+
+  const start = (page - 1) * limit;
+  return {
+    items: all.slice(start, start + limit),
+    page,
+    limit,
+    total: all.length,
+    totalPages: Math.ceil(all.length / limit),
+  };
+}
+
+/**
+ * Every analysis of a field, newest first (same matching as listFieldAnalyses)
+ * @param {object} field - Field record
+ * @returns {object[]} Analysis records
+ */
+export const listAllFieldAnalyses = (field) =>
+  analyses
+    .list((record) =>
+      record.fieldId === field.id || (!record.fieldId && !!field.polyid && record.polyid === field.polyid)
+    )
+    .sort(newestFirst);
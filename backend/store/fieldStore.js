@@ -0,0 +1,93 @@
+/**
+ * Field Registry
+ * A field is a saved area: name, GeoJSON geometry, AgroMonitoring polyid, area and location name
+ */
+
+import { createCollection } from "./jsonStore.js";
+
+const fields = createCollection("fields");
+
+// Keys a client is allowed to set on a field
+const FIELD_KEYS = ["name", "geometry", "polyid", "area", "areaInSquareMeters", "shapeType", "locationName"];
+
+function pickFieldKeys(data) {
+  const picked = {};
+  for (const key of FIELD_KEYS) {
+    if (data[key] !== undefined) picked[key] = data[key];
+  }
+  return picked;
+}
+
+export const listFields = () =>
+  fields.list().sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+export const getField = (id) => fields.get(id);
+
+export const findFieldByPolyid = (polyid) =>
+  polyid ? fields.find((field) => field.polyid === polyid) : null;
+
+export const createField = (data) =>
+  fields.insert({
+    name: "Untitled Field",
+    polyid: null,
+    area: null,
+    areaInSquareMeters: null,
+    shapeType: "Polygon",
+    locationName: null,
+    ...pickFieldKeys(data),
+  });
+
+export const updateField = (id, patch) => fields.update(id, pickFieldKeys(patch));
+
+export const deleteField = (id) => fields.remove(id);
+
+/**
+ * Set how the monitoring scheduler refreshes a field (services/scheduler.js validates it)
+ * Kept out of FIELD_KEYS so a plain field update cannot set it unchecked
+ * @param {string} id - Field id
+ * @param {object} monitoring - { enabled, intervalMinutes, analysisIntervalHours }
+ * @returns {object|null} Updated field, or null when there is no such field
+ */
+export const setFieldMonitoring = (id, monitoring) => fields.update(id, { monitoring });
+
+export const listMonitoredFields = () =>
+  fields.list((field) => !!field.polyid && !!field.monitoring && field.monitoring.enabled);
+
+/**
+ * Save the field behind a polygon created (or reused) through POST /api/soil/polygon
+ * `register: false` in the request body skips saving (temporary polygons),
+ * `fieldId` attaches the polygon to an existing field instead of creating a new one;
+ * without it, a reused polygon returns its saved field unchanged (missing keys filled in)
+ * @param {object} body - createPolygon request body
+ * @param {object} polygon - { polyid, geometry, area } from AgroMonitoring
+ * @returns {object|null} Saved field, or null when registration was skipped
+ */
+export function registerField(body = {}, { polyid, geometry, area }) {
+  if (body.register === false) return null;
+
+  const data = {
+    name: body.name,
+    shapeType: body.shapeType,
+    areaInSquareMeters: body.areaInSquareMeters,
+    locationName: body.locationName,
+    polyid,
+    geometry,
+    area,
+  };
+
+  if (body.fieldId && getField(body.fieldId)) {
+    return updateField(body.fieldId, data);
+  }
+
+  // Drawing a saved outline again must not rename it: only fill in what the field is missing
+  const existing = findFieldByPolyid(polyid);
+  if (existing) {
+    const missing = {};
+    for (const [key, value] of Object.entries(data)) {
+      if (value !== undefined && (existing[key] === undefined || existing[key] === null)) missing[key] = value;
+    }
+    return Object.keys(missing).length > 0 ? updateField(existing.id, missing) : existing;
+  }
+
+  return createField(data);
+}
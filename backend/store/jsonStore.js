@@ -0,0 +1,146 @@
+/**
+ * File-backed JSON Store
+ * Keeps each collection in memory and persists it to backend/data/<name>.json
+ * Good enough for a single backend process - no external database required
+ *
+ * Writes are coalesced: every change made in one tick goes out in a single asynchronous write,
+ * so a burst of inserts neither rewrites the file once per record nor blocks the event loop on disk.
+ * Changes still pending when the process exits are written synchronously.
+ */
+
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { fileURLToPath } from "url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Resolved lazily so DATA_DIR from .env is picked up after dotenv has run
+function getDataDir() {
+  return process.env.DATA_DIR || path.join(__dirname, "..", "data");
+}
+
+/**
+ * Create (or open) a named collection of records
+ * Every record gets an `id`, `createdAt` and `updatedAt`
+ * @param {string} name - Collection name, used as the file name
+ * @returns {object} Collection with list/get/find/count/insert/update/remove/removeWhere
+ */
+export function createCollection(name) {
+  let records = null;
+  let dirty = false;
+  let writing = null; // Promise of the write in progress
+
+  const filePath = () => path.join(getDataDir(), `${name}.json`);
+
+  function load() {
+    if (records) return records;
+    try {
+      const raw = fs.readFileSync(filePath(), "utf8");
+      const parsed = JSON.parse(raw);
+      records = Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      if (error.code !== "ENOENT") {
+        console.error(`⚠️  Could not read ${name} store, starting empty:`, error.message);
+      }
+      records = [];
+    }
+    return records;
+  }
+
+  // Write to a temp file first so a crash never leaves half a JSON file behind
+  function writeSync() {
+    const target = filePath();
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    const tmp = `${target}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(records, null, 2));
+    fs.renameSync(tmp, target);
+  }
+
+  async function flush() {
+    await new Promise((resolve) => setImmediate(resolve));
+    while (dirty) {
+      dirty = false;
+      const target = filePath();
+      const tmp = `${target}.tmp`;
+      try {
+        await fs.promises.mkdir(path.dirname(target), { recursive: true });
+        await fs.promises.writeFile(tmp, JSON.stringify(records, null, 2));
+        await fs.promises.rename(tmp, target);
+      } catch (error) {
+        console.error(`⚠️  Could not write ${name} store:`, error.message);
+      }
+    }
+    writing = null;
+  }
+
+  function persist() {
+    dirty = true;
+    if (!writing) writing = flush();
+  }
+
+  process.on("exit", () => {
+    if (dirty || writing) writeSync();
+  });
+
+  const copy = (record) => (record ? structuredClone(record) : null);
+
+  return {
+    list(predicate) {
+      const all = load();
+      return (predicate ? all.filter(predicate) : all).map(copy);
+    },
+
+    get(id) {
+      return copy(load().find((record) => record.id === id));
+    },
+
+    find(predicate) {
+      return copy(load().find(predicate));
+    },
+
+    count(predicate) {
+      const all = load();
+      return predicate ? all.filter(predicate).length : all.length;
+    },
+
+    insert(doc) {
+      const now = new Date().toISOString();
+      const record = { ...doc, id: crypto.randomUUID(), createdAt: now, updatedAt: now };
+      load().push(record);
+      persist();
+      return copy(record);
+    },
+
+    update(id, patch) {
+      const all = load();
+      const index = all.findIndex((record) => record.id === id);
+      if (index === -1) return null;
+      all[index] = { ...all[index], ...patch, id, updatedAt: new Date().toISOString() };
+      persist();
+      return copy(all[index]);
+    },
+
+    remove(id) {
+      const all = load();
+      const index = all.findIndex((record) => record.id === id);
+      if (index === -1) return false;
+      all.splice(index, 1);
+      persist();
+      return true;
+    },
+
+    // Remove every record the predicate matches, returns how many were removed
+    removeWhere(predicate) {
+      const all = load();
+      const kept = all.filter((record) => !predicate(record));
+      const removed = all.length - kept.length;
+      if (removed > 0) {
+        records = kept;
+        persist();
+      }
+      return removed;
+    },
+  };
+}
@@ -0,0 +1,102 @@
+/**
+ * Polygon Registry
+ * Every polygon created through the provider, indexed by a hash of its normalized geometry,
+ * so the same (or a near-identical) shape reuses its polyid instead of using up polygon quota
+ */
+
+import { createCollection } from "./jsonStore.js";
+import { geometryHash, ringBbox, ringAreaSquareMeters } from "../utils/geometry.js";
+
+const polygons = createCollection("polygons");
+
+// Shapes whose bounding box edges are all within this distance count as the same field
+// (read lazily so DEDUP_TOLERANCE_M from .env is picked up)
+const nearIdenticalToleranceM = () => Number(process.env.DEDUP_TOLERANCE_M) || 5;
+// ...as long as their areas also agree within this fraction
+const NEAR_IDENTICAL_AREA_RATIO = 0.02;
+
+const METERS_PER_DEGREE = 111320;
+
+function isNearIdentical(record, bbox, areaSquareMeters) {
+  const lat = (bbox[1] + bbox[3]) / 2;
+  const toleranceM = nearIdenticalToleranceM();
+  const lonTolerance = toleranceM / (METERS_PER_DEGREE * Math.cos((lat * Math.PI) / 180));
+  const latTolerance = toleranceM / METERS_PER_DEGREE;
+
+  const edgesMatch = record.bbox.every((value, index) =>
+    Math.abs(value - bbox[index]) <= (index % 2 === 0 ? lonTolerance : latTolerance)
+  );
+  if (!edgesMatch) return false;
+
+  const largest = Math.max(record.areaSquareMeters, areaSquareMeters);
+  return largest === 0 || Math.abs(record.areaSquareMeters - areaSquareMeters) / largest <= NEAR_IDENTICAL_AREA_RATIO;
+}
+
+/**
+ * Find a registered polygon with the same or a near-identical shape
+ * @param {Array} ring - Ring of [lon, lat] pairs
+ * @param {string} providerName - Only polygons created by this provider can be reused
+ * @returns {object|null} Registry record with `match: "exact" | "near"`, or null
+ */
+export function findMatchingPolygon(ring, providerName) {
+  const hash = geometryHash(ring);
+  const exact = polygons.find((p) => p.provider === providerName && p.geometryHash === hash);
+  if (exact) return { ...exact, match: "exact" };
+
+  const bbox = ringBbox(ring);
+  const areaSquareMeters = ringAreaSquareMeters(ring);
+  const near = polygons.find((p) => p.provider === providerName && isNearIdentical(p, bbox, areaSquareMeters));
+  return near ? { ...near, match: "near" } : null;
+}
+
+/**
+ * Add (or refresh) a polygon in the registry
+ * @param {object} polygon - { polyid, ring, center, area, provider, temporary }
+ * @returns {object} Registry record
+ */
+export function recordPolygon({ polyid, ring, center, area, provider, temporary = false }) {
+  const data = {
+    polyid,
+    provider,
+    geometryHash: geometryHash(ring),
+    bbox: ringBbox(ring),
+    areaSquareMeters: ringAreaSquareMeters(ring),
+    ring,
+    center: center || null,
+    area: area ?? null,
+    temporary,
+    lastUsedAt: new Date().toISOString(),
+  };
+
+  const existing = polygons.find((p) => p.polyid === polyid);
+  if (existing) {
+    // Once something keeps a polygon it stays kept
+    return polygons.update(existing.id, { ...data, temporary: existing.temporary !== false && temporary });
+  }
+  return polygons.insert(data);
+}
+
+/**
+ * Mark a registered polygon as just used
+ * A non-temporary use keeps the polygon from being recycled
+ * @param {string} id - Registry record id
+ * @param {object} [options]
+ * @param {boolean} [options.temporary=false] - Whether this use is a throwaway one
+ */
+export function touchPolygon(id, { temporary = false } = {}) {
+  const patch = { lastUsedAt: new Date().toISOString() };
+  if (!temporary) patch.temporary = false;
+  return polygons.update(id, patch);
+}
+
+export const findPolygonRecord = (polyid) => polygons.find((p) => p.polyid === polyid);
+
+/**
+ * Drop a polygon from the registry (after it was deleted upstream)
+ * @param {string} polyid - Polygon id
+ * @returns {boolean} Whether a record was removed
+ */
+export function forgetPolygon(polyid) {
+  const existing = findPolygonRecord(polyid);
+  return existing ? polygons.remove(existing.id) : false;
+}
@@ -0,0 +1,57 @@
+/**
+ * Field Readings
+ * Soil snapshots and NDVI scenes pulled by the monitoring scheduler, one record per field, kind and
+ * observation time, so a field's conditions can be followed without keeping the analysis page open
+ */
+
+import { createCollection } from "./jsonStore.js";
+
+const readings = createCollection("readings");
+
+export const READING_KINDS = ["soil", "ndvi"];
+
+/**
+ * Save a reading unless the same one is already stored
+ * @param {object} reading - { fieldId, polyid, kind, observedAt (ISO), data }
+ * @returns {object|null} Saved reading, or null when it was already stored
+ */
+export function saveReading({ fieldId, polyid, kind, observedAt, data }) {
+  const existing = readings.find(
+    (reading) => reading.fieldId === fieldId && reading.kind === kind && reading.observedAt === observedAt
+  );
+  if (existing) return null;
+  return readings.insert({ fieldId, polyid, kind, observedAt, data });
+}
+
+/**
+ * Drop a field's readings observed before a cutoff
+ * @param {string} fieldId - Field id
+ * @param {string} before - ISO time; readings observed earlier are removed
+ * @returns {number} Readings removed
+ */
+export const pruneFieldReadings = (fieldId, before) =>
+  readings.removeWhere((reading) => reading.fieldId === fieldId && reading.observedAt < before);
+
+/**
+ * One page of a field's readings, newest observation first
+ * @param {string} fieldId - Field id
+ * @param {object} [options]
+ * @param {string} [options.kind] - "soil" or "ndvi", both by default
+ * @param {number} [options.page=1] - 1-based page number
+ * @param {number} [options.limit=20] - Page size
+ * @returns {{ items: object[], page: number, limit: number, total: number, totalPages: number }}
+ */
+export function listFieldReadings(fieldId, { kind, page = 1, limit = 20 } = {}) {
+  const all = readings
+    .list((reading) => reading.fieldId === fieldId && (!kind || reading.kind === kind))
+    .sort((a, b) => b.observedAt.localeCompare(a.observedAt));
+
+  const start = (page - 1) * limit;
+  return {
+    items: all.slice(start, start + limit),
+    page,
+    limit,
+    total: all.length,
+    totalPages: Math.ceil(all.length / limit),
+  };
+}
@@ -0,0 +1,30 @@
+/**
+ * CSV writer (RFC 4180) for the export endpoints
+ */
+
+// Text starting with one of these is run as a formula by spreadsheet apps
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function formatCell(value) {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "number") return Number.isFinite(value) ? String(value) : "";
+  if (typeof value === "boolean") return value ? "true" : "false";
+
+  let text = String(value);
+  if (FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize rows as CSV with a header line
+ * @param {string[]} columns - Column names, in order; rows are read by these keys
+ * @param {object[]} rows - One object per line
+ * @returns {string} CSV text with CRLF line endings
+ */
+export function toCsv(columns, rows) {
+  const lines = [columns.map(formatCell).join(",")];
+  for (const row of rows) {
+    lines.push(columns.map((column) => formatCell(row[column])).join(","));
+  }
+  return `${lines.join("\r\n")}\r\n`;
+}
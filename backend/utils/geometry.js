@@ -0,0 +1,233 @@
+/**
+ * Geometry helpers shared by the polygon and field controllers
+ * Frontend sends coordinates as [lat, lon]; GeoJSON and AgroMonitoring use [lon, lat]
+ */
+
+import crypto from "crypto";
+
+/**
+ * Validate [lat, lon] coordinates and convert them to a closed GeoJSON ring
+ * @param {Array} coordinates - Array of [lat, lon] pairs
+ * @returns {Array} Closed ring of [lon, lat] pairs
+ * @throws {Error} With a user-facing message when a coordinate is invalid
+ */
+export function toGeoJsonRing(coordinates) {
+  if (!coordinates || !Array.isArray(coordinates) || coordinates.length < 3) {
+    throw new Error("Coordinates must be an array with at least 3 points");
+  }
+
+  const ring = coordinates.map((coord, index) => {
+    if (!Array.isArray(coord) || coord.length < 2) {
+      throw new Error(`Invalid coordinate at index ${index}: must be an array with [lat, lon]`);
+    }
+
+    const [lat, lon] = coord;
+
+    if (typeof lat !== 'number' || typeof lon !== 'number') {
+      throw new Error(`Invalid coordinate at index ${index}: lat and lon must be numbers`);
+    }
+
+    // Validate latitude and longitude ranges
+    if (lat < -90 || lat > 90) {
+      throw new Error(`Invalid latitude at index ${index}: must be between -90 and 90`);
+    }
+    if (lon < -180 || lon > 180) {
+      throw new Error(`Invalid longitude at index ${index}: must be between -180 and 180`);
+    }
+
+    // Convert from [lat, lon] to [lon, lat] for GeoJSON
+    return [lon, lat];
+  });
+
+  // Close the polygon by repeating the first coordinate
+  if (
+    ring[0][0] !== ring[ring.length - 1][0] ||
+    ring[0][1] !== ring[ring.length - 1][1]
+  ) {
+    ring.push(ring[0]);
+  }
+
+  return ring;
+}
+
+/**
+ * Validate a GeoJSON Polygon geometry (or a Feature wrapping one)
+ * @param {object} geometry - GeoJSON Polygon or Feature
+ * @returns {object} Bare GeoJSON Polygon geometry
+ * @throws {Error} When the geometry is not a usable polygon
+ */
+export function toPolygonGeometry(geometry) {
+  const geom = geometry && geometry.type === "Feature" ? geometry.geometry : geometry;
+
+  if (!geom || geom.type !== "Polygon" || !Array.isArray(geom.coordinates) || !Array.isArray(geom.coordinates[0])) {
+    throw new Error("Geometry must be a GeoJSON Polygon");
+  }
+
+  // Reuse the [lat, lon] validation by flipping the outer ring
+  const outer = geom.coordinates[0].map((coord) =>
+    Array.isArray(coord) ? [coord[1], coord[0]] : coord
+  );
+
+  return { type: "Polygon", coordinates: [toGeoJsonRing(outer)] };
+}
+
+/**
+ * Convert a GeoJSON Polygon back to the [lat, lon] list the frontend draws with
+ * The closing point is dropped
+ * @param {object} geometry - GeoJSON Polygon
+ * @returns {Array} Array of [lat, lon] pairs
+ */
+export function toLatLonCoordinates(geometry) {
+  const ring = geometry?.coordinates?.[0] || [];
+  const latLon = ring.map(([lon, lat]) => [lat, lon]);
+  if (latLon.length > 1) {
+    const first = latLon[0];
+    const last = latLon[latLon.length - 1];
+    if (first[0] === last[0] && first[1] === last[1]) latLon.pop();
+  }
+  return latLon;
+}
+
+const EARTH_RADIUS_M = 6371008.8;
+const toRad = (deg) => (deg * Math.PI) / 180;
+
+/**
+ * Geodesic area of a [lon, lat] ring on a spherical Earth
+ * @param {Array} ring - Closed or open ring of [lon, lat] pairs
+ * @returns {number} Area in square meters
+ */
+export function ringAreaSquareMeters(ring) {
+  if (!Array.isArray(ring) || ring.length < 3) return 0;
+
+  let total = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const [lon1, lat1] = ring[i];
+    const [lon2, lat2] = ring[(i + 1) % ring.length];
+    total += toRad(lon2 - lon1) * (2 + Math.sin(toRad(lat1)) + Math.sin(toRad(lat2)));
+  }
+  return Math.abs((total * EARTH_RADIUS_M * EARTH_RADIUS_M) / 2);
+}
+
+/**
+ * Average of the distinct vertices of a [lon, lat] ring
+ * @param {Array} ring - Closed or open ring of [lon, lat] pairs
+ * @returns {Array} [lon, lat] center (same order AgroMonitoring uses)
+ */
+export function ringCenter(ring) {
+  const points = ring.length > 1 &&
+    ring[0][0] === ring[ring.length - 1][0] &&
+    ring[0][1] === ring[ring.length - 1][1]
+    ? ring.slice(0, -1)
+    : ring;
+  const lon = points.reduce((sum, p) => sum + p[0], 0) / points.length;
+  const lat = points.reduce((sum, p) => sum + p[1], 0) / points.length;
+  return [lon, lat];
+}
+
+// 5 decimals ≈ 1.1 m - finer than anyone can draw on the map
+const HASH_PRECISION = 5;
+
+/**
+ * Normalize a [lon, lat] ring so the same shape always serializes the same way:
+ * rounded coordinates, no closing point or repeated vertices,
+ * counter-clockwise, starting at the south-west-most vertex
+ * @param {Array} ring - Closed or open ring of [lon, lat] pairs
+ * @returns {Array} Open, normalized ring
+ */
+export function normalizeRing(ring) {
+  const factor = 10 ** HASH_PRECISION;
+  const rounded = ring.map(([lon, lat]) => [Math.round(lon * factor) / factor, Math.round(lat * factor) / factor]);
+
+  const points = rounded.filter((point, index) => {
+    const prev = rounded[(index - 1 + rounded.length) % rounded.length];
+    return index === 0 ? true : point[0] !== prev[0] || point[1] !== prev[1];
+  });
+  if (points.length > 1) {
+    const first = points[0];
+    const last = points[points.length - 1];
+    if (first[0] === last[0] && first[1] === last[1]) points.pop();
+  }
+
+  // Shoelace sign tells the winding order
+  let signed = 0;
+  for (let i = 0; i < points.length; i++) {
+    const [x1, y1] = points[i];
+    const [x2, y2] = points[(i + 1) % points.length];
+    signed += x1 * y2 - x2 * y1;
+  }
+  if (signed < 0) points.reverse();
+
+  let start = 0;
+  points.forEach(([lon, lat], index) => {
+    const [bestLon, bestLat] = points[start];
+    if (lat < bestLat || (lat === bestLat && lon < bestLon)) start = index;
+  });
+
+  return [...points.slice(start), ...points.slice(0, start)];
+}
+
+/**
+ * Stable hash of a polygon's shape, independent of vertex order and winding
+ * @param {Array} ring - Ring of [lon, lat] pairs
+ * @returns {string} Hex sha1 of the normalized ring
+ */
+export function geometryHash(ring) {
+  return crypto.createHash("sha1").update(JSON.stringify(normalizeRing(ring))).digest("hex");
+}
+
+/**
+ * Bounding box of a [lon, lat] ring
+ * @param {Array} ring - Ring of [lon, lat] pairs
+ * @returns {Array} [minLon, minLat, maxLon, maxLat]
+ */
+export function ringBbox(ring) {
+  const lons = ring.map((p) => p[0]);
+  const lats = ring.map((p) => p[1]);
+  return [Math.min(...lons), Math.min(...lats), Math.max(...lons), Math.max(...lats)];
+}
+
+/**
+ * Whether a point lies inside a [lon, lat] ring (ray casting, planar)
+ * @param {Array} point - [lon, lat]
+ * @param {Array} ring - Closed or open ring of [lon, lat] pairs
+ * @returns {boolean} True when the point is inside
+ */
+export function pointInRing([x, y], ring) {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Whether two edges of a [lon, lat] ring cross (planar, adjacent edges ignored)
+ * @param {Array} ring - Closed or open ring of [lon, lat] pairs
+ * @returns {boolean} True for bow-ties and other self-intersecting outlines
+ */
+export function ringSelfIntersects(ring) {
+  const closed = ring.length > 1 && ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1];
+  const points = closed ? ring.slice(0, -1) : ring;
+  const n = points.length;
+  const cross = (o, a, b) => (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+
+  for (let i = 0; i < n; i++) {
+    const a1 = points[i];
+    const a2 = points[(i + 1) % n];
+    for (let j = i + 2; j < n; j++) {
+      if (i === 0 && j === n - 1) continue; // shares the first vertex
+      const b1 = points[j];
+      const b2 = points[(j + 1) % n];
+      const d1 = cross(b1, b2, a1);
+      const d2 = cross(b1, b2, a2);
+      const d3 = cross(a1, a2, b1);
+      const d4 = cross(a1, a2, b2);
+      if (((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0))) return true;
+    }
+  }
+  return false;
+}
@@ -0,0 +1,83 @@
+/**
+ * Minimal KML reader: the polygons of every Placemark with its name and data
+ * Regular expressions instead of an XML parser - KML from farm software and Google Earth is regular enough
+ */
+
+// Elements may carry a namespace prefix (kml:Placemark)
+const element = (name, flags = "g") => new RegExp(`<(?:[\\w-]+:)?${name}\\b[^>]*>([\\s\\S]*?)</(?:[\\w-]+:)?${name}>`, flags);
+const firstElement = (text, name) => {
+  const match = element(name, "").exec(text);
+  return match ? match[1] : null;
+};
+
+const ENTITIES = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+
+function decodeText(raw) {
+  const cdata = raw.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+  if (cdata) return cdata[1].trim();
+  return raw
+    .replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code) => {
+      if (code[0] === "#") {
+        return String.fromCodePoint(code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : Number(code.slice(1)));
+      }
+      return ENTITIES[code] ?? entity;
+    })
+    .trim();
+}
+
+// "lon,lat[,alt] lon,lat[,alt] ..." -> [[lon, lat], ...]
+function parseCoordinates(text) {
+  return text
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((tuple) => tuple.split(",").slice(0, 2).map(Number));
+}
+
+function parsePolygon(text) {
+  const outer = firstElement(text, "outerBoundaryIs");
+  const outerCoordinates = outer && firstElement(outer, "coordinates");
+  if (!outerCoordinates) return null;
+
+  const rings = [parseCoordinates(outerCoordinates)];
+  for (const [, inner] of text.matchAll(element("innerBoundaryIs"))) {
+    const coordinates = firstElement(inner, "coordinates");
+    if (coordinates) rings.push(parseCoordinates(coordinates));
+  }
+  return rings;
+}
+
+/**
+ * Read the Placemarks of a KML document
+ * @param {string} text - KML document
+ * @returns {object[]} [{ properties: { name, ...data }, polygons: [[outer, ...holes] of [lon, lat] rings], geometryTypes }]
+ * @throws {Error} When the text is not KML
+ */
+export function readKml(text) {
+  if (!/<(?:[\w-]+:)?kml\b/.test(text) && !/<(?:[\w-]+:)?Placemark\b/.test(text)) {
+    throw new Error("Not a KML document");
+  }
+
+  const placemarks = [];
+  for (const [, body] of text.matchAll(element("Placemark"))) {
+    const properties = {};
+    const name = firstElement(body, "name");
+    if (name !== null) properties.name = decodeText(name);
+    const description = firstElement(body, "description");
+    if (description !== null) properties.description = decodeText(description);
+
+    // <Data name="..."><value>...</value></Data> and <SimpleData name="...">...</SimpleData>
+    for (const [, key, inner] of body.matchAll(/<(?:[\w-]+:)?Data\b[^>]*\bname="([^"]*)"[^>]*>([\s\S]*?)<\/(?:[\w-]+:)?Data>/g)) {
+      const value = firstElement(inner, "value");
+      if (value !== null) properties[decodeText(key)] = decodeText(value);
+    }
+    for (const [, key, value] of body.matchAll(/<(?:[\w-]+:)?SimpleData\b[^>]*\bname="([^"]*)"[^>]*>([\s\S]*?)<\/(?:[\w-]+:)?SimpleData>/g)) {
+      properties[decodeText(key)] = decodeText(value);
+    }
+
+    const polygons = [...body.matchAll(element("Polygon"))].map(([, polygon]) => parsePolygon(polygon)).filter(Boolean);
+    const geometryTypes = ["Point", "LineString", "Polygon"].filter((type) => new RegExp(`<(?:[\\w-]+:)?${type}\\b`).test(body));
+    placemarks.push({ properties, polygons, geometryTypes });
+  }
+  return placemarks;
+}
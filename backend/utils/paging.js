@@ -0,0 +1,25 @@
+/**
+ * Paging
+ * Parses the `page` / `limit` query parameters of the list endpoints
+ */
+
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Read ?page= and ?limit= (both positive integers)
+ * @param {object} query - Request query
+ * @returns {{ page: number, limit: number }}
+ * @throws {Error} When either is not a positive integer
+ */
+export function parsePaging(query) {
+  const page = query.page === undefined ? 1 : Number(query.page);
+  const limit = query.limit === undefined ? 20 : Number(query.limit);
+
+  if (!Number.isInteger(page) || page < 1) {
+    throw new Error("`page` must be a positive integer");
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new Error(`\`limit\` must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+  }
+  return { page, limit };
+}
@@ -0,0 +1,271 @@
+/**
+ * Coordinate Reference Systems
+ * Turns projected boundary files back into WGS84 longitude / latitude. Understands the CRS as an EPSG code
+ * (GeoJSON `crs` members) or as WKT (shapefile .prj) and covers what farm boundary exports use:
+ *
+ *   - geographic (WGS84, NAD83, ETRS89, ...)            - taken as WGS84, datums differ by a few meters at most
+ *   - Transverse Mercator, UTM included                  - Snyder's series (USGS PP 1395, 8-5 to 8-7), sub-meter in a zone
+ *   - Web Mercator (EPSG:3857 and its aliases)          - spherical
+ *   - Lambert Conformal Conic, one or two parallels     - Snyder 15-5 to 15-9
+ *
+ * Linear units other than the meter (feet, US survey feet) are converted first.
+ */
+
+const toRad = (deg) => (deg * Math.PI) / 180;
+const toDeg = (rad) => (rad * 180) / Math.PI;
+
+const ELLIPSOIDS = {
+  WGS84: { a: 6378137, invf: 298.257223563 },
+  GRS80: { a: 6378137, invf: 298.257222101 },
+  CLARKE1866: { a: 6378206.4, invf: 294.978698214 },
+};
+
+const WEB_MERCATOR_CODES = new Set([3857, 3785, 900913, 102100, 102113]);
+
+/**
+ * Parse WKT into nested nodes
+ * @param {string} text - WKT, e.g. PROJCS["name", GEOGCS[...], PROJECTION["Transverse_Mercator"], ...]
+ * @returns {object} { keyword, args: [string | number | node] }
+ * @throws {Error} When the text is not WKT
+ */
+function parseWkt(text) {
+  const tokens = text.match(/"(?:[^"]|"")*"|[A-Za-z_][A-Za-z0-9_]*|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?|[[\](),]/g) || [];
+  let position = 0;
+
+  const node = () => {
+    const keyword = tokens[position++];
+    if (!/^[A-Za-z_]/.test(keyword || "") || !/^[[(]$/.test(tokens[position] || "")) {
+      throw new Error("Unreadable projection (WKT) definition");
+    }
+    position++;
+    const args = [];
+    while (position < tokens.length && !/^[\])]$/.test(tokens[position])) {
+      const token = tokens[position];
+      if (token === ",") {
+        position++;
+      } else if (token.startsWith('"')) {
+        args.push(token.slice(1, -1).replace(/""/g, '"'));
+        position++;
+      } else if (/^[-+.\d]/.test(token)) {
+        args.push(Number(token));
+        position++;
+      } else if (/^[[(]$/.test(tokens[position + 1] || "")) {
+        args.push(node());
+      } else {
+        args.push(token); // bare enum values such as AXIS["Easting", EAST]
+        position++;
+      }
+    }
+    position++;
+    return { keyword: keyword.toUpperCase(), args };
+  };
+
+  return node();
+}
+
+const children = (node, keyword) => node.args.filter((arg) => arg && arg.keyword === keyword);
+const child = (node, keyword) => children(node, keyword)[0] || null;
+
+function find(node, keyword) {
+  if (!node || typeof node !== "object") return null;
+  if (node.keyword === keyword) return node;
+  for (const arg of node.args) {
+    const found = find(arg, keyword);
+    if (found) return found;
+  }
+  return null;
+}
+
+// Forward-backward conversions between geographic degrees and projected meters
+function transverseMercator({ a, invf, lat0 = 0, lon0, k0, falseEasting = 0, falseNorthing = 0 }) {
+  const f = 1 / invf;
+  const e2 = f * (2 - f);
+  const ep2 = e2 / (1 - e2);
+  const e4 = e2 * e2;
+  const e6 = e4 * e2;
+  const meridional = (phi) =>
+    a * ((1 - e2 / 4 - (3 * e4) / 64 - (5 * e6) / 256) * phi -
+      ((3 * e2) / 8 + (3 * e4) / 32 + (45 * e6) / 1024) * Math.sin(2 * phi) +
+      ((15 * e4) / 256 + (45 * e6) / 1024) * Math.sin(4 * phi) -
+      ((35 * e6) / 3072) * Math.sin(6 * phi));
+  const m0 = meridional(toRad(lat0));
+  const e1 = (1 - Math.sqrt(1 - e2)) / (1 + Math.sqrt(1 - e2));
+
+  return ([x, y]) => {
+    const m = m0 + (y - falseNorthing) / k0;
+    const mu = m / (a * (1 - e2 / 4 - (3 * e4) / 64 - (5 * e6) / 256));
+    const phi1 = mu +
+      ((3 * e1) / 2 - (27 * e1 ** 3) / 32) * Math.sin(2 * mu) +
+      ((21 * e1 ** 2) / 16 - (55 * e1 ** 4) / 32) * Math.sin(4 * mu) +
+      ((151 * e1 ** 3) / 96) * Math.sin(6 * mu) +
+      ((1097 * e1 ** 4) / 512) * Math.sin(8 * mu);
+
+    const sin1 = Math.sin(phi1);
+    const cos1 = Math.cos(phi1);
+    const c1 = ep2 * cos1 * cos1;
+    const t1 = Math.tan(phi1) ** 2;
+    const n1 = a / Math.sqrt(1 - e2 * sin1 * sin1);
+    const r1 = (a * (1 - e2)) / (1 - e2 * sin1 * sin1) ** 1.5;
+    const d = (x - falseEasting) / (n1 * k0);
+
+    const lat = phi1 - ((n1 * Math.tan(phi1)) / r1) *
+      (d ** 2 / 2 -
+        ((5 + 3 * t1 + 10 * c1 - 4 * c1 ** 2 - 9 * ep2) * d ** 4) / 24 +
+        ((61 + 90 * t1 + 298 * c1 + 45 * t1 ** 2 - 252 * ep2 - 3 * c1 ** 2) * d ** 6) / 720);
+    const lon = toRad(lon0) +
+      (d - ((1 + 2 * t1 + c1) * d ** 3) / 6 +
+        ((5 - 2 * c1 + 28 * t1 - 3 * c1 ** 2 + 8 * ep2 + 24 * t1 ** 2) * d ** 5) / 120) / cos1;
+    return [toDeg(lon), toDeg(lat)];
+  };
+}
+
+function webMercator({ falseEasting = 0, falseNorthing = 0 } = {}) {
+  const radius = ELLIPSOIDS.WGS84.a;
+  return ([x, y]) => [
+    toDeg((x - falseEasting) / radius),
+    toDeg(2 * Math.atan(Math.exp((y - falseNorthing) / radius)) - Math.PI / 2),
+  ];
+}
+
+function lambertConformalConic({ a, invf, lat0, lon0, lat1 = lat0, lat2 = lat1, k0 = 1, falseEasting = 0, falseNorthing = 0 }) {
+  const f = 1 / invf;
+  const e = Math.sqrt(f * (2 - f));
+  const m = (phi) => Math.cos(phi) / Math.sqrt(1 - (e * Math.sin(phi)) ** 2);
+  const t = (phi) => Math.tan(Math.PI / 4 - phi / 2) / ((1 - e * Math.sin(phi)) / (1 + e * Math.sin(phi))) ** (e / 2);
+
+  const [phi0, phi1, phi2] = [lat0, lat1, lat2].map(toRad);
+  const n = Math.abs(phi1 - phi2) < 1e-10
+    ? Math.sin(phi1)
+    : (Math.log(m(phi1)) - Math.log(m(phi2))) / (Math.log(t(phi1)) - Math.log(t(phi2)));
+  const bigF = m(phi1) / (n * t(phi1) ** n);
+  const rho0 = a * k0 * bigF * t(phi0) ** n;
+
+  return ([x, y]) => {
+    const dx = x - falseEasting;
+    const dy = rho0 - (y - falseNorthing);
+    const rho = Math.sign(n) * Math.sqrt(dx * dx + dy * dy);
+    const theta = Math.atan2(Math.sign(n) * dx, Math.sign(n) * dy);
+    const tValue = (rho / (a * k0 * bigF)) ** (1 / n);
+
+    let phi = Math.PI / 2 - 2 * Math.atan(tValue);
+    for (let i = 0; i < 15; i++) {
+      const next = Math.PI / 2 - 2 * Math.atan(tValue * ((1 - e * Math.sin(phi)) / (1 + e * Math.sin(phi))) ** (e / 2));
+      if (Math.abs(next - phi) < 1e-12) {
+        phi = next;
+        break;
+      }
+      phi = next;
+    }
+    return [toDeg(theta / n) + lon0, toDeg(phi)];
+  };
+}
+
+// Scale projected coordinates to meters before projecting them back
+const inMeters = (toLonLat, unit) => (unit === 1 ? toLonLat : ([x, y]) => toLonLat([x * unit, y * unit]));
+
+const geographic = (name) => ({ name, toLonLat: ([x, y]) => [x, y] });
+
+/**
+ * CRS of an EPSG code
+ * @param {number} code - EPSG code
+ * @returns {object|null} { name, toLonLat }, null when the code is not one we know
+ */
+function fromEpsg(code) {
+  if ([4326, 4269, 4258, 4617, 4283, 4167, 4619].includes(code)) return geographic(`EPSG:${code}`);
+  if (WEB_MERCATOR_CODES.has(code)) return { name: `EPSG:${code} (Web Mercator)`, toLonLat: webMercator() };
+
+  // UTM: WGS84 north / south, NAD83 north, ETRS89 north
+  const utm = (zone, south, ellipsoid) => ({
+    name: `EPSG:${code} (UTM zone ${zone}${south ? "S" : "N"})`,
+    toLonLat: transverseMercator({
+      ...ELLIPSOIDS[ellipsoid],
+      lon0: zone * 6 - 183,
+      k0: 0.9996,
+      falseEasting: 500000,
+      falseNorthing: south ? 10000000 : 0,
+    }),
+  });
+  if (code >= 32601 && code <= 32660) return utm(code - 32600, false, "WGS84");
+  if (code >= 32701 && code <= 32760) return utm(code - 32700, true, "WGS84");
+  if (code >= 26901 && code <= 26923) return utm(code - 26900, false, "GRS80");
+  if (code >= 25828 && code <= 25838) return utm(code - 25800, false, "GRS80");
+  return null;
+}
+
+/**
+ * CRS described by WKT (ESRI .prj or OGC WKT1)
+ * @param {string} wkt
+ * @returns {object} { name, toLonLat }
+ * @throws {Error} When the projection is not supported
+ */
+function fromWkt(wkt) {
+  const root = parseWkt(wkt);
+  if (root.keyword === "GEOGCS" || root.keyword === "GEOGCRS") return geographic(String(root.args[0]));
+  if (root.keyword !== "PROJCS") throw new Error(`Unsupported coordinate system type ${root.keyword}`);
+
+  const name = String(root.args[0]);
+  const authority = child(root, "AUTHORITY");
+  if (authority && String(authority.args[0]).toUpperCase() === "EPSG") {
+    const known = fromEpsg(Number(authority.args[1]));
+    if (known) return known;
+  }
+
+  const spheroid = find(root, "SPHEROID") || find(root, "ELLIPSOID");
+  const ellipsoid = spheroid
+    ? { a: Number(spheroid.args[1]), invf: Number(spheroid.args[2]) || Infinity }
+    : ELLIPSOIDS.WGS84;
+  const unitNode = child(root, "UNIT");
+  const unit = unitNode ? Number(unitNode.args[1]) || 1 : 1;
+
+  const parameters = {};
+  for (const parameter of children(root, "PARAMETER")) {
+    parameters[String(parameter.args[0]).toLowerCase()] = Number(parameter.args[1]);
+  }
+  // False easting / northing are given in the CRS unit
+  const common = {
+    ...ellipsoid,
+    lat0: parameters.latitude_of_origin ?? parameters.latitude_of_center ?? 0,
+    lon0: parameters.central_meridian ?? parameters.longitude_of_center ?? 0,
+    k0: parameters.scale_factor ?? 1,
+    falseEasting: (parameters.false_easting ?? 0) * unit,
+    falseNorthing: (parameters.false_northing ?? 0) * unit,
+  };
+
+  const projection = String((child(root, "PROJECTION") || { args: [""] }).args[0]).toLowerCase();
+  if (projection.includes("transverse_mercator") || projection === "gauss_kruger") {
+    return { name, toLonLat: inMeters(transverseMercator(common), unit) };
+  }
+  if (projection.includes("mercator") && (/web|pseudo|auxiliary/i.test(name) || projection.includes("auxiliary") || projection.includes("pseudo"))) {
+    return { name, toLonLat: inMeters(webMercator(common), unit) };
+  }
+  if (projection.includes("lambert_conformal_conic")) {
+    return {
+      name,
+      toLonLat: inMeters(lambertConformalConic({
+        ...common,
+        lat1: parameters.standard_parallel_1 ?? common.lat0,
+        lat2: parameters.standard_parallel_2 ?? parameters.standard_parallel_1 ?? common.lat0,
+      }), unit),
+    };
+  }
+  throw new Error(`Unsupported projection ${projection || "(none)"} in ${name} - export the file in WGS84 (EPSG:4326)`);
+}
+
+/**
+ * Resolve a CRS from an EPSG name or WKT
+ * @param {string|null} definition - "EPSG:32617", "urn:ogc:def:crs:EPSG::3857", "urn:ogc:def:crs:OGC:1.3:CRS84", WKT, or null for WGS84
+ * @returns {object} { name, toLonLat: ([x, y]) => [lon, lat] }
+ * @throws {Error} With a user-facing message when the CRS is unknown or unsupported
+ */
+export function resolveCrs(definition) {
+  const text = typeof definition === "string" ? definition.trim() : "";
+  if (!text || /CRS:?84$/i.test(text)) return geographic("WGS84");
+
+  const epsg = text.match(/^(?:urn:ogc:def:crs:)?EPSG:(?:[\d.]*:)?:?(\d+)$/i);
+  if (epsg) {
+    const known = fromEpsg(Number(epsg[1]));
+    if (!known) throw new Error(`Unsupported coordinate system EPSG:${epsg[1]} - export the file in WGS84 (EPSG:4326)`);
+    return known;
+  }
+  return fromWkt(text);
+}
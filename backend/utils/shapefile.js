@@ -0,0 +1,138 @@
+/**
+ * Minimal Shapefile reader: polygon geometries (.shp) and their attributes (.dbf)
+ * Coordinates come back as stored - projected files still need their .prj (utils/projection.js)
+ */
+
+import { pointInRing } from "./geometry.js";
+
+const POLYGON_TYPES = new Set([5, 15, 25]); // Polygon, PolygonZ, PolygonM
+const SHAPE_NAMES = { 1: "Point", 3: "PolyLine", 8: "MultiPoint", 11: "PointZ", 13: "PolyLineZ", 18: "MultiPointZ", 21: "PointM", 23: "PolyLineM", 28: "MultiPointM" };
+
+// Twice the signed area: negative for clockwise rings, which shapefiles use for outer rings
+function signedArea(ring) {
+  let sum = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    sum += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return sum;
+}
+
+// Rings of one record into polygons: clockwise rings are outer boundaries, the others holes of the one around them
+function groupRings(rings) {
+  const polygons = [];
+  const holes = [];
+  for (const ring of rings) {
+    if (signedArea(ring) <= 0) polygons.push([ring]);
+    else holes.push(ring);
+  }
+  for (const hole of holes) {
+    const owner = polygons.find((polygon) => pointInRing(hole[0], polygon[0]));
+    // A lone counter-clockwise ring is a sloppy outer boundary, not a hole
+    if (owner) owner.push(hole);
+    else polygons.push([hole.slice().reverse()]);
+  }
+  return polygons;
+}
+
+/**
+ * Read the geometries of a .shp file
+ * @param {Buffer} buffer - .shp contents
+ * @returns {Array} One entry per record: array of polygons (each [outer, ...holes] of [x, y] rings), null for null shapes
+ * @throws {Error} When the file is not a polygon shapefile
+ */
+export function readShp(buffer) {
+  if (buffer.length < 100 || buffer.readInt32BE(0) !== 9994) throw new Error("Not a shapefile (.shp)");
+  const fileType = buffer.readInt32LE(32);
+  if (fileType !== 0 && !POLYGON_TYPES.has(fileType)) {
+    throw new Error(`The shapefile holds ${SHAPE_NAMES[fileType] || `type ${fileType}`} shapes, not polygons`);
+  }
+
+  const records = [];
+  let offset = 100;
+  while (offset + 8 <= buffer.length) {
+    const length = buffer.readInt32BE(offset + 4) * 2;
+    const content = offset + 8;
+    offset = content + length;
+    if (length < 4 || offset > buffer.length) break;
+
+    const shapeType = buffer.readInt32LE(content);
+    if (shapeType === 0) {
+      records.push(null);
+      continue;
+    }
+    if (!POLYGON_TYPES.has(shapeType)) throw new Error(`Record ${records.length + 1} is not a polygon`);
+
+    const numParts = buffer.readInt32LE(content + 36);
+    const numPoints = buffer.readInt32LE(content + 40);
+    const partsStart = content + 44;
+    const pointsStart = partsStart + numParts * 4;
+    const parts = Array.from({ length: numParts }, (_, i) => buffer.readInt32LE(partsStart + i * 4));
+
+    const rings = parts.map((start, i) => {
+      const end = i + 1 < numParts ? parts[i + 1] : numPoints;
+      const ring = [];
+      for (let p = start; p < end; p++) {
+        ring.push([buffer.readDoubleLE(pointsStart + p * 16), buffer.readDoubleLE(pointsStart + p * 16 + 8)]);
+      }
+      return ring;
+    }).filter((ring) => ring.length >= 4);
+
+    records.push(groupRings(rings));
+  }
+  return records;
+}
+
+/**
+ * Read the attribute table of a .dbf file (dBASE III)
+ * @param {Buffer} buffer - .dbf contents
+ * @param {string} [encoding="utf-8"] - Text encoding, from the .cpg file when there is one
+ * @returns {object[]} One properties object per record (deleted records included, as {})
+ */
+export function readDbf(buffer, encoding = "utf-8") {
+  let decoder;
+  try {
+    decoder = new TextDecoder(encoding);
+  } catch {
+    decoder = new TextDecoder("utf-8");
+  }
+
+  const count = buffer.readUInt32LE(4);
+  const headerLength = buffer.readUInt16LE(8);
+  const recordLength = buffer.readUInt16LE(10);
+
+  const fields = [];
+  for (let offset = 32; offset + 32 <= headerLength && buffer[offset] !== 0x0d; offset += 32) {
+    const nameEnd = buffer.indexOf(0, offset);
+    fields.push({
+      name: buffer.toString("latin1", offset, Math.min(nameEnd < 0 ? offset + 11 : nameEnd, offset + 11)).trim(),
+      type: String.fromCharCode(buffer[offset + 11]),
+      length: buffer[offset + 16],
+    });
+  }
+
+  const rows = [];
+  for (let i = 0; i < count; i++) {
+    const start = headerLength + i * recordLength;
+    if (start + recordLength > buffer.length) break;
+    if (buffer[start] === 0x2a) {
+      rows.push({}); // deleted
+      continue;
+    }
+
+    const row = {};
+    let position = start + 1;
+    for (const field of fields) {
+      const raw = decoder.decode(buffer.subarray(position, position + field.length)).replace(/\0/g, "").trim();
+      position += field.length;
+      if (field.type === "N" || field.type === "F") {
+        row[field.name] = raw === "" || Number.isNaN(Number(raw)) ? null : Number(raw);
+      } else if (field.type === "L") {
+        row[field.name] = /^[YyTt]$/.test(raw) ? true : /^[NnFf]$/.test(raw) ? false : null;
+      } else {
+        row[field.name] = raw === "" ? null : raw;
+      }
+    }
+    rows.push(row);
+  }
+  return rows;
+}
@@ -0,0 +1,82 @@
+/**
+ * Time Windows
+ * Parses the `start` / `end` / `range` query parameters shared by the endpoints
+ * that read a period of history (NDVI, accumulated weather)
+ */
+
+const DAY = 60 * 60 * 24;
+
+// Units accepted in `range`, e.g. 7d, 2w, 6m, 1y (a month counts as 30 days)
+const RANGE_UNITS = { d: DAY, w: 7 * DAY, m: 30 * DAY, y: 365 * DAY };
+
+// Longest window a caller may ask for
+const MAX_WINDOW_SECONDS = 5 * 365 * DAY;
+
+/**
+ * Parse a range like "30d" or "6m" into seconds
+ * @param {string} range - <number><d|w|m|y>
+ * @returns {number|null} Seconds, or null when the range is not valid
+ */
+function parseRange(range) {
+  const match = /^(\d+)([dwmy])$/.exec(String(range).trim().toLowerCase());
+  if (!match || Number(match[1]) === 0) return null;
+  return Number(match[1]) * RANGE_UNITS[match[2]];
+}
+
+function parseTimestamp(value, name) {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`${name} must be a unix timestamp in seconds`);
+  }
+  return parsed;
+}
+
+/**
+ * Build a time window from `start` / `end` / `range` query parameters
+ * - start + end: that exact window
+ * - range (+ optional end): `range` back from `end` (default now)
+ * - nothing: the default range back from now
+ * @param {object} query - Request query (or body)
+ * @param {string} [defaultRange="30d"] - Range used when neither start nor range is given
+ * @param {object} [options]
+ * @param {number} [options.maxSeconds] - Longest window allowed (default 5 years)
+ * @returns {object} { start, end, label, rolling } in unix seconds - rolling when the window ends now (no `end` given)
+ * @throws {Error} With a user-facing message when the parameters are invalid
+ */
+export function parseTimeWindow(query = {}, defaultRange = "30d", { maxSeconds = MAX_WINDOW_SECONDS } = {}) {
+  const { start, end, range } = query;
+  // A few minutes back - the newest seconds never have data yet
+  const now = Math.floor(Date.now() / 1000) - 60 * 5;
+
+  if (start !== undefined && range !== undefined) {
+    throw new Error("Use either start or range, not both");
+  }
+
+  let windowEnd = end !== undefined ? parseTimestamp(end, "end") : now;
+  if (windowEnd > now) windowEnd = now;
+
+  let windowStart;
+  let label;
+  if (start !== undefined) {
+    windowStart = parseTimestamp(start, "start");
+    label = "Requested window";
+  } else {
+    const rangeValue = range !== undefined ? range : defaultRange;
+    const seconds = parseRange(rangeValue);
+    if (!seconds) {
+      throw new Error("range must look like 7d, 2w, 6m or 1y");
+    }
+    windowStart = windowEnd - seconds;
+    label = `Last ${rangeValue}`;
+  }
+
+  if (windowStart >= windowEnd) {
+    throw new Error("start must be before end");
+  }
+  if (windowEnd - windowStart > maxSeconds) {
+    const years = maxSeconds / RANGE_UNITS.y;
+    throw new Error(`The time window can be at most ${Number.isInteger(years) ? `${years} year${years === 1 ? "" : "s"}` : `${Math.floor(maxSeconds / DAY)} days`}`);
+  }
+
+  return { start: windowStart, end: windowEnd, label, rolling: end === undefined };
+}
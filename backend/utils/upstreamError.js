@@ -0,0 +1,14 @@
+/**
+ * Error carrying the upstream HTTP status and response body,
+ * so controllers can relay AgroMonitoring failures to the frontend unchanged
+ * @param {string} message - Error message
+ * @param {number} status - Upstream HTTP status
+ * @param {object} details - Parsed upstream error body
+ * @returns {Error} Error with `status` and `details` set
+ */
+export function upstreamError(message, status, details) {
+  const error = new Error(message);
+  error.status = status;
+  error.details = details;
+  return error;
+}
@@ -0,0 +1,81 @@
+/**
+ * Minimal ZIP reader (stored and deflated entries, no ZIP64, no encryption)
+ * Enough to unpack zipped shapefiles and KMZ uploads without an archive library
+ */
+
+import zlib from "zlib";
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+/**
+ * Whether a buffer starts like a ZIP archive
+ * @param {Buffer} buffer
+ * @returns {boolean}
+ */
+export const isZip = (buffer) => buffer.length >= 4 && buffer.readUInt32LE(0) === LOCAL_SIGNATURE;
+
+/**
+ * Unpack every file of a ZIP archive
+ * @param {Buffer} buffer - Archive contents
+ * @param {object} [options]
+ * @param {number} [options.maxBytes=100 MB] - Limit on the total unpacked size
+ * @returns {Map<string, Buffer>} Path -> contents (directories and macOS resource forks left out)
+ * @throws {Error} With a user-facing message when the archive cannot be read
+ */
+export function unzip(buffer, { maxBytes = 100 * 1024 * 1024 } = {}) {
+  // The end of central directory record sits in the last 22 bytes plus an optional comment
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error("Not a ZIP archive (no central directory)");
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  const files = new Map();
+  let total = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_SIGNATURE) {
+      throw new Error("Corrupt ZIP archive (bad central directory entry)");
+    }
+    const flags = buffer.readUInt16LE(offset + 8);
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const size = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString("utf8", offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/") || name.startsWith("__MACOSX/")) continue;
+    if (flags & 0x1) throw new Error(`${name} is encrypted`);
+    if (compressedSize === 0xffffffff || size === 0xffffffff) throw new Error("ZIP64 archives are not supported");
+
+    total += size;
+    if (total > maxBytes) throw new Error(`Archive unpacks to more than ${Math.round(maxBytes / 1024 / 1024)} MB`);
+
+    if (buffer.readUInt32LE(localOffset) !== LOCAL_SIGNATURE) {
+      throw new Error(`Corrupt ZIP archive (bad local header for ${name})`);
+    }
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      files.set(name, Buffer.from(data));
+    } else if (method === 8) {
+      files.set(name, zlib.inflateRawSync(data, { maxOutputLength: Math.max(size, 1) }));
+    } else {
+      throw new Error(`${name} uses an unsupported compression method (${method})`);
+    }
+  }
+
+  return files;
+}